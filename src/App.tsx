@@ -8,28 +8,74 @@ import { InfoPanel } from './components/InfoPanel';
 import { ModeButtons } from './components/ModeButtons';
 import { SampleVisualization } from './components/SampleVisualization';
 import { FiltersVisualization } from './components/FiltersVisualization';
+import { ClassificationView } from './components/ClassificationView';
+import { LayerSelector } from './components/LayerSelector';
+import { DBNGeneration } from './components/DBNGeneration';
+import { ClassificationRBM } from './ml/ClassificationRBM';
 import { Footer } from './components/Footer';
 
 import './styles/App.css';
 
 function App() {
   const [currentMode, setCurrentMode] = useState<ViewMode>('sample');
+  const [selectedLayer, setSelectedLayer] = useState(0);
   
   const {
     rbm,
-    mnistData,
+    dbn,
+    convRBM,
+    dataset,
+    modelDataset,
+    importedDatasets,
+    testData,
     isTraining,
+    isLoadingData,
+    isPaused,
     trainingProgress,
     trainNetwork,
+    continueTraining,
+    pauseTraining,
+    resumeTraining,
+    stopTraining,
     loadSavedWeights,
+    lastManifest,
+    downloadManifest,
+    replayManifest,
+    isEvaluating,
+    modelEvaluation,
+    evaluateModel,
+    loadData,
+    loadIDX,
+    importImages,
+    clearImportedImages,
     handleDataSourceChange,
     handleTrainingMethodChange,
     handleSelectedDigitChange,
-    handleEpochsChange
+    handleEpochsChange,
+    handleNetworkSettingsChange,
+    handleCDSettingsChange,
+    handlePTSettingsChange,
+    handleAnnealingSettingsChange,
+    handleOptimizerSettingsChange,
+    handleRegularizationSettingsChange,
+    handleVisibleUnitsSettingsChange,
+    handleClassificationSettingsChange,
+    handleDBNSettingsChange,
+    handleConvSettingsChange,
+    handleSeedChange,
+    handleAISSettingsChange,
+    handlePreprocessingSettingsChange,
+    handleGeneratorSettingsChange
   } = useRBM();
 
+  // Номер слоя может не существовать в новой сети
+  const layer = dbn ? Math.min(selectedLayer, dbn.getNLayers() - 1) : 0;
+
+  // Свёрточная RBM показывается в тех же режимах, что и обычная
+  const model = convRBM ?? rbm;
+
   const handleModeChange = (mode: ViewMode) => {
-    if (!isTraining && rbm) {
+    if (!isTraining && model) {
       setCurrentMode(mode);
     }
   };
@@ -42,18 +88,50 @@ function App() {
       
       <TrainingControls
         onTrain={trainNetwork}
+        onContinueTraining={rbm && !dbn ? continueTraining : undefined}
+        onPauseTraining={pauseTraining}
+        onResumeTraining={resumeTraining}
+        onStopTraining={stopTraining}
         onLoadSaved={loadSavedWeights}
         onDataSourceToggle={handleDataSourceChange}
+        onLoadIDX={loadIDX}
+        idxDatasetDescription={importedDatasets.idx?.source.description}
+        onImportImages={importImages}
+        onClearImportedImages={clearImportedImages}
+        customDatasetDescription={importedDatasets.custom?.source.description}
+        isLoadingData={isLoadingData}
         onTrainingMethodChange={handleTrainingMethodChange}
         onSelectedDigitChange={handleSelectedDigitChange}
         onEpochsChange={handleEpochsChange}
+        onNetworkSettingsChange={handleNetworkSettingsChange}
+        onCDSettingsChange={handleCDSettingsChange}
+        onPTSettingsChange={handlePTSettingsChange}
+        onAnnealingSettingsChange={handleAnnealingSettingsChange}
+        onOptimizerSettingsChange={handleOptimizerSettingsChange}
+        onRegularizationSettingsChange={handleRegularizationSettingsChange}
+        onVisibleUnitsSettingsChange={handleVisibleUnitsSettingsChange}
+        onClassificationSettingsChange={handleClassificationSettingsChange}
+        onDBNSettingsChange={handleDBNSettingsChange}
+        onConvSettingsChange={handleConvSettingsChange}
+        onSeedChange={handleSeedChange}
+        onDownloadManifest={lastManifest ? downloadManifest : undefined}
+        onReplayManifest={replayManifest}
+        onEvaluateModel={rbm && !dbn && rbm.getParams().visibleUnits !== 'gaussian' && !(rbm instanceof ClassificationRBM) ? evaluateModel : undefined}
+        onAISSettingsChange={handleAISSettingsChange}
+        onPreprocessingSettingsChange={handlePreprocessingSettingsChange}
+        onGeneratorSettingsChange={handleGeneratorSettingsChange}
+        previewDataset={dataset}
+        onLoadPreviewData={() => loadData().catch(error => console.error('❌ Ошибка загрузки данных:', error))}
         isTraining={isTraining}
+        isPaused={isPaused}
+        isEvaluating={isEvaluating}
+        modelEvaluation={modelEvaluation}
         trainingProgress={trainingProgress}
       />
 
-      {!rbm && !isTraining && <InfoPanel />}
+      {!model && !isTraining && <InfoPanel />}
 
-      {rbm && !isTraining && (
+      {model && !isTraining && (
         <>
           <div className="controls">
             <div className="control-group">
@@ -61,16 +139,33 @@ function App() {
                 currentMode={currentMode}
                 onModeChange={handleModeChange}
                 disabled={isTraining}
+                showClassification={rbm instanceof ClassificationRBM}
               />
+              {dbn && (
+                <LayerSelector
+                  layerSizes={dbn.getLayerSizes()}
+                  layer={layer}
+                  onLayerChange={setSelectedLayer}
+                  disabled={isTraining}
+                />
+              )}
             </div>
           </div>
 
-          {currentMode === 'sample' && mnistData && (
-            <SampleVisualization rbm={rbm} data={mnistData} />
+          {currentMode === 'sample' && modelDataset && (
+            <SampleVisualization rbm={model} dataset={modelDataset} dbn={dbn} layer={layer} />
+          )}
+
+          {currentMode === 'sample' && dbn && (
+            <DBNGeneration dbn={dbn} />
           )}
 
           {currentMode === 'filters' && (
-            <FiltersVisualization rbm={rbm} />
+            <FiltersVisualization rbm={model} dbn={dbn} layer={layer} />
+          )}
+
+          {currentMode === 'classification' && rbm instanceof ClassificationRBM && testData && modelDataset && (
+            <ClassificationView rbm={rbm} testData={testData} classNames={modelDataset.source.classNames} />
           )}
         </>
       )}
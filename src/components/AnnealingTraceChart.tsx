@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import type { AnnealingTrace } from '../types';
+import { drawLineChart } from '../utils/canvas';
+
+interface AnnealingTraceChartProps {
+  trace: AnnealingTrace;
+}
+
+export function AnnealingTraceChart({ trace }: AnnealingTraceChartProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    drawLineChart(
+      canvasRef.current,
+      [{ values: trace.energies, color: '#3b82f6' }],
+      { xValues: trace.temperatures, xLabel: 'температура T (лог. шкала)', yLabel: 'энергия', logX: true }
+    );
+  }, [trace]);
+
+  return (
+    <div className="annealing-trace">
+      <div className="annealing-trace-title">❄️ Имитация отжига: энергия в зависимости от температуры (последний батч)</div>
+      <canvas ref={canvasRef} width="480" height="180" />
+    </div>
+  );
+}
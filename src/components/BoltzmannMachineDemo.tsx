@@ -0,0 +1,221 @@
+import { useEffect, useRef, useState } from 'react';
+import { BoltzmannMachine } from '../ml/BoltzmannMachine';
+import type { GibbsUpdateOrder, LateralConnectivity } from '../types';
+import { drawImageColored, drawLineChart } from '../utils/canvas';
+import { barsAndStripes } from '../utils/toyData';
+
+// Игрушечная задача: полосы 3 × 3 и 4 скрытых нейрона — 2¹³ состояний для точного правдоподобия
+const BM_SIZE = 3;
+const BM_HIDDEN = 4;
+const BM_SEED = 7;
+const BM_LEARNING_RATE = 0.5;
+const BM_STEPS = 300;
+const BM_RECORD_INTERVAL = 10;
+
+const BM_DATA = barsAndStripes(BM_SIZE);
+
+const LATERAL_LABELS: Record<LateralConnectivity, string> = {
+  full: 'все пары',
+  grid: 'соседи по решётке',
+  none: 'нет'
+};
+
+const UPDATE_ORDER_LABELS: Record<GibbsUpdateOrder, string> = {
+  sequential: 'по одному нейрону',
+  checkerboard: 'шахматный (группами)'
+};
+
+interface TrainedWeights {
+  visibleLateral: Float32Array;
+  hiddenLateral: Float32Array;
+  visibleHidden: Float32Array;
+  nColours: number;
+}
+
+/**
+ * Масштабирует веса в [−1, 1] по наибольшему модулю для цветовой схемы bwr
+ */
+function scaleByMaxAbs(values: Float32Array): Float32Array {
+  const maxAbs = Math.max(1e-6, ...Array.from(values, Math.abs));
+  return values.map(value => value / maxAbs);
+}
+
+/**
+ * Полная машина Больцмана на игрушечной задаче: сеть с латеральными связями
+ * и RBM той же формы учатся по правилу 1985 года (фиксированная и свободная фазы
+ * с отжигом), а точный log p(v) показывает, что дают латеральные связи.
+ * После обучения рисуются латеральные веса видимого и скрытого слоёв
+ */
+export function BoltzmannMachineDemo() {
+  const chartRef = useRef<HTMLCanvasElement>(null);
+  const visibleLateralRef = useRef<HTMLCanvasElement>(null);
+  const hiddenLateralRef = useRef<HTMLCanvasElement>(null);
+  const filterRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+  const [visibleLateral, setVisibleLateral] = useState<LateralConnectivity>('full');
+  const [hiddenLateral, setHiddenLateral] = useState<LateralConnectivity>('full');
+  const [updateOrder, setUpdateOrder] = useState<GibbsUpdateOrder>('sequential');
+  const [curves, setCurves] = useState<{ general: number[]; restricted: number[] } | null>(null);
+  const [weights, setWeights] = useState<TrainedWeights | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const data = BM_DATA;
+  const optimum = Math.log(1 / data.length);
+
+  useEffect(() => {
+    if (!chartRef.current || !curves) return;
+    const length = curves.general.length;
+    drawLineChart(chartRef.current, [
+      { values: curves.general, color: '#3b82f6', label: 'с латеральными связями' },
+      { values: curves.restricted, color: '#f59e0b', label: 'RBM (без латеральных)' },
+      { values: Array(length).fill(optimum), color: '#94a3b8', label: `оптимум log(1/${data.length})` }
+    ], {
+      xValues: Array.from({ length }, (_, i) => (i + 1) * BM_RECORD_INTERVAL),
+      xLabel: 'шаг',
+      yLabel: 'log p(v)'
+    });
+  }, [curves, optimum, data.length]);
+
+  useEffect(() => {
+    if (!weights) return;
+    const nVisible = BM_SIZE * BM_SIZE;
+    if (visibleLateralRef.current) {
+      drawImageColored(visibleLateralRef.current, scaleByMaxAbs(weights.visibleLateral), nVisible, nVisible, 'bwr');
+    }
+    if (hiddenLateralRef.current) {
+      drawImageColored(hiddenLateralRef.current, scaleByMaxAbs(weights.hiddenLateral), BM_HIDDEN, BM_HIDDEN, 'bwr');
+    }
+    const filters = scaleByMaxAbs(weights.visibleHidden);
+    filterRefs.current.forEach((canvas, j) => {
+      if (canvas) {
+        drawImageColored(canvas, filters.subarray(j * nVisible, (j + 1) * nVisible), BM_SIZE, BM_SIZE, 'bwr');
+      }
+    });
+  }, [weights]);
+
+  const run = async () => {
+    setIsRunning(true);
+    setWeights(null);
+    console.log(`🕸️ Полная машина Больцмана: полосы ${BM_SIZE}×${BM_SIZE}, ${BM_HIDDEN} скрытых, латеральные связи видимых: ${visibleLateral}, скрытых: ${hiddenLateral}, обновления: ${updateOrder}`);
+
+    const common = { nVisible: BM_SIZE * BM_SIZE, nHidden: BM_HIDDEN, learningRate: BM_LEARNING_RATE, updateOrder, seed: BM_SEED };
+    const general = new BoltzmannMachine({ ...common, visibleLateral, hiddenLateral });
+    const restricted = new BoltzmannMachine({ ...common, visibleLateral: 'none', hiddenLateral: 'none' });
+    const recorded = { general: [] as number[], restricted: [] as number[] };
+
+    for (let step = 1; step <= BM_STEPS; step++) {
+      general.learnStep(data);
+      restricted.learnStep(data);
+
+      if (step % BM_RECORD_INTERVAL === 0) {
+        recorded.general.push(general.exactLogLikelihood(data));
+        recorded.restricted.push(restricted.exactLogLikelihood(data));
+        setCurves({ general: recorded.general.slice(), restricted: recorded.restricted.slice() });
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    console.log(`📐 Точный log p(v): с латеральными связями ${recorded.general[recorded.general.length - 1].toFixed(3)}, RBM ${recorded.restricted[recorded.restricted.length - 1].toFixed(3)}`);
+    setWeights({
+      visibleLateral: general.getVisibleLateralWeights(),
+      hiddenLateral: general.getHiddenLateralWeights(),
+      visibleHidden: general.getVisibleHiddenWeights(),
+      nColours: general.getNColours()
+    });
+    setIsRunning(false);
+  };
+
+  return (
+    <div className="exact-demo">
+      <div className="digit-selector">
+        <label className="digit-label">
+          Связи видимый–видимый:
+          <select
+            value={visibleLateral}
+            onChange={e => setVisibleLateral(e.target.value as LateralConnectivity)}
+            disabled={isRunning}
+            className="digit-select"
+          >
+            {(Object.keys(LATERAL_LABELS) as LateralConnectivity[]).map(value => (
+              <option key={value} value={value}>{LATERAL_LABELS[value]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="digit-selector">
+        <label className="digit-label">
+          Связи скрытый–скрытый:
+          <select
+            value={hiddenLateral}
+            onChange={e => setHiddenLateral(e.target.value as LateralConnectivity)}
+            disabled={isRunning}
+            className="digit-select"
+          >
+            {(Object.keys(LATERAL_LABELS) as LateralConnectivity[]).map(value => (
+              <option key={value} value={value}>{LATERAL_LABELS[value]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="digit-selector">
+        <label className="digit-label">
+          Обновления Гиббса:
+          <select
+            value={updateOrder}
+            onChange={e => setUpdateOrder(e.target.value as GibbsUpdateOrder)}
+            disabled={isRunning}
+            className="digit-select"
+          >
+            {(Object.keys(UPDATE_ORDER_LABELS) as GibbsUpdateOrder[]).map(value => (
+              <option key={value} value={value}>{UPDATE_ORDER_LABELS[value]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <button className="train-btn load-btn" onClick={run} disabled={isRunning}>
+        {isRunning ? 'Обучение...' : '🕸️ Обучить полную машину Больцмана'}
+      </button>
+
+      {curves && (
+        <div className="annealing-trace">
+          <div className="annealing-trace-title">
+            Точный log p(v) на образец: правило 1985 года, {data.length} изображений-полос {BM_SIZE}×{BM_SIZE}
+          </div>
+          <canvas ref={chartRef} width="480" height="200" />
+        </div>
+      )}
+
+      {weights && (
+        <div className="annealing-trace">
+          <div className="annealing-trace-title">
+            Веса обученной сети (синий — отрицательные, красный — положительные);
+            групп в шахматном порядке: {weights.nColours}
+          </div>
+          <div className="lateral-weights">
+            <div>
+              <div className="lateral-weights-label">видимый–видимый ({BM_SIZE * BM_SIZE}×{BM_SIZE * BM_SIZE})</div>
+              <canvas ref={visibleLateralRef} width="144" height="144" />
+            </div>
+            <div>
+              <div className="lateral-weights-label">скрытый–скрытый ({BM_HIDDEN}×{BM_HIDDEN})</div>
+              <canvas ref={hiddenLateralRef} width="144" height="144" />
+            </div>
+            <div>
+              <div className="lateral-weights-label">фильтры скрытых нейронов</div>
+              <div className="lateral-weights-filters">
+                {Array.from({ length: BM_HIDDEN }, (_, j) => (
+                  <canvas
+                    key={j}
+                    ref={canvas => { filterRefs.current[j] = canvas; }}
+                    width="66"
+                    height="66"
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
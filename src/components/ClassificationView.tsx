@@ -0,0 +1,125 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ClassificationRBM } from '../ml/ClassificationRBM';
+import type { LabeledData } from '../types';
+import { drawImage } from '../utils/canvas';
+
+interface ClassificationViewProps {
+  rbm: ClassificationRBM;
+  testData: LabeledData;
+  classNames: string[];
+}
+
+/**
+ * Классификационная RBM в действии: точность и матрица ошибок на отложенных
+ * образцах (класс — минимум свободной энергии F(x, y)) и генерация цифры
+ * заданного класса с закреплённой меткой
+ */
+export function ClassificationView({ rbm, testData, classNames }: ClassificationViewProps) {
+  const [digit, setDigit] = useState(Math.min(7, rbm.getNClasses() - 1));
+  const [generated, setGenerated] = useState<Float32Array | null>(null);
+  const generatedCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  const evaluation = useMemo(
+    () => rbm.evaluateClassification(testData.images, testData.labels),
+    [rbm, testData]
+  );
+  const classes = Array.from({ length: rbm.getNClasses() }, (_, k) => k);
+  // Модель, загруженная из Local Storage, может не совпадать с набором по числу классов
+  const classLabel = (k: number) => classNames[k] ?? String(k);
+  const maxCount = Math.max(1, ...evaluation.confusionMatrix.flat());
+
+  // Что модель сама «видит» в сгенерированном изображении
+  const generatedProbabilities = useMemo(
+    () => generated && rbm.classProbabilities(generated),
+    [rbm, generated]
+  );
+
+  useEffect(() => {
+    setGenerated(null);
+  }, [rbm]);
+
+  useEffect(() => {
+    if (generated && generatedCanvasRef.current) {
+      drawImage(generatedCanvasRef.current, generated, 28, 28);
+    }
+  }, [generated]);
+
+  const generate = () => {
+    console.log(`✨ Генерация класса ${classLabel(digit)} с закреплённой меткой`);
+    setGenerated(rbm.generate(digit));
+  };
+
+  return (
+    <div className="visualization active">
+      <div className="viz-row">
+        <div className="viz-panel">
+          <div className="viz-title">Матрица ошибок</div>
+          <div className="training-metrics-row">
+            <span className="training-metrics-label">Точность на отложенных</span>
+            <span className="training-metrics-value">{(evaluation.accuracy * 100).toFixed(1)}%</span>
+            <span className="training-metrics-delta">{evaluation.nSamples} образцов</span>
+          </div>
+          <table className="confusion-matrix">
+            <thead>
+              <tr>
+                <th title="Истинный класс ↓, предсказанный →">↓ / →</th>
+                {classes.map(k => <th key={k}>{classLabel(k)}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {evaluation.confusionMatrix.map((row, actual) => (
+                <tr key={actual}>
+                  <th>{classLabel(actual)}</th>
+                  {row.map((count, predicted) => (
+                    <td
+                      key={predicted}
+                      className={count > 0 && predicted !== actual ? 'confusion-error' : ''}
+                      style={{ opacity: count === 0 ? 0.35 : 0.45 + 0.55 * count / maxCount }}
+                    >
+                      {count}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="viz-panel">
+          <div className="viz-title">Генерация по метке</div>
+          <div className="digit-selector">
+            <label className="digit-label">
+              Класс:
+              <select
+                value={digit}
+                onChange={e => setDigit(Number(e.target.value))}
+                className="digit-select"
+              >
+                {classes.map(k => <option key={k} value={k}>{classLabel(k)}</option>)}
+              </select>
+            </label>
+          </div>
+          <button className="train-btn load-btn" onClick={generate}>
+            ✨ Сгенерировать {classLabel(digit)}
+          </button>
+          {generated && (
+            <>
+              <canvas ref={generatedCanvasRef} width="256" height="256" />
+              {generatedProbabilities && (
+                <div className="training-metrics-row">
+                  <span className="training-metrics-label">Модель узнаёт в результате</span>
+                  <span className="training-metrics-value">
+                    {classLabel(generatedProbabilities.indexOf(Math.max(...generatedProbabilities)))}
+                  </span>
+                  <span className="training-metrics-delta">
+                    p = {Math.max(...generatedProbabilities).toFixed(2)}
+                  </span>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react';
+import type { DeepBeliefNetwork } from '../ml/DeepBeliefNetwork';
+import { drawImage } from '../utils/canvas';
+import { DBN_GENERATION_STEPS } from '../constants';
+
+interface DBNGenerationProps {
+  dbn: DeepBeliefNetwork;
+}
+
+// Сколько образцов генерируется за один раз
+const GENERATED_SAMPLES = 8;
+
+/**
+ * Генерация образцов глубокой сетью доверия: цепь Гиббса в верхней RBM,
+ * затем спуск к пикселям через нижние слои
+ */
+export function DBNGeneration({ dbn }: DBNGenerationProps) {
+  const [samples, setSamples] = useState<Float32Array[]>([]);
+  const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+
+  useEffect(() => {
+    setSamples([]);
+  }, [dbn]);
+
+  useEffect(() => {
+    samples.forEach((sample, s) => {
+      const canvas = canvasRefs.current[s];
+      if (canvas) drawImage(canvas, sample, 28, 28);
+    });
+  }, [samples]);
+
+  const generate = () => {
+    console.log(`🌀 Генерация ${GENERATED_SAMPLES} образцов DBN: ${DBN_GENERATION_STEPS} шагов Гиббса в верхнем слое`);
+    setSamples(Array.from({ length: GENERATED_SAMPLES }, () => dbn.generate(DBN_GENERATION_STEPS)));
+  };
+
+  return (
+    <div className="visualization active">
+      <div className="viz-panel">
+        <div className="viz-title">Генерация из верхнего слоя</div>
+        <button className="train-btn load-btn" onClick={generate}>
+          🌀 Сгенерировать {GENERATED_SAMPLES} образцов
+        </button>
+        {samples.length > 0 && (
+          <div className="filters-grid">
+            {samples.map((_, s) => (
+              <div key={s} className="filter-item">
+                <canvas
+                  ref={canvas => { canvasRefs.current[s] = canvas; }}
+                  className="filter-canvas"
+                  width="84"
+                  height="84"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from 'react';
+import { BernoulliRBM } from '../ml/BernoulliRBM';
+import { ExactInference } from '../ml/ExactInference';
+import type { GradientBias, GradientEstimator } from '../types';
+import { drawLineChart } from '../utils/canvas';
+import { barsAndStripes } from '../utils/toyData';
+
+type DemoMethod = 'exact' | GradientEstimator;
+
+// Игрушечная задача: полосы 3 × 3 (14 образцов), 8 скрытых нейронов — 256 состояний для перебора
+const TOY_SIZE = 3;
+const TOY_HIDDEN = 8;
+const TOY_SEED = 7;
+const TOY_LEARNING_RATE = 0.5;
+const TOY_STEPS = 1000;
+const TOY_RECORD_INTERVAL = 10;
+
+// Сэмплирование из равновесия на игрушечной задаче: короче, чем при обучении на цифрах
+const TOY_GIBBS_STEPS = 1000;
+const TOY_NEG_SAMPLES = 500;
+const BIAS_TRIALS: Record<GradientEstimator, number> = {
+  'contrastive-divergence': 20,
+  equilibrium: 10
+};
+
+const DEMO_METHODS: { method: DemoMethod; label: string; color: string }[] = [
+  { method: 'exact', label: 'точный градиент', color: '#3b82f6' },
+  { method: 'contrastive-divergence', label: 'CD-1', color: '#f59e0b' },
+  { method: 'equilibrium', label: 'равновесие', color: '#10b981' }
+];
+
+const ESTIMATOR_LABELS: Record<GradientEstimator, string> = {
+  'contrastive-divergence': 'CD-1',
+  equilibrium: 'Сэмплирование из равновесия'
+};
+
+const TOY_DATA = barsAndStripes(TOY_SIZE);
+
+function createToyRBM(nPatterns: number): BernoulliRBM {
+  return new BernoulliRBM({
+    nVisible: TOY_SIZE * TOY_SIZE,
+    nHidden: TOY_HIDDEN,
+    learningRate: TOY_LEARNING_RATE,
+    batchSize: nPatterns,
+    cdSteps: 1,
+    hiddenSampling: 'sampled',
+    visibleSampling: 'mean-field',
+    seed: TOY_SEED
+  });
+}
+
+/**
+ * Точное и приближённое обучение на игрушечной задаче: три одинаково
+ * инициализированные RBM учатся по точному градиенту, по CD-1 и по сэмплированию
+ * из равновесия, а точный логарифм правдоподобия показывает, куда ведёт каждая оценка.
+ * В конце смещение приближённых градиентов измеряется относительно точного
+ */
+export function ExactLearningDemo() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [curves, setCurves] = useState<Record<DemoMethod, number[]> | null>(null);
+  const [biases, setBiases] = useState<GradientBias[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const data = TOY_DATA;
+  const optimum = Math.log(1 / data.length);
+
+  useEffect(() => {
+    if (!canvasRef.current || !curves) return;
+    const length = curves.exact.length;
+    drawLineChart(canvasRef.current, [
+      ...DEMO_METHODS.map(({ method, label, color }) => ({ values: curves[method], color, label })),
+      { values: Array(length).fill(optimum), color: '#94a3b8', label: `оптимум log(1/${data.length})` }
+    ], {
+      xValues: Array.from({ length }, (_, i) => (i + 1) * TOY_RECORD_INTERVAL),
+      xLabel: 'шаг',
+      yLabel: 'log p(v)'
+    });
+  }, [curves, optimum, data.length]);
+
+  const run = async () => {
+    setIsRunning(true);
+    setBiases(null);
+    console.log(`🧪 Точное и приближённое обучение: полосы ${TOY_SIZE}×${TOY_SIZE}, ${TOY_HIDDEN} скрытых нейронов`);
+
+    const models = DEMO_METHODS.map(({ method }) => {
+      const rbm = createToyRBM(data.length);
+      return { method, rbm, exact: new ExactInference(rbm) };
+    });
+    const recorded: Record<DemoMethod, number[]> = { exact: [], 'contrastive-divergence': [], equilibrium: [] };
+
+    for (let step = 1; step <= TOY_STEPS; step++) {
+      for (const { method, rbm, exact } of models) {
+        rbm.applyGradient(method === 'exact'
+          ? exact.gradient(data)
+          : rbm.estimateGradient(data, method, TOY_GIBBS_STEPS, TOY_NEG_SAMPLES));
+        if (step % TOY_RECORD_INTERVAL === 0) {
+          recorded[method].push(exact.logLikelihood(data));
+        }
+      }
+
+      if (step % TOY_RECORD_INTERVAL === 0) {
+        setCurves({ ...recorded });
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    // Смещение оценок измеряется на модели, обученной по точному градиенту
+    const { exact } = models[0];
+    const measured = (['contrastive-divergence', 'equilibrium'] as const).map(method =>
+      exact.gradientBias(data, method, BIAS_TRIALS[method], TOY_GIBBS_STEPS, TOY_NEG_SAMPLES)
+    );
+    console.log(`📐 Смещение градиента: ${measured.map(b => `${b.method} ${(b.bias * 100).toFixed(1)}%`).join(', ')}`);
+    setBiases(measured);
+    setIsRunning(false);
+  };
+
+  return (
+    <div className="exact-demo">
+      <button className="train-btn load-btn" onClick={run} disabled={isRunning}>
+        {isRunning ? 'Обучение...' : '🧪 Сравнить точное и приближённое обучение'}
+      </button>
+
+      {curves && (
+        <div className="annealing-trace">
+          <div className="annealing-trace-title">
+            Точный log p(v) на образец: {data.length} изображений-полос {TOY_SIZE}×{TOY_SIZE}
+          </div>
+          <canvas ref={canvasRef} width="480" height="200" />
+        </div>
+      )}
+
+      {biases && (
+        <div className="training-metrics">
+          <div className="training-metrics-title">📐 Отклонение от точного градиента</div>
+          {biases.map(({ method, bias, noise, cosine, trials }) => (
+            <div key={method} className="training-metrics-row">
+              <span className="training-metrics-label">{ESTIMATOR_LABELS[method]}</span>
+              <span className="training-metrics-value">смещение {(bias * 100).toFixed(1)}%</span>
+              <span className="training-metrics-value">шум {(noise * 100).toFixed(1)}%</span>
+              <span className="training-metrics-value">cos {cosine.toFixed(3)}</span>
+              <span className="training-metrics-delta">{trials} оценок</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
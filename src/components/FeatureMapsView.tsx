@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react';
+import type { ConvolutionalRBM } from '../ml/ConvolutionalRBM';
+import { drawImage, normalizeToUnitRange } from '../utils/canvas';
+
+interface FeatureMapsViewProps {
+  rbm: ConvolutionalRBM;
+  sample: Float32Array;
+}
+
+/**
+ * Карты признаков свёрточной RBM для выбранного образца: для каждого фильтра —
+ * сам фильтр, p(h = 1 | v) во всех позициях и (при пулинге) вероятности pooling-нейронов
+ */
+export function FeatureMapsView({ rbm, sample }: FeatureMapsViewProps) {
+  const filterRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+  const mapRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+  const pooledRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+
+  const nFilters = rbm.getNFilters();
+  const filterSize = rbm.getFilterSize();
+  const poolSize = rbm.getPoolSize();
+
+  useEffect(() => {
+    const { size, maps, pooledSize, pooled } = rbm.featureMaps(sample);
+    for (let k = 0; k < maps.length; k++) {
+      const filterCanvas = filterRefs.current[k];
+      if (filterCanvas) {
+        drawImage(filterCanvas, normalizeToUnitRange(rbm.getFilter(k)), filterSize, filterSize);
+      }
+      const mapCanvas = mapRefs.current[k];
+      if (mapCanvas) {
+        drawImage(mapCanvas, maps[k], size, size);
+      }
+      const pooledCanvas = pooledRefs.current[k];
+      if (pooledCanvas && pooled) {
+        drawImage(pooledCanvas, pooled[k], pooledSize, pooledSize);
+      }
+    }
+  }, [rbm, sample, filterSize]);
+
+  return (
+    <div className="feature-maps">
+      <div className="viz-title">Карты признаков по фильтрам</div>
+      <div className="feature-maps-grid">
+        {Array.from({ length: nFilters }, (_, k) => (
+          <div key={k} className="feature-maps-item">
+            <div className="lateral-weights-label">#{k + 1}</div>
+            <canvas ref={canvas => { filterRefs.current[k] = canvas; }} width="48" height="48" />
+            <canvas ref={canvas => { mapRefs.current[k] = canvas; }} width="48" height="48" />
+            {poolSize > 1 && (
+              <canvas ref={canvas => { pooledRefs.current[k] = canvas; }} width="48" height="48" />
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="hidden-neurons-explanation">
+        <p>💡 <strong>Как интерпретировать:</strong></p>
+        <ul>
+          <li>Верхний квадрат — фильтр {filterSize}×{filterSize}, общий для всех позиций изображения</li>
+          <li>Средний — карта признака: светлые точки отмечают места, где фильтр совпал с изображением</li>
+          {poolSize > 1 && (
+            <li>Нижний — pooling-нейроны: в каждом блоке {poolSize}×{poolSize} включён не более чем один нейрон карты</li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+}
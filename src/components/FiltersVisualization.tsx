@@ -1,37 +1,57 @@
 import { useEffect, useRef, useState } from 'react';
 import { BernoulliRBM } from '../ml/BernoulliRBM';
-import { drawImage } from '../utils/canvas';
+import type { DeepBeliefNetwork } from '../ml/DeepBeliefNetwork';
+import { ConvolutionalRBM } from '../ml/ConvolutionalRBM';
+import { drawImage, gridShape, normalizeToUnitRange } from '../utils/canvas';
+import { FILTERS_PAGE_SIZE } from '../constants';
 
 interface FiltersVisualizationProps {
-  rbm: BernoulliRBM;
+  rbm: BernoulliRBM | ConvolutionalRBM;
+  dbn?: DeepBeliefNetwork | null;
+  layer?: number;
 }
 
-export function FiltersVisualization({ rbm }: FiltersVisualizationProps) {
+export function FiltersVisualization({ rbm, dbn, layer = 0 }: FiltersVisualizationProps) {
   const [previewFilter, setPreviewFilter] = useState<number | null>(null);
   const [previewPosition, setPreviewPosition] = useState<{ x: number; y: number } | null>(null);
   const [previewFilterData, setPreviewFilterData] = useState<Float32Array | null>(null);
+  const [page, setPage] = useState(0);
   
   const gridRef = useRef<HTMLDivElement>(null);
   const previewCanvasRef = useRef<HTMLCanvasElement>(null);
 
+  // У DBN фильтры слоя — проекции весов в пространство пикселей;
+  // у свёрточной RBM фильтры меньше изображения и общие для всех позиций
+  const isConvolutional = rbm instanceof ConvolutionalRBM;
+  const nFilters = dbn
+    ? dbn.getLayerSizes()[layer + 1]
+    : isConvolutional ? rbm.getNFilters() : rbm.getParams().nHidden;
+  const filterSide = isConvolutional ? rbm.getFilterSize() : 28;
+
+  // Сотни фильтров показываются постранично; номер страницы может не существовать у новой модели
+  const nPages = Math.ceil(nFilters / FILTERS_PAGE_SIZE);
+  const currentPage = Math.min(page, nPages - 1);
+  const first = currentPage * FILTERS_PAGE_SIZE;
+  const last = Math.min(nFilters, first + FILTERS_PAGE_SIZE);
+  const { cols } = gridShape(Math.min(nFilters, FILTERS_PAGE_SIZE));
+
   useEffect(() => {
     drawFilters();
-  }, [rbm]);
+  }, [rbm, dbn, layer, currentPage]);
 
   // Отрисовка превью когда canvas готов
   useEffect(() => {
     if (previewFilterData && previewCanvasRef.current) {
-      drawImage(previewCanvasRef.current, previewFilterData, 28, 28);
+      drawImage(previewCanvasRef.current, previewFilterData, filterSide, filterSide);
     }
-  }, [previewFilterData, previewFilter]);
+  }, [previewFilterData, previewFilter, filterSide]);
 
   const drawFilters = () => {
     if (!gridRef.current || !rbm) return;
 
     gridRef.current.innerHTML = '';
-    const weights = rbm.getWeights();
-
-    for (let i = 0; i < 64; i++) {
+    for (let i = first; i < last; i++) {
+      const weights = dbn ? dbn.getProjectedFilter(layer, i) : rbm.getFilter(i);
       const filterItem = document.createElement('div');
       filterItem.className = 'filter-item';
       
@@ -40,32 +60,10 @@ export function FiltersVisualization({ rbm }: FiltersVisualizationProps) {
       canvas.width = 56;
       canvas.height = 56;
 
-      // Нормализация весов для визуализации
-      const filter = new Float32Array(784);
-      let min = Infinity;
-      let max = -Infinity;
-      
-      for (let j = 0; j < 784; j++) {
-        filter[j] = weights[i][j];
-        min = Math.min(min, filter[j]);
-        max = Math.max(max, filter[j]);
-      }
-      
-      // Нормализация в диапазон [0, 1]
-      const range = max - min;
-      if (range > 1e-8) { // Избегаем деления на ноль
-        for (let j = 0; j < 784; j++) {
-          filter[j] = (filter[j] - min) / range;
-        }
-      } else {
-        // Если все веса одинаковые, устанавливаем среднее значение
-        console.log(`Filter ${i}: All weights are similar (range: ${range}), min: ${min}, max: ${max}`);
-        for (let j = 0; j < 784; j++) {
-          filter[j] = 0.5;
-        }
-      }
+      // Нормализация весов в диапазон [0, 1] для визуализации
+      const filter = normalizeToUnitRange(weights);
       
-      drawImage(canvas, filter, 28, 28);
+      drawImage(canvas, filter, filterSide, filterSide);
       filterItem.appendChild(canvas);
 
       // Добавляем обработчики событий
@@ -129,10 +127,47 @@ export function FiltersVisualization({ rbm }: FiltersVisualizationProps) {
             <li>Темные области — признаки, которые нейрон "игнорирует"</li>
             <li>Паттерны могут напоминать части цифр: штрихи, закругления, углы</li>
           </ul>
+          {isConvolutional && (
+            <p>
+              🧩 <strong>Свёрточная RBM:</strong> каждый фильтр {filterSide}×{filterSide} скользит по всему
+              изображению 28×28, поэтому один и тот же штрих распознаётся в любом месте.
+              Где именно фильтр сработал, показывают карты признаков в режиме образцов.
+            </p>
+          )}
+          {dbn && layer > 0 && (
+            <p>
+              🧱 <strong>Слой {layer + 1} DBN</strong> связан не с пикселями, а с нейронами слоя ниже.
+              Его фильтр — взвешенная сумма фильтров нижних слоёв (проекция Wₗ·…·W₁ в пиксели),
+              поэтому на глубине видны более крупные части цифр.
+            </p>
+          )}
+          {nPages > 1 && (
+            <div className="filters-pager">
+              <button
+                className="filters-pager-btn"
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+              >
+                ← Назад
+              </button>
+              <span>Фильтры {first + 1}–{last} из {nFilters}</span>
+              <button
+                className="filters-pager-btn"
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage === nPages - 1}
+              >
+                Вперёд →
+              </button>
+            </div>
+          )}
           <p>💡 <em>Наведите курсор на фильтр для увеличенного просмотра</em></p>
         </div>
         
-        <div className="filters-grid" ref={gridRef} />
+        <div
+          className="filters-grid"
+          ref={gridRef}
+          style={{ gridTemplateColumns: `repeat(${cols}, 1fr)` }}
+        />
       </div>
       
       {previewFilter !== null && previewPosition && (
@@ -150,7 +185,7 @@ export function FiltersVisualization({ rbm }: FiltersVisualizationProps) {
             height="256"
           />
           <div className="filter-preview-title">
-            Фильтр #{previewFilter + 1}
+            Фильтр #{previewFilter + 1}{dbn && ` (слой ${layer + 1})`}
           </div>
         </div>
       )}
@@ -0,0 +1,69 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { GeneratorSettings } from '../types';
+import { generateDigit } from '../utils/mnistGenerator';
+import { Random } from '../utils/random';
+import { drawImage } from '../utils/canvas';
+import { GENERATOR_GALLERY_SAMPLES } from '../constants';
+
+interface GeneratorGalleryProps {
+  settings: GeneratorSettings;
+}
+
+/**
+ * Галерея генератора: несколько образцов каждой цифры с текущими искажениями —
+ * чтобы увидеть набор до обучения. Образцы не меняются, пока не нажата кнопка
+ */
+export function GeneratorGallery({ settings }: GeneratorGalleryProps) {
+  const [gallerySeed, setGallerySeed] = useState(1);
+  const canvasRefs = useRef<(HTMLCanvasElement | null)[][]>([]);
+
+  const rows = useMemo(() => {
+    const random = new Random(gallerySeed);
+    return settings.classCounts
+      .map((count, digit) => ({ digit, count }))
+      .filter(({ count }) => count > 0)
+      .map(({ digit, count }) => ({
+        digit,
+        count,
+        images: Array.from({ length: GENERATOR_GALLERY_SAMPLES }, () => generateDigit(digit, settings, random))
+      }));
+  }, [settings, gallerySeed]);
+
+  useEffect(() => {
+    rows.forEach(({ images }, i) => {
+      images.forEach((image, j) => {
+        const canvas = canvasRefs.current[i]?.[j];
+        if (canvas) {
+          drawImage(canvas, image, 28, 28);
+        }
+      });
+    });
+  }, [rows]);
+
+  const total = settings.classCounts.reduce((sum, count) => sum + count, 0);
+
+  return (
+    <div className="generator-gallery">
+      <div className="digit-label">Всего образцов: {total}</div>
+      {rows.map(({ digit, count, images }, i) => (
+        <div key={digit} className="generator-gallery-row">
+          <span className="lateral-weights-label">{digit} × {count}</span>
+          {images.map((_, j) => (
+            <canvas
+              key={j}
+              ref={canvas => {
+                canvasRefs.current[i] = canvasRefs.current[i] ?? [];
+                canvasRefs.current[i][j] = canvas;
+              }}
+              width="42"
+              height="42"
+            />
+          ))}
+        </div>
+      ))}
+      <button className="train-btn load-btn" onClick={() => setGallerySeed(seed => seed + 1)}>
+        🔄 Другие образцы
+      </button>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ export function InfoPanel() {
     <div className="info-panel">
       <h3>ℹ️ Начните с обучения</h3>
       <p>
-        Выберите метод обучения: <strong>Сэмплирование из равновесия</strong> (1985) или <strong>Контрастивная дивергенция</strong> (2002). 
+        Выберите метод обучения: <strong>Сэмплирование из равновесия</strong> (1985), <strong>Контрастивная дивергенция</strong> (2002), <strong>Персистентная CD</strong> (2008) или <strong>Параллельное темперирование</strong> (2010). 
         <br/>Можно использовать как сгенерированные, так и реальные данные MNIST. 
         <br/>Нажмите кнопку "Обучить сеть" для запуска обучения. 
         <br/>
@@ -0,0 +1,32 @@
+interface LayerSelectorProps {
+  layerSizes: number[];
+  layer: number;
+  onLayerChange: (layer: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Выбор слоя глубокой сети доверия для визуализаций:
+ * фильтры, реконструкции и активности показываются для выбранной глубины
+ */
+export function LayerSelector({ layerSizes, layer, onLayerChange, disabled }: LayerSelectorProps) {
+  return (
+    <div className="digit-selector">
+      <label className="digit-label">
+        Слой DBN:
+        <select
+          value={layer}
+          onChange={e => onLayerChange(Number(e.target.value))}
+          disabled={disabled}
+          className="digit-select"
+        >
+          {layerSizes.slice(1).map((size, l) => (
+            <option key={l} value={l}>
+              {l + 1}: {layerSizes[l]} → {size}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -4,9 +4,10 @@ interface ModeButtonsProps {
   currentMode: ViewMode;
   onModeChange: (mode: ViewMode) => void;
   disabled?: boolean;
+  showClassification?: boolean;
 }
 
-export function ModeButtons({ currentMode, onModeChange, disabled }: ModeButtonsProps) {
+export function ModeButtons({ currentMode, onModeChange, disabled, showClassification }: ModeButtonsProps) {
   return (
     <div className="mode-buttons">
       <button
@@ -23,6 +24,15 @@ export function ModeButtons({ currentMode, onModeChange, disabled }: ModeButtons
       >
         Фильтры
       </button>
+      {showClassification && (
+        <button
+          className={`mode-btn ${currentMode === 'classification' ? 'active' : ''}`}
+          onClick={() => onModeChange('classification')}
+          disabled={disabled}
+        >
+          Классификация
+        </button>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,60 @@
+import type { LogLikelihoodEstimate } from '../types';
+
+interface ModelEvaluationProps {
+  evaluation: LogLikelihoodEstimate;
+}
+
+// Граница может быть бесконечной, если разброс весов AIS слишком велик
+function formatBound(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(2) : (value > 0 ? '+∞' : '−∞');
+}
+
+/**
+ * Результат оценки модели: log Z по AIS и средний логарифм правдоподобия
+ * отложенных образцов с интервалом ±3 стандартные ошибки
+ */
+export function ModelEvaluation({ evaluation }: ModelEvaluationProps) {
+  const { partition } = evaluation;
+
+  return (
+    <div className="training-metrics">
+      <div className="training-metrics-title">📊 Оценка модели (AIS)</div>
+      <div className="training-metrics-row">
+        <span
+          className="training-metrics-label term-highlight"
+          data-tooltip="Средний log p(v) = −F(v) − log Z на отложенных образцах (нат на образец, бинаризация по порогу 0.5). Больше — лучше"
+        >
+          log p(v) на тестовых
+        </span>
+        <span className="training-metrics-value">{evaluation.logLikelihood.toFixed(2)}</span>
+        <span className="training-metrics-delta">
+          [{formatBound(evaluation.logLikelihoodLow)}; {formatBound(evaluation.logLikelihoodHigh)}]
+        </span>
+      </div>
+      <div className="training-metrics-row">
+        <span
+          className="training-metrics-label term-highlight"
+          data-tooltip="Логарифм статистической суммы, оценённый отжигаемой выборкой по значимости от базовой модели с независимыми пикселями"
+        >
+          log Z
+        </span>
+        <span className="training-metrics-value">{partition.logZ.toFixed(2)}</span>
+        <span className="training-metrics-delta">
+          [{formatBound(partition.logZLow)}; {formatBound(partition.logZHigh)}]
+        </span>
+      </div>
+      <div className="training-metrics-row">
+        <span
+          className="training-metrics-label term-highlight"
+          data-tooltip="log Z базовой модели (W = 0, смещения видимых — логиты частот пикселей в обучающих данных): известна точно"
+        >
+          log Z базовой модели
+        </span>
+        <span className="training-metrics-value">{partition.logZBase.toFixed(2)}</span>
+      </div>
+      <div className="training-metrics-row">
+        {partition.nRuns} прогонов × {partition.nBetas} температур, {evaluation.nSamples} тестовых образцов
+      </div>
+    </div>
+  );
+}
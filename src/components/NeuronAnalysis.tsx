@@ -10,6 +10,12 @@ interface NeuronAnalysisProps {
 
 export function NeuronAnalysis({ rbm, sample, hiddenActivations }: NeuronAnalysisProps) {
   const [selectedNeuron, setSelectedNeuron] = useState(0);
+
+  // Номер нейрона может не существовать в модели меньшего размера
+  const nHidden = hiddenActivations.length;
+  const neuron = Math.min(selectedNeuron, nHidden - 1);
+  const nPixels = sample.length;
+  const side = Math.round(Math.sqrt(nPixels));
   
   const filterCanvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -17,45 +23,45 @@ export function NeuronAnalysis({ rbm, sample, hiddenActivations }: NeuronAnalysi
 
   useEffect(() => {
     analyzeNeuron();
-  }, [selectedNeuron, rbm, sample, hiddenActivations]);
+  }, [neuron, rbm, sample, hiddenActivations]);
 
   const analyzeNeuron = () => {
-    const weights = rbm.getWeights();
-    const activation = hiddenActivations[selectedNeuron];
+    const weights = rbm.getFilter(neuron);
+    const activation = hiddenActivations[neuron];
 
     // 1. Фильтр нейрона (нормализованные веса)
-    const filter = new Float32Array(784);
+    const filter = new Float32Array(nPixels);
     let maxAbs = 0;
-    for (let i = 0; i < 784; i++) {
-      filter[i] = weights[selectedNeuron][i];
+    for (let i = 0; i < nPixels; i++) {
+      filter[i] = weights[i];
       maxAbs = Math.max(maxAbs, Math.abs(filter[i]));
     }
     if (maxAbs > 0) {
-      for (let i = 0; i < 784; i++) {
+      for (let i = 0; i < nPixels; i++) {
         filter[i] = filter[i] / maxAbs;
       }
     }
 
     // 2. Наложение фильтра на образец
-    const overlay = new Float32Array(784);
-    for (let i = 0; i < 784; i++) {
+    const overlay = new Float32Array(nPixels);
+    for (let i = 0; i < nPixels; i++) {
       overlay[i] = sample[i] + filter[i] * activation * 0.3;
       overlay[i] = Math.max(-1, Math.min(1, overlay[i]));
     }
 
     // 3. Вклад нейрона в реконструкцию
-    const contribution = new Float32Array(784);
+    const contribution = new Float32Array(nPixels);
     if (activation > 0.01) {
-      for (let i = 0; i < 784; i++) {
-        contribution[i] = Math.abs(weights[selectedNeuron][i] * activation);
+      for (let i = 0; i < nPixels; i++) {
+        contribution[i] = Math.abs(weights[i] * activation);
       }
       
       let maxContrib = 0;
-      for (let i = 0; i < 784; i++) {
+      for (let i = 0; i < nPixels; i++) {
         maxContrib = Math.max(maxContrib, contribution[i]);
       }
       if (maxContrib > 0) {
-        for (let i = 0; i < 784; i++) {
+        for (let i = 0; i < nPixels; i++) {
           contribution[i] = contribution[i] / maxContrib;
         }
       }
@@ -63,13 +69,13 @@ export function NeuronAnalysis({ rbm, sample, hiddenActivations }: NeuronAnalysi
 
     // Отрисовка
     if (filterCanvasRef.current) {
-      drawImageColored(filterCanvasRef.current, filter, 28, 28, 'bwr');
+      drawImageColored(filterCanvasRef.current, filter, side, side, 'bwr');
     }
     if (overlayCanvasRef.current) {
-      drawImageColored(overlayCanvasRef.current, overlay, 28, 28, 'bwr');
+      drawImageColored(overlayCanvasRef.current, overlay, side, side, 'bwr');
     }
     if (contributionCanvasRef.current) {
-      drawImageColored(contributionCanvasRef.current, contribution, 28, 28, 'hot');
+      drawImageColored(contributionCanvasRef.current, contribution, side, side, 'hot');
     }
   };
 
@@ -78,16 +84,16 @@ export function NeuronAnalysis({ rbm, sample, hiddenActivations }: NeuronAnalysi
       <div className="analysis-controls">
         <div className="slider-container">
           <div className="slider-label">
-            Нейрон: <span>{selectedNeuron}</span>
+            Нейрон: <span>{neuron}</span> из {nHidden}
             <span className="activation-badge">
-              {hiddenActivations[selectedNeuron].toFixed(3)}
+              {hiddenActivations[neuron].toFixed(3)}
             </span>
           </div>
           <input
             type="range"
             min="0"
-            max="63"
-            value={selectedNeuron}
+            max={nHidden - 1}
+            value={neuron}
             onChange={(e) => setSelectedNeuron(parseInt(e.target.value))}
           />
         </div>
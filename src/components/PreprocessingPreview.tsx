@@ -0,0 +1,71 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { Dataset, PreprocessingSettings } from '../types';
+import { PreprocessingPipeline } from '../ml/Preprocessing';
+import { getSplit } from '../utils/dataset';
+import { drawImage, normalizeToUnitRange } from '../utils/canvas';
+import { PREPROCESSING_PREVIEW_SAMPLES } from '../constants';
+
+interface PreprocessingPreviewProps {
+  dataset: Dataset;
+  settings: PreprocessingSettings;
+}
+
+// Фиксированный seed: превью стохастической бинаризации не мерцает при перерисовке
+const PREVIEW_SEED = 1;
+
+/**
+ * Превью предобработки «до и после»: для нескольких обучающих образцов —
+ * исходное изображение и результат каждого включённого шага конвейера
+ */
+export function PreprocessingPreview({ dataset, settings }: PreprocessingPreviewProps) {
+  const canvasRefs = useRef<(HTMLCanvasElement | null)[][]>([]);
+
+  // Средние для стандартизации считаются по train, как при обучении
+  const rows = useMemo(() => {
+    const trainImages = getSplit(dataset, 'train').images;
+    const pipeline = new PreprocessingPipeline(settings, dataset.shape, PREVIEW_SEED).fit(trainImages);
+    return trainImages.slice(0, PREPROCESSING_PREVIEW_SAMPLES).map(image => pipeline.stages(image, true));
+  }, [dataset, settings]);
+
+  useEffect(() => {
+    rows.forEach((stages, i) => {
+      stages.forEach((stage, j) => {
+        const canvas = canvasRefs.current[i]?.[j];
+        if (canvas) {
+          // Стандартизованные значения выходят за [0, 1] — для показа они растягиваются
+          const pixels = settings.pixelTransform === 'standardize' && j === stages.length - 1
+            ? normalizeToUnitRange(stage.image)
+            : stage.image;
+          drawImage(canvas, pixels, dataset.shape.width, dataset.shape.height);
+        }
+      });
+    });
+  }, [rows, settings.pixelTransform, dataset.shape]);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="preprocessing-preview">
+      <div className="preprocessing-preview-row">
+        {rows[0].map(stage => (
+          <div key={stage.label} className="lateral-weights-label">{stage.label}</div>
+        ))}
+      </div>
+      {rows.map((stages, i) => (
+        <div key={i} className="preprocessing-preview-row">
+          {stages.map((stage, j) => (
+            <canvas
+              key={stage.label}
+              ref={canvas => {
+                canvasRefs.current[i] = canvasRefs.current[i] ?? [];
+                canvasRefs.current[i][j] = canvas;
+              }}
+              width="56"
+              height="56"
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,17 +1,27 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { BernoulliRBM } from '../ml/BernoulliRBM';
-import { drawImage } from '../utils/canvas';
+import type { DeepBeliefNetwork } from '../ml/DeepBeliefNetwork';
+import { ConvolutionalRBM } from '../ml/ConvolutionalRBM';
+import { drawImage, gridShape, padToGrid } from '../utils/canvas';
 import { calculateErrorMetrics, getMSECategory } from '../utils/metrics';
+import { classCounts } from '../utils/dataset';
+import { DATASET_SPLIT_LABELS } from '../constants';
+import type { Dataset, DatasetSplit } from '../types';
 import { ErrorStats } from './ErrorStats';
+import { FeatureMapsView } from './FeatureMapsView';
 import { NeuronAnalysis } from './NeuronAnalysis';
 
 interface SampleVisualizationProps {
-  rbm: BernoulliRBM;
-  data: Float32Array[];
+  rbm: BernoulliRBM | ConvolutionalRBM;
+  dataset: Dataset;
+  dbn?: DeepBeliefNetwork | null;
+  layer?: number;
 }
 
-export function SampleVisualization({ rbm, data }: SampleVisualizationProps) {
-  const [sampleIndex, setSampleIndex] = useState(0);
+export function SampleVisualization({ rbm, dataset, dbn, layer = 0 }: SampleVisualizationProps) {
+  const [split, setSplit] = useState<DatasetSplit | 'all'>('all');
+  const [digit, setDigit] = useState<number | null>(null);
+  const [position, setPosition] = useState(0);
   const [currentSample, setCurrentSample] = useState<Float32Array | null>(null);
   const [reconstruction, setReconstruction] = useState<Float32Array | null>(null);
   const [hiddenActivations, setHiddenActivations] = useState<Float32Array | null>(null);
@@ -20,11 +30,31 @@ export function SampleVisualization({ rbm, data }: SampleVisualizationProps) {
   const reconstructionCanvasRef = useRef<HTMLCanvasElement>(null);
   const hiddenCanvasRef = useRef<HTMLCanvasElement>(null);
 
+  // Скрытый слой любого размера рисуется почти квадратной сеткой; высота холста — по числу строк
+  const nHidden = dbn
+    ? dbn.getLayerSizes()[layer + 1]
+    : rbm instanceof BernoulliRBM ? rbm.getParams().nHidden : 0;
+  const hiddenGrid = gridShape(nHidden);
+
+  // Образцы выбранного раздела и цифры (индексы в наборе)
+  const indices = useMemo(() => {
+    const pool = split === 'all' ? dataset.images.map((_, i) => i) : dataset.splits[split];
+    return digit === null ? pool : pool.filter(i => dataset.labels[i] === digit);
+  }, [dataset, split, digit]);
+  const sampleIndex = indices[Math.min(position, indices.length - 1)] ?? -1;
+  const { width, height } = dataset.shape;
+  const { classNames } = dataset.source;
+  const counts = useMemo(
+    () => classCounts(indices.map(i => dataset.labels[i]), classNames.length),
+    [dataset, indices, classNames]
+  );
+
   useEffect(() => {
-    if (!rbm || !data) return;
+    if (!rbm || sampleIndex < 0) return;
 
-    const sample = data[sampleIndex];
-    const result = rbm.reconstruct(sample);
+    const sample = dataset.images[sampleIndex];
+    // У DBN образец поднимается до выбранного слоя и спускается обратно к пикселям
+    const result = dbn ? dbn.reconstruct(sample, layer + 1) : rbm.reconstruct(sample);
     
     setCurrentSample(sample);
     setReconstruction(result.reconstruction);
@@ -32,18 +62,29 @@ export function SampleVisualization({ rbm, data }: SampleVisualizationProps) {
 
     // Отрисовка на канвасах
     if (originalCanvasRef.current) {
-      drawImage(originalCanvasRef.current, sample, 28, 28);
+      drawImage(originalCanvasRef.current, sample, width, height);
     }
     if (reconstructionCanvasRef.current) {
-      drawImage(reconstructionCanvasRef.current, result.reconstruction, 28, 28);
+      drawImage(reconstructionCanvasRef.current, result.reconstruction, width, height);
     }
     if (hiddenCanvasRef.current) {
-      drawImage(hiddenCanvasRef.current, result.hidden, 8, 8);
+      const { cols, rows } = gridShape(result.hidden.length);
+      drawImage(hiddenCanvasRef.current, padToGrid(result.hidden, cols, rows), cols, rows);
     }
-  }, [rbm, data, sampleIndex]);
+  }, [rbm, dataset, sampleIndex, dbn, layer, width, height]);
 
   const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSampleIndex(parseInt(e.target.value));
+    setPosition(parseInt(e.target.value));
+  };
+
+  const handleSplitChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSplit(e.target.value as DatasetSplit | 'all');
+    setPosition(0);
+  };
+
+  const handleDigitChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setDigit(e.target.value === '' ? null : Number(e.target.value));
+    setPosition(0);
   };
 
   const errorMetrics = currentSample && reconstruction 
@@ -58,17 +99,43 @@ export function SampleVisualization({ rbm, data }: SampleVisualizationProps) {
     <div className="visualization active">
       <div className="viz-row">
         <div className="sample-selector">
+          <select value={split} onChange={handleSplitChange} className="digit-select">
+            <option value="all">все образцы</option>
+            {(Object.keys(DATASET_SPLIT_LABELS) as DatasetSplit[]).map(name => (
+              <option key={name} value={name}>
+                {DATASET_SPLIT_LABELS[name]} ({dataset.splits[name].length})
+              </option>
+            ))}
+          </select>
+          <select value={digit ?? ''} onChange={handleDigitChange} className="digit-select">
+            <option value="">все классы</option>
+            {classNames.map((name, k) => (
+              <option key={k} value={k}>класс {name}</option>
+            ))}
+          </select>
           <div className="selector-label">Индекс образца:</div>
-          <div className="selector-value">{sampleIndex}</div>
+          <div className="selector-value">{sampleIndex >= 0 ? sampleIndex : '—'}</div>
+          {sampleIndex >= 0 && (
+            <div className="selector-label">Класс: {classNames[dataset.labels[sampleIndex]]}</div>
+          )}
           <input
             type="range"
             min="0"
-            max={data.length - 1}
-            value={sampleIndex}
+            max={Math.max(0, indices.length - 1)}
+            value={Math.min(position, Math.max(0, indices.length - 1))}
             onChange={handleSliderChange}
+            disabled={indices.length === 0}
             className="selector-slider"
           />
-          <div className="selector-range">0-{data.length - 1}</div>
+          <div className="selector-range">
+            {indices.length > 0 ? `${Math.min(position, indices.length - 1) + 1} из ${indices.length}` : 'нет образцов'}
+          </div>
+          <div className="selector-range">
+            {dataset.source.description}, {width}×{height}
+          </div>
+          <div className="selector-range">
+            По классам: {counts.map((count, k) => `${classNames[k]}: ${count}`).join(', ')}
+          </div>
         </div>
 
         <div className="viz-panel">
@@ -95,26 +162,34 @@ export function SampleVisualization({ rbm, data }: SampleVisualizationProps) {
           )}
         </div>
 
-        <div className="viz-panel">
-          <div className="viz-title">Активности скрытых нейронов</div>
-          <canvas
-            ref={hiddenCanvasRef}
-            width="256"
-            height="256"
-          />
-          <div className="hidden-neurons-explanation">
-            <p>💡 <strong>Как интерпретировать:</strong></p>
-            <ul>
-              <li>Каждый квадрат — активность одного скрытого нейрона</li>
-              <li>Светлые квадраты — нейроны с высокой активностью</li>
-              <li>Темные квадраты — нейроны с низкой активностью</li>
-              <li>Паттерн активности показывает, какие признаки "увидела" сеть в изображении</li>
-            </ul>
+        {rbm instanceof ConvolutionalRBM ? (
+          <div className="viz-panel">
+            {currentSample && <FeatureMapsView rbm={rbm} sample={currentSample} />}
           </div>
-        </div>
+        ) : (
+          <div className="viz-panel">
+            <div className="viz-title">
+              Активности скрытых нейронов{dbn && ` (слой ${layer + 1})`}: {nHidden} ({hiddenGrid.cols}×{hiddenGrid.rows})
+            </div>
+            <canvas
+              ref={hiddenCanvasRef}
+              width="256"
+              height={Math.round(256 * hiddenGrid.rows / hiddenGrid.cols)}
+            />
+            <div className="hidden-neurons-explanation">
+              <p>💡 <strong>Как интерпретировать:</strong></p>
+              <ul>
+                <li>Каждый квадрат — активность одного скрытого нейрона (по строкам, слева направо)</li>
+                <li>Светлые квадраты — нейроны с высокой активностью</li>
+                <li>Темные квадраты — нейроны с низкой активностью</li>
+                <li>Паттерн активности показывает, какие признаки "увидела" сеть в изображении</li>
+              </ul>
+            </div>
+          </div>
+        )}
       </div>
       
-      {currentSample && hiddenActivations && (
+      {currentSample && hiddenActivations && rbm instanceof BernoulliRBM && (!dbn || layer === 0) && (
         <NeuronAnalysis 
           rbm={rbm}
           sample={currentSample}
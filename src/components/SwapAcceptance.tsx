@@ -0,0 +1,27 @@
+import type { EpochStats } from '../types';
+
+interface SwapAcceptanceProps {
+  stats: EpochStats;
+}
+
+export function SwapAcceptance({ stats }: SwapAcceptanceProps) {
+  const { temperatures, swapAcceptanceRates } = stats;
+  if (!temperatures || !swapAcceptanceRates) return null;
+
+  return (
+    <div className="swap-acceptance">
+      <div className="swap-acceptance-title">🌡️ Доля принятых обменов между репликами</div>
+      {swapAcceptanceRates.map((rate, k) => (
+        <div key={k} className="swap-acceptance-row">
+          <span className="swap-acceptance-label">
+            T {temperatures[k].toFixed(2)} ↔ {temperatures[k + 1].toFixed(2)}
+          </span>
+          <div className="swap-acceptance-bar">
+            <div className="swap-acceptance-fill" style={{ width: `${rate * 100}%` }} />
+          </div>
+          <span className="swap-acceptance-value">{(rate * 100).toFixed(1)}%</span>
+        </div>
+      ))}
+    </div>
+  );
+}
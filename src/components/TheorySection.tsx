@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import { TermHighlight } from './TermHighlight';
+import { ExactLearningDemo } from './ExactLearningDemo';
+import { BoltzmannMachineDemo } from './BoltzmannMachineDemo';
 
 const termDefinitions = [
   {
@@ -68,10 +70,42 @@ export function TheorySection() {
           </ul>
           <p className="note">
             На практике чаще используются усовершенствованные и ограниченные варианты, 
-            такие как <strong>ограниченная машина Больцмана (RBM)</strong>, из-за сложности обучения полной версии. Мы используем ограниченную машину Больцмана в данном приложении.
+            такие как <strong>ограниченная машина Больцмана (RBM)</strong>, из-за сложности обучения полной версии. Мы используем ограниченную машину Больцмана в данном приложении; полная версия показана ниже на игрушечной задаче.
           </p>
         </div>
 
+        <div className="theory-block">
+          <h3>🔬 Точное и приближённое обучение</h3>
+          <p>
+            Градиент правдоподобия RBM — разность средних ⟨vᵢhⱼ⟩ по данным и по модели. Второе среднее требует
+            суммы по всем 2<sup>n</sup> состояниям, поэтому на практике его оценивают цепями Гиббса:
+            короткими (<strong>CD-k</strong>) или доведёнными до равновесия. Для крошечной сети сумму можно
+            посчитать точно и увидеть, насколько смещены приближённые оценки.
+          </p>
+          <p className="note">
+            CD-1 учится быстро, но останавливается на худшем правдоподобии: его градиент смещён.
+            Сэмплирование из равновесия почти не смещено, но шумно и медленно.
+          </p>
+          <ExactLearningDemo />
+        </div>
+
+        <div className="theory-block">
+          <h3>🕸️ Полная машина Больцмана</h3>
+          <p>
+            В исходной модели 1985 года связаны любые пары нейронов, в том числе видимые с видимыми
+            и скрытые со скрытыми. Скрытые нейроны уже не независимы при заданном входе, поэтому
+            обе фазы обучения требуют цепей Гиббса до равновесия: в <strong>фиксированной</strong> фазе
+            видимые нейроны закреплены на данных, в <strong>свободной</strong> сеть работает сама.
+            Веса меняются на разность корреляций: ΔWᵢⱼ = ε(⟨sᵢsⱼ⟩<sub>fixed</sub> − ⟨sᵢsⱼ⟩<sub>free</sub>).
+          </p>
+          <p className="note">
+            Нейроны обновляются по одному или «шахматным» порядком — группами нейронов, не связанных
+            между собой. На игрушечной задаче правдоподобие считается точно, и видно, что латеральные
+            связи улавливают корреляции пикселей, которые RBM той же формы выучивает медленнее.
+          </p>
+          <BoltzmannMachineDemo />
+        </div>
+
         <div className="theory-block">
           <h3>📚 История и создатели</h3>
           <p>
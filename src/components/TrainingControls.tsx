@@ -1,42 +1,212 @@
 import { useState, useEffect } from 'react';
-import type { TrainingProgress, DataSource, TrainingMethod } from '../types';
+import type {
+  TrainingProgress,
+  DataSource,
+  TrainingMethod,
+  CDSettings,
+  NetworkSettings,
+  ClassificationSettings,
+  DBNSettings,
+  ConvolutionalSettings,
+  Dataset,
+  GeneratorSettings,
+  IDXDatasetKind,
+  IDXLoadOptions,
+  ImageEntry,
+  PTSettings,
+  AnnealingSettings,
+  AnnealingSchedule,
+  OptimizerSettings,
+  OptimizerType,
+  RegularizationSettings,
+  SamplingMode,
+  VisibleUnits,
+  VisibleUnitsSettings,
+  AISSettings,
+  LogLikelihoodEstimate,
+  PixelTransform,
+  PreprocessingSettings
+} from '../types';
 import { ProgressBar } from './ProgressBar';
+import { SwapAcceptance } from './SwapAcceptance';
+import { AnnealingTraceChart } from './AnnealingTraceChart';
+import { TrainingDashboard } from './TrainingDashboard';
+import { TrainingMetrics } from './TrainingMetrics';
+import { ModelEvaluation } from './ModelEvaluation';
 import { MethodAnalysis } from './MethodAnalysis';
 import { DividerLine } from './DividerLine';
-import { cdAnalysis, equilibriumAnalysis } from '../data/methodAnalysis';
-import { DEFAULT_SAMPLE_DIGIT, DEFAULT_EPOCHS } from '../constants';
+import { PreprocessingPreview } from './PreprocessingPreview';
+import { GeneratorGallery } from './GeneratorGallery';
+import { entriesFromDataTransfer, entriesFromFiles } from '../utils/imageImport';
+import { cdAnalysis, equilibriumAnalysis, pcdAnalysis, ptAnalysis } from '../data/methodAnalysis';
+import {
+  DEFAULT_SAMPLE_DIGIT,
+  DEFAULT_EPOCHS,
+  DEFAULT_CD_SETTINGS,
+  CD_STEPS_OPTIONS,
+  DEFAULT_PT_SETTINGS,
+  PT_REPLICAS_OPTIONS,
+  PT_MAX_TEMPERATURE_OPTIONS,
+  DEFAULT_ANNEALING_SETTINGS,
+  ANNEAL_START_TEMPERATURE_OPTIONS,
+  ANNEAL_END_TEMPERATURE_OPTIONS,
+  DEFAULT_OPTIMIZER_SETTINGS,
+  DEFAULT_LEARNING_RATES,
+  EQUILIBRIUM_MAX_LEARNING_RATE,
+  DEFAULT_NETWORK_SETTINGS,
+  HIDDEN_UNITS_OPTIONS,
+  LEARNING_RATE_OPTIONS,
+  BATCH_SIZE_OPTIONS,
+  DEFAULT_REGULARIZATION_SETTINGS,
+  WEIGHT_DECAY_L1_OPTIONS,
+  WEIGHT_DECAY_L2_OPTIONS,
+  SPARSITY_TARGET_OPTIONS,
+  SPARSITY_DECAY_OPTIONS,
+  SPARSITY_COST_OPTIONS,
+  DEFAULT_VISIBLE_UNITS_SETTINGS,
+  VISIBLE_VARIANCE_OPTIONS,
+  DIGIT_CLASSES,
+  DEFAULT_CLASSIFICATION_SETTINGS,
+  DISCRIMINATIVE_WEIGHT_OPTIONS,
+  DEFAULT_DBN_SETTINGS,
+  DBN_ARCHITECTURE_OPTIONS,
+  DEFAULT_CONVOLUTIONAL_SETTINGS,
+  CONV_FILTER_COUNT_OPTIONS,
+  CONV_FILTER_SIZE_OPTIONS,
+  CONV_POOL_SIZE_OPTIONS,
+  IDX_DATASETS,
+  DEFAULT_IDX_LOAD_OPTIONS,
+  IDX_TRAIN_LIMIT_OPTIONS,
+  IDX_TEST_LIMIT_OPTIONS,
+  DEFAULT_AIS_SETTINGS,
+  AIS_RUNS_OPTIONS,
+  AIS_BETAS_OPTIONS,
+  DEFAULT_PREPROCESSING_SETTINGS,
+  PIXEL_TRANSFORM_LABELS,
+  BINARIZE_THRESHOLD_OPTIONS,
+  DEFAULT_GENERATOR_SETTINGS,
+  GENERATOR_ROTATION_OPTIONS,
+  GENERATOR_SCALE_OPTIONS,
+  GENERATOR_SHEAR_OPTIONS,
+  GENERATOR_STROKE_WIDTH_OPTIONS,
+  GENERATOR_ELASTIC_OPTIONS,
+  GENERATOR_NOISE_OPTIONS,
+  GENERATOR_MAX_CLASS_COUNT
+} from '../constants';
 
 interface TrainingControlsProps {
   onTrain: () => void;
+  onContinueTraining?: () => void;
+  onPauseTraining?: () => void;
+  onResumeTraining?: () => void;
+  onStopTraining?: () => void;
   onLoadSaved: () => void;
   onSaveWeightsToggle?: (enabled: boolean) => void;
   onDataSourceToggle: (dataSource: DataSource) => void;
+  onLoadIDX?: (options: IDXLoadOptions, files?: File[]) => void;
+  idxDatasetDescription?: string;
+  onImportImages?: (entries: ImageEntry[]) => void;
+  onClearImportedImages?: () => void;
+  customDatasetDescription?: string;
+  isLoadingData?: boolean;
   onTrainingMethodChange: (method: TrainingMethod) => void;
   onSelectedDigitChange?: (digit: number) => void;
   onEpochsChange?: (epochs: number) => void;
+  onNetworkSettingsChange?: (settings: NetworkSettings) => void;
+  onCDSettingsChange?: (settings: CDSettings) => void;
+  onPTSettingsChange?: (settings: PTSettings) => void;
+  onAnnealingSettingsChange?: (settings: AnnealingSettings) => void;
+  onOptimizerSettingsChange?: (settings: OptimizerSettings) => void;
+  onRegularizationSettingsChange?: (settings: RegularizationSettings) => void;
+  onVisibleUnitsSettingsChange?: (settings: VisibleUnitsSettings) => void;
+  onClassificationSettingsChange?: (settings: ClassificationSettings) => void;
+  onDBNSettingsChange?: (settings: DBNSettings) => void;
+  onConvSettingsChange?: (settings: ConvolutionalSettings) => void;
+  onSeedChange?: (seed: number | null) => void;
+  onDownloadManifest?: () => void;
+  onReplayManifest?: (file: File) => void;
+  onEvaluateModel?: () => void;
+  onAISSettingsChange?: (settings: AISSettings) => void;
+  onPreprocessingSettingsChange?: (settings: PreprocessingSettings) => void;
+  onGeneratorSettingsChange?: (settings: GeneratorSettings) => void;
+  previewDataset?: Dataset | null;
+  onLoadPreviewData?: () => void;
   isTraining: boolean;
+  isPaused?: boolean;
+  isEvaluating?: boolean;
+  modelEvaluation?: LogLikelihoodEstimate | null;
   trainingProgress: TrainingProgress | null;
 }
 
 export function TrainingControls({
   onTrain,
+  onContinueTraining,
+  onPauseTraining,
+  onResumeTraining,
+  onStopTraining,
   onLoadSaved,
   onSaveWeightsToggle,
   onDataSourceToggle,
+  onLoadIDX,
+  idxDatasetDescription,
+  onImportImages,
+  onClearImportedImages,
+  customDatasetDescription,
+  isLoadingData = false,
   onTrainingMethodChange,
   onSelectedDigitChange,
   onEpochsChange,
+  onNetworkSettingsChange,
+  onCDSettingsChange,
+  onPTSettingsChange,
+  onAnnealingSettingsChange,
+  onOptimizerSettingsChange,
+  onRegularizationSettingsChange,
+  onVisibleUnitsSettingsChange,
+  onClassificationSettingsChange,
+  onDBNSettingsChange,
+  onConvSettingsChange,
+  onSeedChange,
+  onDownloadManifest,
+  onReplayManifest,
+  onEvaluateModel,
+  onAISSettingsChange,
+  onPreprocessingSettingsChange,
+  onGeneratorSettingsChange,
+  previewDataset,
+  onLoadPreviewData,
   isTraining,
+  isPaused = false,
+  isEvaluating = false,
+  modelEvaluation,
   trainingProgress
 }: TrainingControlsProps) {
   const [saveWeights, setSaveWeights] = useState(true);
-  const [useRealMNIST, setUseRealMNIST] = useState(false);
+  const [dataSource, setDataSource] = useState<DataSource>('generated');
+  const [idxLoadOptions, setIDXLoadOptions] = useState<IDXLoadOptions>(DEFAULT_IDX_LOAD_OPTIONS);
+  const [isDragOver, setIsDragOver] = useState(false);
   const [trainingMethod, setTrainingMethod] = useState<TrainingMethod>('contrastive-divergence');
   const [hasSavedWeights, setHasSavedWeights] = useState(false);
   const [showAnalysis, setShowAnalysis] = useState(false);
   const [showCDAnalysis, setShowCDAnalysis] = useState(false);
+  const [showPCDAnalysis, setShowPCDAnalysis] = useState(false);
+  const [showPTAnalysis, setShowPTAnalysis] = useState(false);
   const [selectedDigit, setSelectedDigit] = useState(DEFAULT_SAMPLE_DIGIT);
   const [epochs, setEpochs] = useState(DEFAULT_EPOCHS);
+  const [networkSettings, setNetworkSettings] = useState<NetworkSettings>(DEFAULT_NETWORK_SETTINGS);
+  const [cdSettings, setCDSettings] = useState<CDSettings>(DEFAULT_CD_SETTINGS);
+  const [ptSettings, setPTSettings] = useState<PTSettings>(DEFAULT_PT_SETTINGS);
+  const [annealingSettings, setAnnealingSettings] = useState<AnnealingSettings>(DEFAULT_ANNEALING_SETTINGS);
+  const [optimizerSettings, setOptimizerSettings] = useState<OptimizerSettings>(DEFAULT_OPTIMIZER_SETTINGS);
+  const [regularizationSettings, setRegularizationSettings] = useState<RegularizationSettings>(DEFAULT_REGULARIZATION_SETTINGS);
+  const [visibleUnitsSettings, setVisibleUnitsSettings] = useState<VisibleUnitsSettings>(DEFAULT_VISIBLE_UNITS_SETTINGS);
+  const [classificationSettings, setClassificationSettings] = useState<ClassificationSettings>(DEFAULT_CLASSIFICATION_SETTINGS);
+  const [dbnSettings, setDBNSettings] = useState<DBNSettings>(DEFAULT_DBN_SETTINGS);
+  const [convSettings, setConvSettings] = useState<ConvolutionalSettings>(DEFAULT_CONVOLUTIONAL_SETTINGS);
+  const [seed, setSeed] = useState('');
+  const [aisSettings, setAISSettings] = useState<AISSettings>(DEFAULT_AIS_SETTINGS);
+  const [preprocessingSettings, setPreprocessingSettings] = useState<PreprocessingSettings>(DEFAULT_PREPROCESSING_SETTINGS);
+  const [generatorSettings, setGeneratorSettings] = useState<GeneratorSettings>(DEFAULT_GENERATOR_SETTINGS);
 
   useEffect(() => {
     const saved = localStorage.getItem('rbm_weights');
@@ -49,9 +219,9 @@ export function TrainingControls({
   }, [saveWeights, onSaveWeightsToggle]);
 
   useEffect(() => {
-    // Оба метода могут использовать как MNIST, так и сгенерированные данные
-    onDataSourceToggle(useRealMNIST ? 'mnist' : 'generated');
-  }, [useRealMNIST, onDataSourceToggle]);
+    // Все методы могут использовать любой источник данных
+    onDataSourceToggle(dataSource);
+  }, [dataSource, onDataSourceToggle]);
 
   useEffect(() => {
     onTrainingMethodChange(trainingMethod);
@@ -69,14 +239,145 @@ export function TrainingControls({
     }
   }, [epochs, onEpochsChange]);
 
+  useEffect(() => {
+    if (onNetworkSettingsChange) {
+      onNetworkSettingsChange(networkSettings);
+    }
+  }, [networkSettings, onNetworkSettingsChange]);
+
+  useEffect(() => {
+    if (onCDSettingsChange) {
+      onCDSettingsChange(cdSettings);
+    }
+  }, [cdSettings, onCDSettingsChange]);
+
+  useEffect(() => {
+    if (onPTSettingsChange) {
+      onPTSettingsChange(ptSettings);
+    }
+  }, [ptSettings, onPTSettingsChange]);
+
+  useEffect(() => {
+    if (onAnnealingSettingsChange) {
+      onAnnealingSettingsChange(annealingSettings);
+    }
+  }, [annealingSettings, onAnnealingSettingsChange]);
+
+  useEffect(() => {
+    if (onOptimizerSettingsChange) {
+      onOptimizerSettingsChange(optimizerSettings);
+    }
+  }, [optimizerSettings, onOptimizerSettingsChange]);
+
+  useEffect(() => {
+    if (onRegularizationSettingsChange) {
+      onRegularizationSettingsChange(regularizationSettings);
+    }
+  }, [regularizationSettings, onRegularizationSettingsChange]);
+
+  useEffect(() => {
+    if (onVisibleUnitsSettingsChange) {
+      onVisibleUnitsSettingsChange(visibleUnitsSettings);
+    }
+  }, [visibleUnitsSettings, onVisibleUnitsSettingsChange]);
+
+  useEffect(() => {
+    if (onClassificationSettingsChange) {
+      onClassificationSettingsChange(classificationSettings);
+    }
+  }, [classificationSettings, onClassificationSettingsChange]);
+
+  useEffect(() => {
+    if (onDBNSettingsChange) {
+      onDBNSettingsChange(dbnSettings);
+    }
+  }, [dbnSettings, onDBNSettingsChange]);
+
+  useEffect(() => {
+    if (onConvSettingsChange) {
+      onConvSettingsChange(convSettings);
+    }
+  }, [convSettings, onConvSettingsChange]);
+
+  useEffect(() => {
+    if (onSeedChange) {
+      // Пустое поле — новый случайный seed для каждого запуска
+      onSeedChange(seed === '' ? null : Number(seed));
+    }
+  }, [seed, onSeedChange]);
+
+  useEffect(() => {
+    if (onAISSettingsChange) {
+      onAISSettingsChange(aisSettings);
+    }
+  }, [aisSettings, onAISSettingsChange]);
+
+  useEffect(() => {
+    if (onPreprocessingSettingsChange) {
+      onPreprocessingSettingsChange(preprocessingSettings);
+    }
+  }, [preprocessingSettings, onPreprocessingSettingsChange]);
+
+  useEffect(() => {
+    if (onGeneratorSettingsChange) {
+      onGeneratorSettingsChange(generatorSettings);
+    }
+  }, [generatorSettings, onGeneratorSettingsChange]);
+
   const handleSaveWeightsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSaveWeights(e.target.checked);
   };
 
-  const handleDataSourceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setUseRealMNIST(e.target.checked);
+  const handleDataSourceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setDataSource(e.target.value as DataSource);
+  };
+
+  const handleIDXKindChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setIDXLoadOptions(prev => ({ ...prev, kind: e.target.value as IDXDatasetKind }));
+  };
+
+  const handleIDXLimitChange = (key: 'trainLimit' | 'testLimit') =>
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setIDXLoadOptions(prev => ({ ...prev, [key]: Number(e.target.value) }));
+    };
+
+  const handleIDXFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0 && onLoadIDX) {
+      onLoadIDX(idxLoadOptions, files);
+    }
+    e.target.value = '';
   };
 
+  const handleImageFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0 && onImportImages) {
+      onImportImages(entriesFromFiles(files));
+    }
+    e.target.value = '';
+  };
+
+  const handleImageDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    if (!onImportImages || isTraining || isLoadingData) return;
+    onImportImages(await entriesFromDataTransfer(e.dataTransfer));
+  };
+
+  const handleGeneratorSettingChange = (key: Exclude<keyof GeneratorSettings, 'classCounts'>) =>
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setGeneratorSettings(prev => ({ ...prev, [key]: Number(e.target.value) }));
+    };
+
+  const handleClassCountChange = (digit: number) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const count = Math.max(0, Math.min(GENERATOR_MAX_CLASS_COUNT, Math.floor(Number(e.target.value) || 0)));
+      setGeneratorSettings(prev => ({
+        ...prev,
+        classCounts: prev.classCounts.map((value, d) => (d === digit ? count : value))
+      }));
+    };
+
   const handleDigitChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setSelectedDigit(Number(e.target.value));
   };
@@ -85,12 +386,234 @@ export function TrainingControls({
     setEpochs(Number(e.target.value));
   };
 
+  // Скорость по умолчанию — как в useRBM: по оптимизатору, с ограничением для equilibrium
+  const defaultLearningRate = trainingMethod === 'equilibrium'
+    ? Math.min(DEFAULT_LEARNING_RATES[optimizerSettings.optimizer], EQUILIBRIUM_MAX_LEARNING_RATE)
+    : DEFAULT_LEARNING_RATES[optimizerSettings.optimizer];
+
+  const handleNetworkSettingChange = (key: 'nHidden' | 'batchSize') =>
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setNetworkSettings(prev => ({ ...prev, [key]: Number(e.target.value) }));
+    };
+
+  const handleLearningRateChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    // Пустое значение — скорость по умолчанию для выбранного оптимизатора
+    setNetworkSettings(prev => ({ ...prev, learningRate: e.target.value === '' ? null : Number(e.target.value) }));
+  };
+
+  const handleCDStepsChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setCDSettings(prev => ({ ...prev, cdSteps: Number(e.target.value) }));
+  };
+
+  const handleSamplingChange = (layer: 'hiddenSampling' | 'visibleSampling') =>
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setCDSettings(prev => ({ ...prev, [layer]: e.target.value as SamplingMode }));
+    };
+
+  const handlePTSettingChange = (key: 'ptReplicas' | 'ptMaxTemperature') =>
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setPTSettings(prev => ({ ...prev, [key]: Number(e.target.value) }));
+    };
+
+  const handleAnnealingTemperatureChange = (key: 'annealStartTemperature' | 'annealEndTemperature') =>
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setAnnealingSettings(prev => ({ ...prev, [key]: Number(e.target.value) }));
+    };
+
+  const handleAnnealingScheduleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setAnnealingSettings(prev => ({ ...prev, annealSchedule: e.target.value as AnnealingSchedule }));
+  };
+
+  const handleOptimizerChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setOptimizerSettings(prev => ({ ...prev, optimizer: e.target.value as OptimizerType }));
+  };
+
+  const handleMomentumRampChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setOptimizerSettings(prev => ({ ...prev, momentumRamp: e.target.checked }));
+  };
+
+  // Бинарным видимым нейронам нужны пиксели в [0, 1], гауссовским — вещественные
+  const pixelTransformsFor = (visibleUnits: VisibleUnits): PixelTransform[] =>
+    visibleUnits === 'gaussian' ? ['raw', 'standardize'] : ['raw', 'binarize', 'stochastic-binarize'];
+
+  const handleVisibleUnitsChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const visibleUnits = e.target.value as VisibleUnits;
+    setVisibleUnitsSettings(prev => ({ ...prev, visibleUnits }));
+    setPreprocessingSettings(prev => pixelTransformsFor(visibleUnits).includes(prev.pixelTransform)
+      ? prev
+      : { ...prev, pixelTransform: 'raw' });
+  };
+
+  const handlePreprocessingStepChange = (key: 'center' | 'deskew') =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setPreprocessingSettings(prev => ({ ...prev, [key]: e.target.checked }));
+    };
+
+  const handlePixelTransformChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setPreprocessingSettings(prev => ({ ...prev, pixelTransform: e.target.value as PixelTransform }));
+  };
+
+  const handleThresholdChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setPreprocessingSettings(prev => ({ ...prev, threshold: Number(e.target.value) }));
+  };
+
+  const handleVisibleVarianceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setVisibleUnitsSettings(prev => ({ ...prev, visibleVariance: Number(e.target.value) }));
+  };
+
+  const handleLearnVarianceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setVisibleUnitsSettings(prev => ({ ...prev, learnVariance: e.target.checked }));
+  };
+
+  const handleLabelUnitsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setClassificationSettings(prev => ({ ...prev, nClasses: e.target.checked ? DIGIT_CLASSES : 0 }));
+  };
+
+  const handleDiscriminativeWeightChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setClassificationSettings(prev => ({ ...prev, discriminativeWeight: Number(e.target.value) }));
+  };
+
+  const handleDBNEnabledChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDBNSettings(prev => ({ ...prev, enabled: e.target.checked }));
+  };
+
+  const handleDBNArchitectureChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setDBNSettings(prev => ({ ...prev, layerSizes: e.target.value.split('-').map(Number) }));
+  };
+
+  const handleConvEnabledChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setConvSettings(prev => ({ ...prev, enabled: e.target.checked }));
+  };
+
+  const handleConvSettingChange = (key: 'nFilters' | 'filterSize' | 'poolSize') =>
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setConvSettings(prev => ({ ...prev, [key]: Number(e.target.value) }));
+    };
+
+  const handleSeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSeed(e.target.value.replace(/\D/g, ''));
+  };
+
+  const handleAISSettingChange = (key: keyof AISSettings) =>
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setAISSettings(prev => ({ ...prev, [key]: Number(e.target.value) }));
+    };
+
+  const handleManifestFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && onReplayManifest) {
+      onReplayManifest(file);
+    }
+    e.target.value = '';
+  };
+
+  const handleRegularizationChange = (key: keyof RegularizationSettings) =>
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setRegularizationSettings(prev => ({ ...prev, [key]: Number(e.target.value) }));
+    };
+
+  const regularizationSelect = (
+    label: string,
+    key: keyof RegularizationSettings,
+    options: number[],
+    disabled = false
+  ) => (
+    <div className="digit-selector">
+      <label className="digit-label">
+        {label}
+        <select
+          value={regularizationSettings[key]}
+          onChange={handleRegularizationChange(key)}
+          disabled={isTraining || disabled}
+          className="digit-select"
+        >
+          {options.map(value => (
+            <option key={value} value={value}>
+              {value === 0 ? 'выкл.' : value}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+
+  const generatorSelect = (
+    label: string,
+    key: Exclude<keyof GeneratorSettings, 'classCounts'>,
+    options: number[],
+    format: (value: number) => string = String
+  ) => (
+    <div className="digit-selector">
+      <label className="digit-label">
+        {label}
+        <select
+          value={generatorSettings[key]}
+          onChange={handleGeneratorSettingChange(key)}
+          disabled={isTraining}
+          className="digit-select"
+        >
+          {options.map(value => (
+            <option key={value} value={value}>
+              {format(value)}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+
+  const convSelect = (
+    label: string,
+    key: 'nFilters' | 'filterSize' | 'poolSize',
+    options: number[],
+    format: (value: number) => string
+  ) => (
+    <div className="digit-selector">
+      <label className="digit-label">
+        {label}
+        <select
+          value={convSettings[key]}
+          onChange={handleConvSettingChange(key)}
+          disabled={isTraining}
+          className="digit-select"
+        >
+          {options.map(value => (
+            <option key={value} value={value}>
+              {format(value)}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+
+  const cdStepsSelector = (
+    <div className="digit-selector">
+      <label className="digit-label">
+        Шагов Гиббса (k):
+        <select
+          value={cdSettings.cdSteps}
+          onChange={handleCDStepsChange}
+          disabled={isTraining}
+          className="digit-select"
+        >
+          {CD_STEPS_OPTIONS.map(k => (
+            <option key={k} value={k}>
+              {k}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+
   const handleTrainingMethodChange = (method: TrainingMethod) => {
     setTrainingMethod(method);
   };
 
   const handleDeleteWeights = () => {
     localStorage.removeItem('rbm_weights');
+    localStorage.removeItem('rbm_preprocessing');
     setHasSavedWeights(false);
   };
 
@@ -136,6 +659,51 @@ export function TrainingControls({
                   </select>
                 </label>
               </div>
+              <div className="digit-selector">
+                <label className="digit-label">
+                  Отжиг: T от
+                  <select
+                    value={annealingSettings.annealStartTemperature}
+                    onChange={handleAnnealingTemperatureChange('annealStartTemperature')}
+                    disabled={isTraining}
+                    className="digit-select"
+                  >
+                    {ANNEAL_START_TEMPERATURE_OPTIONS.map(t => (
+                      <option key={t} value={t}>
+                        {t}
+                      </option>
+                    ))}
+                  </select>
+                  до
+                  <select
+                    value={annealingSettings.annealEndTemperature}
+                    onChange={handleAnnealingTemperatureChange('annealEndTemperature')}
+                    disabled={isTraining}
+                    className="digit-select"
+                  >
+                    {ANNEAL_END_TEMPERATURE_OPTIONS.map(t => (
+                      <option key={t} value={t}>
+                        {t}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <div className="digit-selector">
+                <label className="digit-label">
+                  Расписание:
+                  <select
+                    value={annealingSettings.annealSchedule}
+                    onChange={handleAnnealingScheduleChange}
+                    disabled={isTraining}
+                    className="digit-select"
+                  >
+                    <option value="geometric">геометрическое</option>
+                    <option value="linear">линейное</option>
+                    <option value="stepwise">ступенчатое (1985)</option>
+                  </select>
+                </label>
+              </div>
             </div>
           </div>
 
@@ -144,7 +712,7 @@ export function TrainingControls({
             onClick={() => !isTraining && handleTrainingMethodChange('contrastive-divergence')}
           >
             <div className="method-card-header">
-              <h3>Контрастивная дивергенция (CD)</h3>
+              <h3>Контрастивная дивергенция (CD-{cdSettings.cdSteps})</h3>
               <div className="method-year">2002</div>
             </div>
             <p className="method-description">
@@ -159,7 +727,116 @@ export function TrainingControls({
             />
             <DividerLine />
             <div className="card-settings">
-              {/* Настройки перенесены в общий блок */}
+              {cdStepsSelector}
+              <div className="digit-selector">
+                <label className="digit-label">
+                  Скрытый слой:
+                  <select
+                    value={cdSettings.hiddenSampling}
+                    onChange={handleSamplingChange('hiddenSampling')}
+                    disabled={isTraining}
+                    className="digit-select"
+                  >
+                    <option value="mean-field">вероятности (среднее поле)</option>
+                    <option value="sampled">бинарные сэмплы</option>
+                  </select>
+                </label>
+              </div>
+              <div className="digit-selector">
+                <label className="digit-label">
+                  Видимый слой:
+                  <select
+                    value={cdSettings.visibleSampling}
+                    onChange={handleSamplingChange('visibleSampling')}
+                    disabled={isTraining}
+                    className="digit-select"
+                  >
+                    <option value="mean-field">вероятности (среднее поле)</option>
+                    <option value="sampled">бинарные сэмплы</option>
+                  </select>
+                </label>
+              </div>
+            </div>
+          </div>
+
+          <div 
+            className={`method-card ${trainingMethod === 'persistent-cd' ? 'selected' : ''}`}
+            onClick={() => !isTraining && handleTrainingMethodChange('persistent-cd')}
+          >
+            <div className="method-card-header">
+              <h3>Персистентная контрастивная дивергенция (PCD)</h3>
+              <div className="method-year">2008</div>
+            </div>
+            <p className="method-description">
+              Вариант CD Тилемана: отрицательные цепи Гиббса продолжаются между батчами и эпохами
+            </p>
+            <MethodAnalysis
+              isVisible={showPCDAnalysis}
+              onToggle={() => setShowPCDAnalysis(!showPCDAnalysis)}
+              isDisabled={isTraining}
+              pros={pcdAnalysis.pros}
+              cons={pcdAnalysis.cons}
+            />
+            <DividerLine />
+            <div className="card-settings">
+              {cdStepsSelector}
+            </div>
+          </div>
+
+          <div 
+            className={`method-card ${trainingMethod === 'parallel-tempering' ? 'selected' : ''}`}
+            onClick={() => !isTraining && handleTrainingMethodChange('parallel-tempering')}
+          >
+            <div className="method-card-header">
+              <h3>Параллельное темперирование (PT)</h3>
+              <div className="method-year">2010</div>
+            </div>
+            <p className="method-description">
+              Несколько реплик при разных температурах с обменами состояний между соседями
+            </p>
+            <MethodAnalysis
+              isVisible={showPTAnalysis}
+              onToggle={() => setShowPTAnalysis(!showPTAnalysis)}
+              isDisabled={isTraining}
+              pros={ptAnalysis.pros}
+              cons={ptAnalysis.cons}
+            />
+            <DividerLine />
+            <div className="card-settings">
+              <div className="digit-selector">
+                <label className="digit-label">
+                  Реплик:
+                  <select
+                    value={ptSettings.ptReplicas}
+                    onChange={handlePTSettingChange('ptReplicas')}
+                    disabled={isTraining}
+                    className="digit-select"
+                  >
+                    {PT_REPLICAS_OPTIONS.map(n => (
+                      <option key={n} value={n}>
+                        {n}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <div className="digit-selector">
+                <label className="digit-label">
+                  Максимальная температура:
+                  <select
+                    value={ptSettings.ptMaxTemperature}
+                    onChange={handlePTSettingChange('ptMaxTemperature')}
+                    disabled={isTraining}
+                    className="digit-select"
+                  >
+                    {PT_MAX_TEMPERATURE_OPTIONS.map(t => (
+                      <option key={t} value={t}>
+                        {t}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
             </div>
           </div>
         </div>
@@ -176,14 +853,52 @@ export function TrainingControls({
             />
             <span className="checkbox-label">Сохранить веса в Local Storage</span>
           </label>
-          <label className="checkbox-container">
-            <input
-              type="checkbox"
-              checked={useRealMNIST}
-              onChange={handleDataSourceChange}
-            />
-            <span className="checkbox-label">Использовать реальные данные <span className="term-highlight" data-tooltip="Modified National Institute of Standards and Technology - стандартный набор данных для тестирования алгоритмов машинного обучения, содержащий рукописные цифры">MNIST</span></span>
-          </label>
+          <div className="digit-selector">
+            <label className="digit-label">
+              <span>Набор <span className="term-highlight" data-tooltip="Modified National Institute of Standards and Technology - стандартный набор данных для тестирования алгоритмов машинного обучения, содержащий рукописные цифры">MNIST</span>-подобных данных:</span>
+              <select
+                value={dataSource}
+                onChange={handleDataSourceChange}
+                disabled={isTraining || isLoadingData}
+                className="digit-select"
+              >
+                <option value="generated">Сгенерированные цифры</option>
+                <option value="mnist">Реальный MNIST (2000 образцов)</option>
+                <option value="idx">Файлы IDX (MNIST, Fashion-MNIST, EMNIST)</option>
+                <option value="custom">Свои изображения (PNG, JPEG)</option>
+              </select>
+            </label>
+          </div>
+          <div className="digit-selector">
+            <label className="digit-label">
+              Оптимизатор:
+              <select
+                value={optimizerSettings.optimizer}
+                onChange={handleOptimizerChange}
+                disabled={isTraining}
+                className="digit-select"
+              >
+                <option value="sgd">SGD</option>
+                <option value="momentum">Момент (classical momentum)</option>
+                <option value="nesterov">Нестеров</option>
+                <option value="rmsprop">RMSProp</option>
+                <option value="adam">Adam</option>
+              </select>
+            </label>
+          </div>
+          {(optimizerSettings.optimizer === 'momentum' || optimizerSettings.optimizer === 'nesterov') && (
+            <label className="checkbox-container">
+              <input
+                type="checkbox"
+                checked={optimizerSettings.momentumRamp}
+                onChange={handleMomentumRampChange}
+                disabled={isTraining}
+              />
+              <span className="checkbox-label">
+                Разгон момента 0.5 → {optimizerSettings.momentum} в первые 5 эпох (по Хинтону)
+              </span>
+            </label>
+          )}
           <div className="setting-item">
             <label className="setting-label">
               Количество эпох обучения: <span className="epochs-value">{epochs}</span>
@@ -202,6 +917,517 @@ export function TrainingControls({
               <span>30</span>
             </div>
           </div>
+          <div className="digit-selector">
+            <label className="digit-label">
+              Seed генератора случайных чисел:
+              <input
+                type="text"
+                inputMode="numeric"
+                value={seed}
+                onChange={handleSeedChange}
+                disabled={isTraining}
+                placeholder="случайный"
+                className="seed-input"
+              />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {dataSource === 'generated' && (
+        <div className="control-section">
+          <div className="section-header">✏️ Генератор цифр</div>
+          <div className="settings-group">
+            {generatorSelect('Поворот:', 'rotation', GENERATOR_ROTATION_OPTIONS, value => value === 0 ? 'выкл.' : `±${value}°`)}
+            {generatorSelect('Масштаб:', 'scale', GENERATOR_SCALE_OPTIONS, value => value === 0 ? 'выкл.' : `±${value * 100}%`)}
+            {generatorSelect('Наклон (сдвиг):', 'shear', GENERATOR_SHEAR_OPTIONS, value => value === 0 ? 'выкл.' : `±${value}`)}
+            {generatorSelect('Толщина штриха, пикселей:', 'strokeWidth', GENERATOR_STROKE_WIDTH_OPTIONS)}
+            {generatorSelect('Упругая деформация, пикселей:', 'elastic', GENERATOR_ELASTIC_OPTIONS, value => value === 0 ? 'выкл.' : String(value))}
+            {generatorSelect('Шум:', 'noise', GENERATOR_NOISE_OPTIONS, value => value === 0 ? 'выкл.' : String(value))}
+            <div className="digit-label">Образцов каждой цифры (для сэмплирования из равновесия — 20 выбранной):</div>
+            <div className="class-count-grid">
+              {generatorSettings.classCounts.map((count, digit) => (
+                <label key={digit} className="class-count-item">
+                  {digit}
+                  <input
+                    type="number"
+                    min="0"
+                    max={GENERATOR_MAX_CLASS_COUNT}
+                    step="10"
+                    value={count}
+                    onChange={handleClassCountChange(digit)}
+                    disabled={isTraining}
+                    className="seed-input"
+                  />
+                </label>
+              ))}
+            </div>
+            <GeneratorGallery settings={generatorSettings} />
+          </div>
+        </div>
+      )}
+
+      {dataSource === 'idx' && (
+        <div className="control-section">
+          <div className="section-header">📦 Набор IDX</div>
+          <div className="settings-group">
+            <div className="digit-selector">
+              <label className="digit-label">
+                Набор:
+                <select
+                  value={idxLoadOptions.kind}
+                  onChange={handleIDXKindChange}
+                  disabled={isTraining || isLoadingData}
+                  className="digit-select"
+                >
+                  {(Object.keys(IDX_DATASETS) as IDXDatasetKind[]).map(kind => (
+                    <option key={kind} value={kind}>{IDX_DATASETS[kind].name}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="digit-selector">
+              <label className="digit-label">
+                Обучающих образцов:
+                <select
+                  value={idxLoadOptions.trainLimit}
+                  onChange={handleIDXLimitChange('trainLimit')}
+                  disabled={isTraining || isLoadingData}
+                  className="digit-select"
+                >
+                  {IDX_TRAIN_LIMIT_OPTIONS.map(n => (
+                    <option key={n} value={n}>{n === Infinity ? 'все' : n}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="digit-selector">
+              <label className="digit-label">
+                Тестовых образцов:
+                <select
+                  value={idxLoadOptions.testLimit}
+                  onChange={handleIDXLimitChange('testLimit')}
+                  disabled={isTraining || isLoadingData}
+                  className="digit-select"
+                >
+                  {IDX_TEST_LIMIT_OPTIONS.map(n => (
+                    <option key={n} value={n}>{n === Infinity ? 'все' : n === 0 ? 'не загружать' : n}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {onLoadIDX && (
+              <>
+                <button
+                  className="train-btn load-btn"
+                  onClick={() => onLoadIDX(idxLoadOptions)}
+                  disabled={isTraining || isLoadingData}
+                >
+                  📥 Загрузить из public/data/{IDX_DATASETS[idxLoadOptions.kind].directory}
+                </button>
+                <label className="train-btn load-btn">
+                  📂 Выбрать файлы IDX (.gz или распакованные)
+                  <input
+                    type="file"
+                    multiple
+                    onChange={handleIDXFilesChange}
+                    disabled={isTraining || isLoadingData}
+                    hidden
+                  />
+                </label>
+              </>
+            )}
+            <div className="digit-label">
+              {idxDatasetDescription ? `Загружен: ${idxDatasetDescription}` : 'Набор ещё не загружен'}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {dataSource === 'custom' && (
+        <div className="control-section">
+          <div className="section-header">🖼️ Свои изображения</div>
+          <div className="settings-group">
+            {onImportImages && (
+              <>
+                <div
+                  className={`image-drop-zone${isDragOver ? ' drag-over' : ''}`}
+                  onDragOver={e => { e.preventDefault(); setIsDragOver(true); }}
+                  onDragLeave={() => setIsDragOver(false)}
+                  onDrop={handleImageDrop}
+                >
+                  Перетащите сюда папку, изображения или архив ZIP.
+                  Подпапки задают классы; изображения переводятся в оттенки серого,
+                  обрезаются, центрируются по центру масс и сжимаются до 28×28
+                </div>
+                <label className="train-btn load-btn">
+                  📁 Выбрать папку
+                  <input
+                    type="file"
+                    ref={input => input?.setAttribute('webkitdirectory', '')}
+                    onChange={handleImageFilesChange}
+                    disabled={isTraining || isLoadingData}
+                    hidden
+                  />
+                </label>
+                <label className="train-btn load-btn">
+                  🗂️ Выбрать изображения или ZIP
+                  <input
+                    type="file"
+                    multiple
+                    accept="image/png,image/jpeg,.zip"
+                    onChange={handleImageFilesChange}
+                    disabled={isTraining || isLoadingData}
+                    hidden
+                  />
+                </label>
+              </>
+            )}
+            <div className="digit-label">
+              {customDatasetDescription ? `Загружены: ${customDatasetDescription}` : 'Изображения ещё не импортированы'}
+            </div>
+            {customDatasetDescription && onClearImportedImages && (
+              <button
+                className="train-btn delete-btn"
+                onClick={onClearImportedImages}
+                disabled={isTraining || isLoadingData}
+              >
+                🗑️ Удалить сохранённые изображения
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="control-section">
+        <div className="section-header">📐 Размер сети</div>
+        <div className="settings-group">
+          <div className="digit-selector">
+            <label className="digit-label">
+              Скрытых нейронов:
+              <select
+                value={networkSettings.nHidden}
+                onChange={handleNetworkSettingChange('nHidden')}
+                disabled={isTraining || dbnSettings.enabled || convSettings.enabled}
+                className="digit-select"
+              >
+                {HIDDEN_UNITS_OPTIONS.map(value => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="digit-selector">
+            <label className="digit-label">
+              Скорость обучения:
+              <select
+                value={networkSettings.learningRate ?? ''}
+                onChange={handleLearningRateChange}
+                disabled={isTraining}
+                className="digit-select"
+              >
+                <option value="">
+                  по умолчанию ({convSettings.enabled ? 'своя у свёрточной RBM' : defaultLearningRate})
+                </option>
+                {LEARNING_RATE_OPTIONS.map(value => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="digit-selector">
+            <label className="digit-label">
+              Размер батча:
+              <select
+                value={networkSettings.batchSize}
+                onChange={handleNetworkSettingChange('batchSize')}
+                disabled={isTraining}
+                className="digit-select"
+              >
+                {BATCH_SIZE_OPTIONS.map(value => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div className="control-section">
+        <div className="section-header">🔢 Видимые нейроны</div>
+        <div className="settings-group">
+          <div className="digit-selector">
+            <label className="digit-label">
+              Тип видимых нейронов:
+              <select
+                value={visibleUnitsSettings.visibleUnits}
+                onChange={handleVisibleUnitsChange}
+                disabled={isTraining || dbnSettings.enabled || convSettings.enabled}
+                className="digit-select"
+              >
+                <option value="binary">бинарные (Бернулли)</option>
+                <option value="gaussian">гауссовские (вещественные пиксели)</option>
+              </select>
+            </label>
+          </div>
+          {visibleUnitsSettings.visibleUnits === 'gaussian' && (
+            <>
+              <div className="digit-selector">
+                <label className="digit-label">
+                  {visibleUnitsSettings.learnVariance ? 'Начальная дисперсия σ²:' : 'Дисперсия σ²:'}
+                  <select
+                    value={visibleUnitsSettings.visibleVariance}
+                    onChange={handleVisibleVarianceChange}
+                    disabled={isTraining}
+                    className="digit-select"
+                  >
+                    {VISIBLE_VARIANCE_OPTIONS.map(value => (
+                      <option key={value} value={value}>
+                        {value}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <label className="checkbox-container">
+                <input
+                  type="checkbox"
+                  checked={visibleUnitsSettings.learnVariance}
+                  onChange={handleLearnVarianceChange}
+                  disabled={isTraining}
+                />
+                <span className="checkbox-label">
+                  Обучать дисперсии пикселей (нужны сэмплы видимого слоя: PCD, PT или CD с сэмплами)
+                </span>
+              </label>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="control-section">
+        <div className="section-header">🧼 Предобработка</div>
+        <div className="settings-group">
+          <label className="checkbox-container">
+            <input
+              type="checkbox"
+              checked={preprocessingSettings.deskew}
+              onChange={handlePreprocessingStepChange('deskew')}
+              disabled={isTraining}
+            />
+            <span className="checkbox-label">Выпрямлять наклон (по вторым моментам яркости)</span>
+          </label>
+          <label className="checkbox-container">
+            <input
+              type="checkbox"
+              checked={preprocessingSettings.center}
+              onChange={handlePreprocessingStepChange('center')}
+              disabled={isTraining}
+            />
+            <span className="checkbox-label">Центрировать по центру масс</span>
+          </label>
+          <div className="digit-selector">
+            <label className="digit-label">
+              Значения пикселей:
+              <select
+                value={preprocessingSettings.pixelTransform}
+                onChange={handlePixelTransformChange}
+                disabled={isTraining}
+                className="digit-select"
+              >
+                {pixelTransformsFor(visibleUnitsSettings.visibleUnits).map(transform => (
+                  <option key={transform} value={transform}>
+                    {PIXEL_TRANSFORM_LABELS[transform]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {preprocessingSettings.pixelTransform === 'binarize' && (
+            <div className="digit-selector">
+              <label className="digit-label">
+                Порог:
+                <select
+                  value={preprocessingSettings.threshold}
+                  onChange={handleThresholdChange}
+                  disabled={isTraining}
+                  className="digit-select"
+                >
+                  {BINARIZE_THRESHOLD_OPTIONS.map(value => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+          {previewDataset ? (
+            <PreprocessingPreview dataset={previewDataset} settings={preprocessingSettings} />
+          ) : onLoadPreviewData && (
+            <button
+              className="train-btn load-btn"
+              onClick={onLoadPreviewData}
+              disabled={isTraining || isLoadingData}
+            >
+              👁️ Показать образцы до и после
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="control-section">
+        <div className="section-header">🏷️ Метки классов</div>
+        <div className="settings-group">
+          <label className="checkbox-container">
+            <input
+              type="checkbox"
+              checked={classificationSettings.nClasses > 0}
+              onChange={handleLabelUnitsChange}
+              disabled={isTraining || visibleUnitsSettings.visibleUnits === 'gaussian' || dbnSettings.enabled || convSettings.enabled}
+            />
+            <span className="checkbox-label">
+              Обучать вместе с метками цифр: классификационная RBM (только бинарные видимые нейроны)
+            </span>
+          </label>
+          {classificationSettings.nClasses > 0 && (
+            <div className="digit-selector">
+              <label className="digit-label">
+                Вес дискриминативного члена log p(y | x):
+                <select
+                  value={classificationSettings.discriminativeWeight}
+                  onChange={handleDiscriminativeWeightChange}
+                  disabled={isTraining || visibleUnitsSettings.visibleUnits === 'gaussian'}
+                  className="digit-select"
+                >
+                  {DISCRIMINATIVE_WEIGHT_OPTIONS.map(value => (
+                    <option key={value} value={value}>
+                      {value === 0 ? '0 (только генеративный)' : value}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="control-section">
+        <div className="section-header">🧱 Глубокая сеть доверия</div>
+        <div className="settings-group">
+          <label className="checkbox-container">
+            <input
+              type="checkbox"
+              checked={dbnSettings.enabled}
+              onChange={handleDBNEnabledChange}
+              disabled={isTraining || visibleUnitsSettings.visibleUnits === 'gaussian' || classificationSettings.nClasses > 0 || convSettings.enabled}
+            />
+            <span className="checkbox-label">
+              Обучить стек RBM жадно по слоям (DBN): каждый слой учится на скрытых вероятностях предыдущего
+              (только бинарные видимые нейроны, без меток)
+            </span>
+          </label>
+          {dbnSettings.enabled && (
+            <div className="digit-selector">
+              <label className="digit-label">
+                Размеры слоёв:
+                <select
+                  value={dbnSettings.layerSizes.join('-')}
+                  onChange={handleDBNArchitectureChange}
+                  disabled={isTraining}
+                  className="digit-select"
+                >
+                  {DBN_ARCHITECTURE_OPTIONS.map(value => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="control-section">
+        <div className="section-header">🧩 Свёрточная RBM</div>
+        <div className="settings-group">
+          <label className="checkbox-container">
+            <input
+              type="checkbox"
+              checked={convSettings.enabled}
+              onChange={handleConvEnabledChange}
+              disabled={isTraining || visibleUnitsSettings.visibleUnits === 'gaussian' || classificationSettings.nClasses > 0 || dbnSettings.enabled}
+            />
+            <span className="checkbox-label">
+              Обучить свёрточную RBM: общие фильтры скользят по изображению, скрытый слой — карты признаков
+              (CD-1 в основном потоке; метод обучения, оптимизатор и регуляризация не применяются)
+            </span>
+          </label>
+          {convSettings.enabled && (
+            <>
+              {convSelect('Количество фильтров:', 'nFilters', CONV_FILTER_COUNT_OPTIONS, value => String(value))}
+              {convSelect('Размер фильтра:', 'filterSize', CONV_FILTER_SIZE_OPTIONS, value => `${value}×${value}`)}
+              {convSelect('Вероятностный max-pooling:', 'poolSize', CONV_POOL_SIZE_OPTIONS, value => value === 1 ? 'выкл.' : `${value}×${value}`)}
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="control-section">
+        <div className="section-header">🧹 Регуляризация</div>
+        <div className="settings-group">
+          {regularizationSelect('L2-затухание весов:', 'weightDecayL2', WEIGHT_DECAY_L2_OPTIONS)}
+          {regularizationSelect('L1-затухание весов:', 'weightDecayL1', WEIGHT_DECAY_L1_OPTIONS)}
+          {regularizationSelect('Штраф разреженности:', 'sparsityCost', SPARSITY_COST_OPTIONS)}
+          {regularizationSelect('Целевая активность p:', 'sparsityTarget', SPARSITY_TARGET_OPTIONS, regularizationSettings.sparsityCost === 0)}
+          {regularizationSelect('Затухание оценки активности:', 'sparsityDecay', SPARSITY_DECAY_OPTIONS, regularizationSettings.sparsityCost === 0)}
+        </div>
+      </div>
+
+      <div className="control-section">
+        <div className="section-header">📊 Оценка модели (AIS)</div>
+        <div className="settings-group">
+          <div className="digit-selector">
+            <label className="digit-label">
+              Прогонов AIS:
+              <select
+                value={aisSettings.aisRuns}
+                onChange={handleAISSettingChange('aisRuns')}
+                disabled={isTraining || isEvaluating}
+                className="digit-select"
+              >
+                {AIS_RUNS_OPTIONS.map(n => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="digit-selector">
+            <label className="digit-label">
+              Обратных температур β:
+              <select
+                value={aisSettings.aisBetas}
+                onChange={handleAISSettingChange('aisBetas')}
+                disabled={isTraining || isEvaluating}
+                className="digit-select"
+              >
+                {AIS_BETAS_OPTIONS.map(n => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
         </div>
       </div>
 
@@ -210,12 +1436,78 @@ export function TrainingControls({
         <div className="action-buttons">
           <button 
             onClick={onTrain}
-            disabled={isTraining}
+            disabled={isTraining || isEvaluating || isLoadingData || (dataSource === 'idx' && !idxDatasetDescription) || (dataSource === 'custom' && !customDatasetDescription)}
             className="train-btn"
           >
-            {isTraining ? 'Обучение...' : 'Обучить сеть'}
+            {isTraining ? (isPaused ? 'Пауза' : 'Обучение...') : 'Обучить сеть'}
           </button>
 
+          {isTraining && onPauseTraining && onResumeTraining && (
+            <button 
+              onClick={isPaused ? onResumeTraining : onPauseTraining}
+              className="train-btn load-btn"
+            >
+              {isPaused ? '▶️ Продолжить' : '⏸️ Пауза'}
+            </button>
+          )}
+
+          {isTraining && onStopTraining && (
+            <button 
+              onClick={onStopTraining}
+              className="train-btn delete-btn"
+            >
+              ⏹️ Остановить
+            </button>
+          )}
+
+          {isEvaluating && onStopTraining && (
+            <button 
+              onClick={onStopTraining}
+              className="train-btn delete-btn"
+            >
+              ⏹️ Остановить оценку
+            </button>
+          )}
+
+          {onEvaluateModel && !isTraining && !isEvaluating && (
+            <button 
+              onClick={onEvaluateModel}
+              className="train-btn load-btn"
+            >
+              📊 Оценить модель
+            </button>
+          )}
+
+          {onContinueTraining && !isTraining && !isEvaluating && (
+            <button 
+              onClick={onContinueTraining}
+              className="train-btn load-btn"
+            >
+              Продолжить обучение
+            </button>
+          )}
+
+          {onDownloadManifest && !isTraining && (
+            <button 
+              onClick={onDownloadManifest}
+              className="train-btn load-btn"
+            >
+              🧾 Скачать манифест запуска
+            </button>
+          )}
+
+          {onReplayManifest && !isTraining && (
+            <label className="train-btn load-btn">
+              🔁 Повторить запуск по манифесту
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={handleManifestFileChange}
+                hidden
+              />
+            </label>
+          )}
+
           {hasSavedWeights && !isTraining && (
             <>
               <button 
@@ -241,6 +1533,29 @@ export function TrainingControls({
           status={trainingProgress.status}
         />
       )}
+
+      {trainingProgress?.metrics && (
+        <TrainingMetrics
+          metrics={trainingProgress.metrics}
+          previous={trainingProgress.history?.[trainingProgress.history.length - 2]?.metrics}
+        />
+      )}
+
+      {modelEvaluation && (
+        <ModelEvaluation evaluation={modelEvaluation} />
+      )}
+
+      {trainingProgress?.stats && (
+        <SwapAcceptance stats={trainingProgress.stats} />
+      )}
+
+      {(trainingProgress?.history || trainingProgress?.snapshot) && (
+        <TrainingDashboard history={trainingProgress.history ?? []} snapshot={trainingProgress.snapshot} />
+      )}
+
+      {trainingProgress?.stats?.annealingTrace && (
+        <AnnealingTraceChart trace={trainingProgress.stats.annealingTrace} />
+      )}
     </div>
   );
 }
\ No newline at end of file
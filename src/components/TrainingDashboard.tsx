@@ -0,0 +1,123 @@
+import { useEffect, useRef } from 'react';
+import type { EpochStats, WeightsSnapshot } from '../types';
+import { drawImage, drawLineChart, normalizeToUnitRange } from '../utils/canvas';
+import type { ChartSeries } from '../utils/canvas';
+import { FILTERS_PAGE_SIZE } from '../constants';
+
+interface TrainingDashboardProps {
+  history: EpochStats[];
+  snapshot?: WeightsSnapshot;
+}
+
+interface DashboardChartProps {
+  title: string;
+  series: ChartSeries[];
+  yLabel: string;
+}
+
+function DashboardChart({ title, series, yLabel }: DashboardChartProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const length = Math.max(0, ...series.map(s => s.values.length));
+    drawLineChart(canvasRef.current, series, {
+      xValues: Array.from({ length }, (_, i) => i + 1),
+      xLabel: 'эпоха',
+      yLabel
+    });
+  }, [series, yLabel]);
+
+  return (
+    <div className="annealing-trace">
+      <div className="annealing-trace-title">{title}</div>
+      <canvas ref={canvasRef} width="320" height="150" />
+    </div>
+  );
+}
+
+function FilterThumbnails({ snapshot }: { snapshot: WeightsSnapshot }) {
+  const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+  const side = Math.round(Math.sqrt(snapshot.nVisible));
+  // У больших сетей миниатюры — только первая страница фильтров
+  const nShown = Math.min(snapshot.nHidden, FILTERS_PAGE_SIZE);
+
+  useEffect(() => {
+    canvasRefs.current.forEach((canvas, j) => {
+      if (!canvas) return;
+      const filter = snapshot.weights.subarray(j * snapshot.nVisible, (j + 1) * snapshot.nVisible);
+      drawImage(canvas, normalizeToUnitRange(filter), side, side);
+    });
+  }, [snapshot, side]);
+
+  return (
+    <div className="annealing-trace">
+      <div className="annealing-trace-title">
+        🧩 Фильтры во время обучения: эпоха {snapshot.epoch}, батч {snapshot.batch}
+        {nShown < snapshot.nHidden && ` (первые ${nShown} из ${snapshot.nHidden})`}
+      </div>
+      <div className="dashboard-filters">
+        {Array.from({ length: nShown }, (_, j) => (
+          <canvas
+            key={j}
+            ref={canvas => { canvasRefs.current[j] = canvas; }}
+            className="filter-canvas"
+            width={side}
+            height={side}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Живая панель обучения: графики метрик и параметров по эпохам
+ * и миниатюры фильтров, обновляемые каждые несколько батчей
+ */
+export function TrainingDashboard({ history, snapshot }: TrainingDashboardProps) {
+  const values = (pick: (stats: EpochStats) => number | undefined) =>
+    history.map(stats => pick(stats) ?? NaN);
+
+  const hasValidation = history.some(stats => stats.metrics?.validationFreeEnergy !== undefined);
+
+  return (
+    <div className="training-dashboard">
+      {history.length > 0 && (
+        <div className="dashboard-grid">
+          <DashboardChart
+            title="📉 Ошибка реконструкции"
+            yLabel="MSE"
+            series={[{ values: values(s => s.metrics?.reconstructionError), color: '#8b5cf6' }]}
+          />
+          <DashboardChart
+            title="⚡ Свободная энергия: обучающие и отложенные данные"
+            yLabel="F(v)"
+            series={[
+              { values: values(s => s.metrics?.freeEnergy), color: '#3b82f6', label: 'обучающие' },
+              ...(hasValidation
+                ? [{ values: values(s => s.metrics?.validationFreeEnergy), color: '#f59e0b', label: 'отложенные' }]
+                : [])
+            ]}
+          />
+          <DashboardChart
+            title="📐 Нормы параметров"
+            yLabel="норма"
+            series={[
+              { values: values(s => s.diagnostics?.weightNorm), color: '#ef4444', label: '‖W‖' },
+              { values: values(s => s.diagnostics?.hiddenBiasNorm), color: '#10b981', label: '‖c‖ скрытые' },
+              { values: values(s => s.diagnostics?.visibleBiasNorm), color: '#64748b', label: '‖b‖ видимые' }
+            ]}
+          />
+          <DashboardChart
+            title="💡 Средняя активация скрытых нейронов"
+            yLabel="p(h = 1)"
+            series={[{ values: values(s => s.diagnostics?.meanHiddenActivation), color: '#f97316' }]}
+          />
+        </div>
+      )}
+
+      {snapshot && <FilterThumbnails snapshot={snapshot} />}
+    </div>
+  );
+}
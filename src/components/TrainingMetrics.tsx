@@ -0,0 +1,89 @@
+import type { EpochMetrics } from '../types';
+
+interface TrainingMetricsProps {
+  metrics: EpochMetrics;
+  previous?: EpochMetrics;
+}
+
+interface MetricRow {
+  key: keyof EpochMetrics;
+  label: string;
+  tooltip: string;
+  digits: number;
+  // Направление улучшения: -1 — чем меньше, тем лучше, 1 — чем больше, 0 — без оценки
+  better: -1 | 0 | 1;
+}
+
+const METRIC_ROWS: MetricRow[] = [
+  {
+    key: 'pseudoLogLikelihood',
+    label: 'Псевдо-правдоподобие',
+    tooltip: 'Σ log p(vᵢ | остальные пиксели) на образец — оценка правдоподобия без статистической суммы Z',
+    digits: 2,
+    better: 1
+  },
+  {
+    key: 'reconstructionCrossEntropy',
+    label: 'Перекрёстная энтропия',
+    tooltip: 'Перекрёстная энтропия между образцом и вероятностями его реконструкции (нат на образец)',
+    digits: 2,
+    better: -1
+  },
+  {
+    key: 'reconstructionError',
+    label: 'MSE реконструкции',
+    tooltip: 'Средняя квадратичная ошибка реконструкции на пиксель',
+    digits: 5,
+    better: -1
+  },
+  {
+    key: 'freeEnergy',
+    label: 'Свободная энергия',
+    tooltip: 'Средняя F(v) данных: p(v) ∝ exp(−F(v)). Падение само по себе не означает улучшения — Z тоже меняется',
+    digits: 2,
+    better: 0
+  },
+  {
+    key: 'classificationError',
+    label: 'Ошибка классификации',
+    tooltip: 'Доля обучающих образцов, у которых класс с минимальной свободной энергией F(x, y) не совпадает с меткой',
+    digits: 3,
+    better: -1
+  },
+  {
+    key: 'validationFreeEnergy',
+    label: 'Свободная энергия (отложенные)',
+    tooltip: 'Средняя F(v) отложенных образцов, на которых модель не обучается: растущий разрыв с обучающими — признак переобучения',
+    digits: 2,
+    better: 0
+  }
+];
+
+export function TrainingMetrics({ metrics, previous }: TrainingMetricsProps) {
+  return (
+    <div className="training-metrics">
+      <div className="training-metrics-title">📏 Метрики качества за эпоху</div>
+      {METRIC_ROWS.map(({ key, label, tooltip, digits, better }) => {
+        const value = metrics[key];
+        // Метрика, не определённая для модели, не сообщается (или равна NaN)
+        if (value === undefined || Number.isNaN(value)) return null;
+        const rawPrevious = previous?.[key];
+        const previousValue = rawPrevious !== undefined && !Number.isNaN(rawPrevious) ? rawPrevious : undefined;
+        const delta = previousValue !== undefined ? value - previousValue : 0;
+        const trend = better === 0 || delta === 0 ? '' : Math.sign(delta) === better ? 'improving' : 'worsening';
+
+        return (
+          <div key={key} className="training-metrics-row">
+            <span className="training-metrics-label term-highlight" data-tooltip={tooltip}>{label}</span>
+            <span className="training-metrics-value">{value.toFixed(digits)}</span>
+            {previousValue !== undefined && (
+              <span className={`training-metrics-delta ${trend}`}>
+                {delta >= 0 ? '+' : ''}{delta.toFixed(digits)}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
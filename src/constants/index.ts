@@ -1,9 +1,316 @@
 // Константы для приложения
 
+import type {
+  AISSettings,
+  AnnealingSettings,
+  CDSettings,
+  ClassificationSettings,
+  ConvolutionalSettings,
+  DatasetSplit,
+  DBNSettings,
+  GeneratorSettings,
+  IDXDatasetKind,
+  IDXFormat,
+  IDXLoadOptions,
+  ImageShape,
+  NetworkSettings,
+  OptimizerSettings,
+  OptimizerType,
+  PixelTransform,
+  PreprocessingSettings,
+  PTSettings,
+  RegularizationSettings,
+  VisibleUnitsSettings
+} from '../types';
+
 // Цифра по умолчанию для образцов при обучении методом сэмплирования из равновесия
 export const DEFAULT_SAMPLE_DIGIT = 5;
 
 // Количество эпох обучения по умолчанию
 export const DEFAULT_EPOCHS = 10;
 
+// Настройки контрастивной дивергенции по умолчанию (CD-1 на вероятностях, как в исходной реализации)
+export const DEFAULT_CD_SETTINGS: CDSettings = {
+  cdSteps: 1,
+  hiddenSampling: 'mean-field',
+  visibleSampling: 'mean-field'
+};
+
+// Доступные значения k для CD-k
+export const CD_STEPS_OPTIONS = [1, 3, 5, 10];
+
+// Настройки параллельного темперирования по умолчанию
+export const DEFAULT_PT_SETTINGS: PTSettings = {
+  ptReplicas: 8,
+  ptMaxTemperature: 4,
+  ptChains: 10
+};
+
+// Доступные количества температурных реплик
+export const PT_REPLICAS_OPTIONS = [4, 6, 8, 12, 16];
+
+// Доступные максимальные температуры лестницы реплик
+export const PT_MAX_TEMPERATURE_OPTIONS = [2, 4, 8, 16];
+
+// Расписание имитации отжига для сэмплирования из равновесия по умолчанию
+export const DEFAULT_ANNEALING_SETTINGS: AnnealingSettings = {
+  annealStartTemperature: 10,
+  annealEndTemperature: 1,
+  annealSchedule: 'geometric'
+};
+
+// Доступные начальные температуры отжига (1 — без отжига)
+export const ANNEAL_START_TEMPERATURE_OPTIONS = [1, 2, 5, 10, 20];
+
+// Доступные конечные температуры отжига
+export const ANNEAL_END_TEMPERATURE_OPTIONS = [0.5, 1, 2];
+
+// Оптимизатор по умолчанию (обычный SGD, как в исходной реализации)
+export const DEFAULT_OPTIMIZER_SETTINGS: OptimizerSettings = {
+  optimizer: 'sgd',
+  momentum: 0.9,
+  momentumRamp: true
+};
+
+// Скорость обучения по умолчанию для каждого оптимизатора
+export const DEFAULT_LEARNING_RATES: Record<OptimizerType, number> = {
+  sgd: 0.06,
+  momentum: 0.01,
+  nesterov: 0.01,
+  rmsprop: 0.005,
+  adam: 0.005
+};
+
+// Верхняя граница скорости обучения для сэмплирования из равновесия:
+// оценки отрицательной фазы по одной цепи шумные
+export const EQUILIBRIUM_MAX_LEARNING_RATE = 0.01;
+
+// Размер сети по умолчанию: 784 × 64, скорость обучения — по оптимизатору, батч 32
+export const DEFAULT_NETWORK_SETTINGS: NetworkSettings = {
+  nHidden: 64,
+  learningRate: null,
+  batchSize: 32
+};
+
+// Доступные количества скрытых нейронов (не обязательно квадраты)
+export const HIDDEN_UNITS_OPTIONS = [16, 32, 64, 100, 128, 200, 256, 500, 784];
+
+// Доступные скорости обучения (кроме значения по умолчанию для оптимизатора)
+export const LEARNING_RATE_OPTIONS = [0.001, 0.005, 0.01, 0.03, 0.06, 0.1, 0.3];
+
+// Доступные размеры батча
+export const BATCH_SIZE_OPTIONS = [8, 16, 32, 64, 128];
+
+// Сколько фильтров показывается на одной странице
+export const FILTERS_PAGE_SIZE = 64;
+
+// Регуляризация по умолчанию выключена: без явного выбора обучение идёт как раньше
+export const DEFAULT_REGULARIZATION_SETTINGS: RegularizationSettings = {
+  weightDecayL1: 0,
+  weightDecayL2: 0,
+  sparsityTarget: 0.05,
+  sparsityDecay: 0.95,
+  sparsityCost: 0
+};
+
+// Доступные коэффициенты затухания весов
+export const WEIGHT_DECAY_L1_OPTIONS = [0, 0.00001, 0.0001, 0.001];
+export const WEIGHT_DECAY_L2_OPTIONS = [0, 0.0001, 0.0002, 0.001, 0.01];
+
+// Доступные параметры штрафа разреженности
+export const SPARSITY_TARGET_OPTIONS = [0.01, 0.02, 0.05, 0.1, 0.2];
+export const SPARSITY_DECAY_OPTIONS = [0.9, 0.95, 0.99];
+export const SPARSITY_COST_OPTIONS = [0, 0.01, 0.1, 0.5, 1];
+
+// Доля загруженных образцов, отложенная для оценки (на ней модель не обучается);
+// отложенные образцы делятся поровну между валидацией и тестом
+export const HELD_OUT_FRACTION = 0.1;
+
+// Форма изображений MNIST
+export const MNIST_SHAPE: ImageShape = { width: 28, height: 28 };
+
+// Подписи разделов набора данных
+export const DATASET_SPLIT_LABELS: Record<DatasetSplit, string> = {
+  train: 'обучение',
+  validation: 'валидация',
+  test: 'тест'
+};
+
+// Как часто (в батчах) обновлять миниатюры фильтров во время обучения;
+// у сэмплирования из равновесия батчи долгие и их мало — обновляем после каждого
+export const FILTER_SNAPSHOT_INTERVAL = 10;
+export const EQUILIBRIUM_FILTER_SNAPSHOT_INTERVAL = 1;
+
+// Оценка статистической суммы методом AIS: прогонов и обратных температур по умолчанию
+// (64 × 1000 для модели 784 × 64 — порядка десяти секунд)
+export const DEFAULT_AIS_SETTINGS: AISSettings = {
+  aisRuns: 64,
+  aisBetas: 1000
+};
+
+// Доступные параметры AIS: больше температур — меньше разброс весов, больше прогонов — уже интервал
+export const AIS_RUNS_OPTIONS = [16, 32, 64, 100, 200];
+export const AIS_BETAS_OPTIONS = [100, 500, 1000, 3000, 10000];
+
+// Видимый слой по умолчанию: бинарные нейроны; для гауссовских — обучаемые дисперсии,
+// начиная с σ² = 1
+export const DEFAULT_VISIBLE_UNITS_SETTINGS: VisibleUnitsSettings = {
+  visibleUnits: 'binary',
+  learnVariance: true,
+  visibleVariance: 1
+};
+
+// Доступные начальные (или постоянные) дисперсии гауссовских видимых нейронов
+export const VISIBLE_VARIANCE_OPTIONS = [0.05, 0.1, 0.25, 0.5, 1];
+
+// Количество классов (цифры 0–9) для обучения с метками
+export const DIGIT_CLASSES = 10;
+
+// Названия классов цифр (метка — сама цифра)
+export const DIGIT_CLASS_NAMES = Array.from({ length: DIGIT_CLASSES }, (_, digit) => String(digit));
+
+// По умолчанию модель обучается без меток; с метками — гибридный градиент
+// с равными весами генеративного и дискриминативного членов
+export const DEFAULT_CLASSIFICATION_SETTINGS: ClassificationSettings = {
+  nClasses: 0,
+  discriminativeWeight: 1
+};
+
+// Доступные веса дискриминативного члена: 0 — чисто генеративное обучение
+export const DISCRIMINATIVE_WEIGHT_OPTIONS = [0, 0.1, 0.5, 1, 2, 5];
+
+// Глубокая сеть доверия по умолчанию выключена; архитектура — 784-500-250-64
+export const DEFAULT_DBN_SETTINGS: DBNSettings = {
+  enabled: false,
+  layerSizes: [784, 500, 250, 64]
+};
+
+// Готовые архитектуры DBN (размеры слоёв через дефис, первый — пиксели 28 × 28)
+export const DBN_ARCHITECTURE_OPTIONS = ['784-500-250-64', '784-256-64', '784-128-32', '784-64-16'];
+
+// Шагов Гиббса в верхней RBM при генерации образца DBN
+export const DBN_GENERATION_STEPS = 200;
+
+// Свёрточная RBM по умолчанию выключена: 12 фильтров 12 × 12 и max-pooling 2 × 2
+export const DEFAULT_CONVOLUTIONAL_SETTINGS: ConvolutionalSettings = {
+  enabled: false,
+  nFilters: 12,
+  filterSize: 12,
+  poolSize: 2
+};
+
+// Доступные количества фильтров свёрточной RBM
+export const CONV_FILTER_COUNT_OPTIONS = [4, 8, 12, 16, 24];
+
+// Доступные стороны фильтров (изображение 28 × 28)
+export const CONV_FILTER_SIZE_OPTIONS = [5, 8, 10, 12, 16];
+
+// Доступные стороны блоков вероятностного max-pooling: 1 — без пулинга
+export const CONV_POOL_SIZE_OPTIONS = [1, 2, 3];
+
+// Наборы IDX: файлы лежат в public/data/<directory> (как их раздают авторы, можно в .gz)
+// или выбираются пользователем на диске. Все три набора — изображения 28 × 28
+export const IDX_DATASETS: Record<IDXDatasetKind, IDXFormat> = {
+  mnist: {
+    name: 'MNIST',
+    directory: 'mnist',
+    files: {
+      trainImages: 'train-images-idx3-ubyte.gz',
+      trainLabels: 'train-labels-idx1-ubyte.gz',
+      testImages: 't10k-images-idx3-ubyte.gz',
+      testLabels: 't10k-labels-idx1-ubyte.gz'
+    },
+    classNames: DIGIT_CLASS_NAMES,
+    transpose: false,
+    labelOffset: 0
+  },
+  'fashion-mnist': {
+    name: 'Fashion-MNIST',
+    directory: 'fashion-mnist',
+    files: {
+      trainImages: 'train-images-idx3-ubyte.gz',
+      trainLabels: 'train-labels-idx1-ubyte.gz',
+      testImages: 't10k-images-idx3-ubyte.gz',
+      testLabels: 't10k-labels-idx1-ubyte.gz'
+    },
+    classNames: ['футболка', 'брюки', 'свитер', 'платье', 'пальто', 'сандалии', 'рубашка', 'кроссовки', 'сумка', 'ботинки'],
+    transpose: false,
+    labelOffset: 0
+  },
+  'emnist-letters': {
+    name: 'EMNIST Letters',
+    directory: 'emnist',
+    files: {
+      trainImages: 'emnist-letters-train-images-idx3-ubyte.gz',
+      trainLabels: 'emnist-letters-train-labels-idx1-ubyte.gz',
+      testImages: 'emnist-letters-test-images-idx3-ubyte.gz',
+      testLabels: 'emnist-letters-test-labels-idx1-ubyte.gz'
+    },
+    classNames: Array.from({ length: 26 }, (_, k) => String.fromCharCode(65 + k)),
+    transpose: true,
+    labelOffset: 1
+  }
+};
+
+// По умолчанию из MNIST берутся 10000 обучающих и все 10000 тестовых образцов
+export const DEFAULT_IDX_LOAD_OPTIONS: IDXLoadOptions = {
+  kind: 'mnist',
+  trainLimit: 10000,
+  testLimit: 10000
+};
+
+// Доступные размеры подмножеств IDX (Infinity — вся часть набора: 60000 у MNIST, 124800 у EMNIST Letters)
+export const IDX_TRAIN_LIMIT_OPTIONS = [1000, 5000, 10000, 30000, Infinity];
+export const IDX_TEST_LIMIT_OPTIONS = [0, 1000, 5000, Infinity];
+
+// Ключ своих импортированных изображений в IndexedDB
+export const CUSTOM_DATASET_CACHE_KEY = 'custom-images';
+
+// Предобработка по умолчанию выключена: пиксели идут в модель как есть
+export const DEFAULT_PREPROCESSING_SETTINGS: PreprocessingSettings = {
+  center: false,
+  deskew: false,
+  pixelTransform: 'raw',
+  threshold: 0.5
+};
+
+// Подписи способов обработки значений пикселей
+export const PIXEL_TRANSFORM_LABELS: Record<PixelTransform, string> = {
+  raw: 'как есть, [0, 1]',
+  binarize: 'бинаризация по порогу',
+  'stochastic-binarize': 'стохастическая бинаризация (каждую эпоху)',
+  standardize: 'стандартизация по пикселям'
+};
+
+// Доступные пороги бинаризации
+export const BINARIZE_THRESHOLD_OPTIONS = [0.1, 0.3, 0.5, 0.7];
+
+// Сколько образцов показывать в превью предобработки
+export const PREPROCESSING_PREVIEW_SAMPLES = 4;
+
+// Генератор по умолчанию: умеренные искажения, по 200 образцов каждой цифры
+export const DEFAULT_GENERATOR_SETTINGS: GeneratorSettings = {
+  rotation: 10,
+  scale: 0.1,
+  shear: 0.2,
+  strokeWidth: 2.5,
+  elastic: 1,
+  noise: 0.1,
+  classCounts: Array(DIGIT_CLASSES).fill(200)
+};
+
+// Доступные значения параметров генератора
+export const GENERATOR_ROTATION_OPTIONS = [0, 5, 10, 15, 25];
+export const GENERATOR_SCALE_OPTIONS = [0, 0.1, 0.2, 0.3];
+export const GENERATOR_SHEAR_OPTIONS = [0, 0.1, 0.2, 0.4];
+export const GENERATOR_STROKE_WIDTH_OPTIONS = [1.5, 2, 2.5, 3, 4];
+export const GENERATOR_ELASTIC_OPTIONS = [0, 0.5, 1, 2, 3];
+export const GENERATOR_NOISE_OPTIONS = [0, 0.05, 0.1, 0.2, 0.3];
+
+// Наибольшее число образцов одной цифры
+export const GENERATOR_MAX_CLASS_COUNT = 1000;
+
+// Сколько образцов каждой цифры показывать в галерее генератора
+export const GENERATOR_GALLERY_SAMPLES = 8;
+
 // Другие константы можно добавить здесь по мере необходимости
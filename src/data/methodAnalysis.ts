@@ -127,3 +127,97 @@ export const equilibriumAnalysis = {
         }
     ]
 };
+
+export const pcdAnalysis = {
+    pros: [
+        {
+            icon: '🔁',
+            text: 'Цепи не перезапускаются',
+            tooltip: 'Пул «фантазийных частиц» продолжает сэмплирование Гиббса между батчами и эпохами, постепенно приближаясь к равновесию.'
+        },
+        {
+            icon: '🎯',
+            text: 'Меньшее смещение градиента',
+            tooltip: 'Отрицательная фаза оценивается по цепям, которые уже долго «живут» в модели, а не по одному шагу от данных, как в CD-1.'
+        },
+        {
+            icon: '🎲',
+            text: 'Лучшее перемешивание мод',
+            tooltip: 'Обновления весов сами «выталкивают» частицы из уже занятых мод, поэтому цепи обходят разные цифры.'
+        },
+        {
+            icon: '⚡',
+            text: 'Стоимость как у CD-1',
+            tooltip: 'Один шаг Гиббса на частицу за батч — без тысяч шагов burn-in, как в сэмплировании из равновесия.'
+        }
+    ],
+    cons: [
+        {
+            icon: '📉',
+            text: 'Чувствительность к скорости обучения',
+            tooltip: 'При большой скорости обучения модель меняется быстрее, чем цепи успевают перемешиваться, и оценка снова смещается.'
+        },
+        {
+            icon: '🧠',
+            text: 'Нужно хранить состояние цепей',
+            tooltip: 'Пул частиц — часть состояния обучения; при перезапуске он инициализируется заново.'
+        },
+        {
+            icon: '🔍',
+            text: 'Реконструкция не всегда лучше',
+            tooltip: 'PCD оптимизирует правдоподобие, а не ошибку реконструкции, поэтому MSE может быть выше, чем у CD.'
+        },
+        {
+            icon: '🌀',
+            text: 'Возможны осцилляции',
+            tooltip: 'Без затухания скорости обучения частицы и веса могут «гоняться» друг за другом.'
+        }
+    ]
+};
+
+export const ptAnalysis = {
+    pros: [
+        {
+            icon: '🌡️',
+            text: 'Перемешивание между модами',
+            tooltip: '«Горячие» реплики легко пересекают энергетические барьеры, а обмены переносят их состояния на T = 1 — цепь не застревает в одной цифре.'
+        },
+        {
+            icon: '🎲',
+            text: 'Работает на всех 10 цифрах',
+            tooltip: 'В отличие от сэмплирования из равновесия, не требует обучения на однородных данных одной цифры.'
+        },
+        {
+            icon: '📐',
+            text: 'Корректный MCMC',
+            tooltip: 'Обмены по критерию Метрополиса сохраняют распределение каждой реплики — смещение меньше, чем у CD.'
+        },
+        {
+            icon: '🔍',
+            text: 'Наблюдаемая диагностика',
+            tooltip: 'Доля принятых обменов между соседними температурами показывает, хорошо ли подобрана лестница температур.'
+        }
+    ],
+    cons: [
+        {
+            icon: '🐢',
+            text: 'Дороже CD и PCD',
+            tooltip: 'На каждом батче делается шаг Гиббса для каждой реплики каждой лестницы.'
+        },
+        {
+            icon: '⚙️',
+            text: 'Нужно подбирать температуры',
+            tooltip: 'Слишком редкая лестница — обмены почти не принимаются; слишком частая — много лишних вычислений.'
+        },
+        {
+            icon: '💾',
+            text: 'Больше состояния',
+            tooltip: 'Хранятся состояния всех реплик всех лестниц между батчами.'
+        },
+        {
+            icon: '📈',
+            text: 'Плохо масштабируется по размерности',
+            tooltip: 'С ростом числа нейронов разность энергий растёт, и для тех же долей обменов нужно больше реплик.'
+        }
+    ]
+};
@@ -1,172 +1,741 @@
-import { useState, useCallback, useRef } from 'react';
-import { BernoulliRBM } from '../ml/BernoulliRBM';
-import type { TrainingProgress, DataSource, TrainingMethod } from '../types';
-import { loadMNIST } from '../utils/mnistGenerator';
-import { loadRealMNIST } from '../utils/mnistLoader';
-import { DEFAULT_SAMPLE_DIGIT, DEFAULT_EPOCHS } from '../constants';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { BernoulliRBM } from '../ml/BernoulliRBM';
+import { createRBM, loadRBMFromLocalStorage, rbmFromJSON } from '../ml/rbmFactory';
+import { RBMTrainer } from '../ml/RBMTrainer';
+import { AISEstimator } from '../ml/AISEstimator';
+import { ClassificationRBM } from '../ml/ClassificationRBM';
+import { DeepBeliefNetwork } from '../ml/DeepBeliefNetwork';
+import { ConvolutionalRBM } from '../ml/ConvolutionalRBM';
+import { PauseController } from '../ml/PauseController';
+import { PreprocessingPipeline } from '../ml/Preprocessing';
+import type {
+  TrainingProgress,
+  DataSource,
+  TrainingMethod,
+  CDSettings,
+  PTSettings,
+  AnnealingSettings,
+  OptimizerSettings,
+  RegularizationSettings,
+  VisibleUnitsSettings,
+  ClassificationSettings,
+  NetworkSettings,
+  DBNSettings,
+  ConvolutionalSettings,
+  Dataset,
+  IDXLoadOptions,
+  ImageEntry,
+  LoadProgress,
+  LabeledData,
+  EpochStats,
+  RunManifest,
+  WeightsSnapshot,
+  AISSettings,
+  LogLikelihoodEstimate,
+  PreprocessingSettings,
+  GeneratorSettings
+} from '../types';
+import { evenClassCounts, loadGeneratedDataset } from '../utils/mnistGenerator';
+import { loadMNISTDataset } from '../utils/mnistLoader';
+import { loadIDXDataset } from '../utils/idxLoader';
+import { collectImageEntries, importImageDataset } from '../utils/imageImport';
+import { deleteCachedDataset, loadCachedDataset, saveCachedDataset } from '../utils/datasetCache';
+import { filterByLabel, getSplit } from '../utils/dataset';
+import { Random } from '../utils/random';
+import {
+  DATA_RANDOM_STREAM,
+  PREPROCESSING_RANDOM_STREAM,
+  downloadRunManifest,
+  hashFloat32Arrays,
+  hashModelWeights,
+  parseRunManifest
+} from '../utils/manifest';
+import {
+  DEFAULT_SAMPLE_DIGIT,
+  DEFAULT_EPOCHS,
+  DEFAULT_CD_SETTINGS,
+  DEFAULT_PT_SETTINGS,
+  DEFAULT_ANNEALING_SETTINGS,
+  DEFAULT_OPTIMIZER_SETTINGS,
+  DEFAULT_LEARNING_RATES,
+  DEFAULT_NETWORK_SETTINGS,
+  EQUILIBRIUM_MAX_LEARNING_RATE,
+  DEFAULT_REGULARIZATION_SETTINGS,
+  DEFAULT_VISIBLE_UNITS_SETTINGS,
+  DEFAULT_CLASSIFICATION_SETTINGS,
+  DEFAULT_DBN_SETTINGS,
+  DEFAULT_CONVOLUTIONAL_SETTINGS,
+  FILTER_SNAPSHOT_INTERVAL,
+  EQUILIBRIUM_FILTER_SNAPSHOT_INTERVAL,
+  DEFAULT_AIS_SETTINGS,
+  MNIST_SHAPE,
+  CUSTOM_DATASET_CACHE_KEY,
+  DEFAULT_PREPROCESSING_SETTINGS,
+  DEFAULT_GENERATOR_SETTINGS
+} from '../constants';
+
+/**
+ * Загружает обучающие данные для метода обучения
+ * @param dataSource - источник данных
+ * @param trainingMethod - метод обучения (для сэмплирования из равновесия — одна цифра)
+ * @param selectedDigit - цифра для сэмплирования из равновесия
+ * @param random - генератор случайных чисел для синтетических данных
+ * @param importedDatasets - наборы, загруженные ранее из файлов пользователя (IDX, свои
+ * изображения): файлы выбирает пользователь, поэтому они не перезагружаются
+ * @param generatorSettings - искажения и количество образцов синтетических цифр
+ * @returns набор данных с метками и разделами train / validation / test
+ */
+async function loadDataset(
+  dataSource: DataSource,
+  trainingMethod: TrainingMethod,
+  selectedDigit: number,
+  random: Random,
+  importedDatasets: Partial<Record<DataSource, Dataset>>,
+  generatorSettings: GeneratorSettings
+): Promise<Dataset> {
+  let data: Dataset;
+  // Для сэмплирования из равновесия генерируются 20 образцов выбранной цифры
+  const equilibriumGenerator = { ...generatorSettings, classCounts: evenClassCounts(20, [selectedDigit]) };
+
+  if (dataSource === 'idx' || dataSource === 'custom') {
+    const imported = importedDatasets[dataSource];
+    if (!imported) {
+      throw new Error(dataSource === 'idx' ? 'Набор IDX ещё не загружен' : 'Изображения ещё не импортированы');
+    }
+    // Для сэмплирования из равновесия номер цифры — номер класса набора
+    data = trainingMethod === 'equilibrium' ? filterByLabel(imported, selectedDigit, 20) : imported;
+  } else if (dataSource === 'mnist') {
+    try {
+      if (trainingMethod === 'equilibrium') {
+        // Для equilibrium sampling отбираем конкретную цифру из MNIST
+        console.log(`📊 Загружаем реальные данные MNIST для цифры: ${selectedDigit}`);
+        const mnistDataset = await loadMNISTDataset(random);
+
+        // Фильтруем данные только для выбранной цифры, берем первые 20 образцов
+        data = filterByLabel(mnistDataset, selectedDigit, 20);
+        console.log(`✅ Отфильтровано ${data.images.length} образцов цифры ${selectedDigit} из реальных данных MNIST`);
+      } else {
+        // Для CD используем все данные MNIST
+        console.log(`📊 Загружаем все реальные данные MNIST для CD`);
+        data = await loadMNISTDataset(random);
+      }
+    } catch (error) {
+      console.error('Переключение на сгенерированные данные из-за ошибки:', error);
+      data = await loadGeneratedDataset(trainingMethod === 'equilibrium' ? equilibriumGenerator : generatorSettings, random);
+    }
+  } else {
+    if (trainingMethod === 'equilibrium') {
+      console.log(`📊 Загружаем сгенерированные данные для цифры: ${selectedDigit}`);
+      data = await loadGeneratedDataset(equilibriumGenerator, random);
+    } else {
+      console.log(`📊 Загружаем все сгенерированные данные для CD`);
+      data = await loadGeneratedDataset(generatorSettings, random);
+    }
+  }
+
+  return data;
+}
 
 export function useRBM() {
   const [rbm, setRBM] = useState<BernoulliRBM | null>(null);
-  const [mnistData, setMnistData] = useState<Float32Array[] | null>(null);
+  const [dbn, setDBN] = useState<DeepBeliefNetwork | null>(null);
+  const [convRBM, setConvRBM] = useState<ConvolutionalRBM | null>(null);
+  const [dataset, setDataset] = useState<Dataset | null>(null);
+  const [importedDatasets, setImportedDatasets] = useState<Partial<Record<DataSource, Dataset>>>({});
+  const [isLoadingData, setIsLoadingData] = useState(false);
   const [_trainingData, setTrainingData] = useState<Float32Array[] | null>(null);
   const [isTraining, setIsTraining] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [trainingProgress, setTrainingProgress] = useState<TrainingProgress | null>(null);
   const [dataSource, setDataSource] = useState<DataSource>('generated');
   const [trainingMethod, setTrainingMethod] = useState<TrainingMethod>('contrastive-divergence');
   const [selectedDigit, setSelectedDigit] = useState(DEFAULT_SAMPLE_DIGIT);
   const [epochs, setEpochs] = useState(DEFAULT_EPOCHS);
+  const [networkSettings, setNetworkSettings] = useState<NetworkSettings>(DEFAULT_NETWORK_SETTINGS);
+  const [cdSettings, setCDSettings] = useState<CDSettings>(DEFAULT_CD_SETTINGS);
+  const [ptSettings, setPTSettings] = useState<PTSettings>(DEFAULT_PT_SETTINGS);
+  const [annealingSettings, setAnnealingSettings] = useState<AnnealingSettings>(DEFAULT_ANNEALING_SETTINGS);
+  const [optimizerSettings, setOptimizerSettings] = useState<OptimizerSettings>(DEFAULT_OPTIMIZER_SETTINGS);
+  const [regularizationSettings, setRegularizationSettings] = useState<RegularizationSettings>(DEFAULT_REGULARIZATION_SETTINGS);
+  const [visibleUnitsSettings, setVisibleUnitsSettings] = useState<VisibleUnitsSettings>(DEFAULT_VISIBLE_UNITS_SETTINGS);
+  const [classificationSettings, setClassificationSettings] = useState<ClassificationSettings>(DEFAULT_CLASSIFICATION_SETTINGS);
+  const [dbnSettings, setDBNSettings] = useState<DBNSettings>(DEFAULT_DBN_SETTINGS);
+  const [convSettings, setConvSettings] = useState<ConvolutionalSettings>(DEFAULT_CONVOLUTIONAL_SETTINGS);
+  const [preprocessingSettings, setPreprocessingSettings] = useState<PreprocessingSettings>(DEFAULT_PREPROCESSING_SETTINGS);
+  const [generatorSettings, setGeneratorSettings] = useState<GeneratorSettings>(DEFAULT_GENERATOR_SETTINGS);
+  // Конвейер предобработки, с которым обучена текущая модель
+  const [pipeline, setPipeline] = useState<PreprocessingPipeline | null>(null);
+  const [seed, setSeed] = useState<number | null>(null);
+  const [lastManifest, setLastManifest] = useState<RunManifest | null>(null);
+  const [aisSettings, setAISSettings] = useState<AISSettings>(DEFAULT_AIS_SETTINGS);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [modelEvaluation, setModelEvaluation] = useState<LogLikelihoodEstimate | null>(null);
 
   const abortController = useRef<AbortController | null>(null);
+  const trainer = useRef<RBMTrainer | null>(null);
+  // Пауза обучения в основном потоке (свёрточная RBM обучается без воркера)
+  const pauseController = useRef<PauseController | null>(null);
 
   const loadData = useCallback(async (forceReload = false) => {
-    if (!mnistData || forceReload) {
-      let data: Float32Array[];
-
-      if (dataSource === 'mnist') {
-        try {
-          if (trainingMethod === 'equilibrium') {
-            // Для equilibrium sampling отбираем конкретную цифру из MNIST
-            console.log(`📊 Загружаем реальные данные MNIST для цифры: ${selectedDigit}`);
-            const { loadRealMNIST, getMNISTLabels } = await import('../utils/mnistLoader');
-            const [mnistData, labels] = await Promise.all([
-              loadRealMNIST(),
-              getMNISTLabels()
-            ]);
-
-            // Фильтруем данные только для выбранной цифры
-            const filteredData = mnistData.filter((_, index) => labels[index] === selectedDigit);
-            data = filteredData.slice(0, 20); // Берем первые 20 образцов
-            console.log(`✅ Отфильтровано ${data.length} образцов цифры ${selectedDigit} из реальных данных MNIST`);
-          } else {
-            // Для CD используем все данные MNIST
-            console.log(`📊 Загружаем все реальные данные MNIST для CD`);
-            data = await loadRealMNIST();
-          }
-        } catch (error) {
-          console.error('Переключение на сгенерированные данные из-за ошибки:', error);
-          if (trainingMethod === 'equilibrium') {
-            data = await loadMNIST(20, [selectedDigit]);
-          } else {
-            data = await loadMNIST();
-          }
-        }
-      } else {
-        if (trainingMethod === 'equilibrium') {
-          console.log(`📊 Загружаем сгенерированные данные для цифры: ${selectedDigit}`);
-          data = await loadMNIST(20, [selectedDigit]);
-        } else {
-          console.log(`📊 Загружаем все сгенерированные данные для CD`);
-          data = await loadMNIST();
-        }
+    if (!dataset || forceReload) {
+      const data = await loadDataset(dataSource, trainingMethod, selectedDigit, new Random(), importedDatasets, generatorSettings);
+      setDataset(data);
+      return data;
+    }
+    return dataset;
+  }, [dataset, dataSource, trainingMethod, selectedDigit, importedDatasets, generatorSettings]);
+
+  // Свои изображения, импортированные раньше, восстанавливаются из IndexedDB
+  useEffect(() => {
+    loadCachedDataset(CUSTOM_DATASET_CACHE_KEY).then(cached => {
+      if (cached) {
+        console.log(`✅ Из IndexedDB восстановлен набор: ${cached.source.description}`);
+        setImportedDatasets(prev => ({ ...prev, custom: prev.custom ?? cached }));
       }
+    });
+  }, []);
+
+  // Наборы из файлов пользователя загружаются один раз и дальше служат источником данных
+  const loadFileDataset = useCallback(async (
+    source: DataSource,
+    load: (onProgress: (progress: LoadProgress) => void) => Promise<Dataset>
+  ) => {
+    if (isTraining || isEvaluating || isLoadingData) return;
+    setIsLoadingData(true);
+
+    try {
+      const data = await load(progress => {
+        setTrainingProgress({
+          epoch: 0,
+          totalEpochs: 0,
+          progress: progress.fraction * 100,
+          status: `${progress.status}... ${Math.round(progress.fraction * 100)}%`
+        });
+      });
+      setImportedDatasets(prev => ({ ...prev, [source]: data }));
+      setDataset(data);
+      setDataSource(source);
+      setTrainingProgress({ epoch: 0, totalEpochs: 0, progress: 100, status: `Загружено: ${data.source.description}` });
+    } catch (error) {
+      console.error('❌ Ошибка загрузки данных:', error);
+      setTrainingProgress({
+        epoch: 0,
+        totalEpochs: 0,
+        progress: 0,
+        status: error instanceof Error ? error.message : 'Не удалось загрузить данные'
+      });
+    } finally {
+      setIsLoadingData(false);
+      setTimeout(() => setTrainingProgress(null), 2000);
+    }
+  }, [isTraining, isEvaluating, isLoadingData]);
+
+  // Загрузка набора IDX из public/data или из выбранных файлов
+  const loadIDX = useCallback((options: IDXLoadOptions, files?: File[]) => {
+    console.log(`📦 Загрузка набора IDX: ${options.kind}, ${files ? `файлов: ${files.length}` : 'из public/data'}`);
+    return loadFileDataset('idx', onProgress => loadIDXDataset(options, onProgress, files));
+  }, [loadFileDataset]);
 
-      setMnistData(data);
+  // Импорт своих изображений (папка, файлы или архив ZIP) с сохранением в IndexedDB
+  const importImages = useCallback((entries: ImageEntry[]) => {
+    console.log(`🖼️ Импорт своих изображений: выбрано файлов ${entries.length}`);
+    return loadFileDataset('custom', async onProgress => {
+      const data = await importImageDataset(await collectImageEntries(entries), MNIST_SHAPE, onProgress);
+      try {
+        await saveCachedDataset(CUSTOM_DATASET_CACHE_KEY, data);
+      } catch (e) {
+        console.error('❌ Не удалось сохранить изображения в IndexedDB:', e);
+      }
       return data;
+    });
+  }, [loadFileDataset]);
+
+  const clearImportedImages = useCallback(async () => {
+    try {
+      await deleteCachedDataset(CUSTOM_DATASET_CACHE_KEY);
+    } catch (e) {
+      console.error('❌ Не удалось удалить изображения из IndexedDB:', e);
+    }
+    console.log('🗑️ Свои изображения удалены');
+    setImportedDatasets(prev => ({ ...prev, custom: undefined }));
+    if (dataSource === 'custom') {
+      setDataset(null);
     }
-    return mnistData;
-  }, [mnistData, dataSource, trainingMethod, selectedDigit]);
+  }, [dataSource]);
+
+  const runTraining = useCallback(async (resume: boolean, manifest?: RunManifest) => {
+    console.log(manifest
+      ? `🎬 Повторяем запуск по манифесту (seed ${manifest.seed}, метод ${manifest.trainingMethod})`
+      : resume
+        ? `🎬 Продолжаем обучение модели (${rbm?.getTrainingMethod()})`
+        : `🎬 Начинаем обучение. Текущий метод: ${trainingMethod}`);
+    if (isTraining || isEvaluating || isLoadingData) return;
 
-  const trainNetwork = useCallback(async () => {
-    console.log(`🎬 Начинаем обучение. Текущий метод: ${trainingMethod}`);
-    if (isTraining) return;
+    // Условия запуска берутся из манифеста, если он передан, иначе из текущих настроек.
+    // Продолжаемая модель сериализуется целиком, чтобы манифест мог её восстановить
+    const runSeed = manifest?.seed ?? seed ?? Random.randomSeed();
+    const initialModel = manifest ? manifest.initialModel : resume && rbm ? rbm.toJSON() : undefined;
+    const runMethod = manifest?.trainingMethod ?? initialModel?.trainingMethod ?? trainingMethod;
+    const runDataSource = manifest?.dataSource ?? dataSource;
+    const runDigit = manifest?.selectedDigit ?? selectedDigit;
+    const runEpochs = manifest?.epochs ?? epochs;
+    // Старые манифесты записаны до настроек генератора — для них берутся настройки по умолчанию
+    const runGenerator = manifest ? manifest.generator ?? DEFAULT_GENERATOR_SETTINGS : generatorSettings;
 
     setIsTraining(true);
+    setModelEvaluation(null);
     abortController.current = new AbortController();
 
     try {
       setTrainingProgress({
         epoch: 0,
-        totalEpochs: epochs,
+        totalEpochs: runEpochs,
         progress: 0,
         status: 'Загрузка данных...'
       });
 
-      const fullData = await loadData(true); // Принудительная перезагрузка при смене источника
+      // Данные перезагружаются при каждом запуске; синтетические зависят только от seed запуска
+      const runDataset = await loadDataset(runDataSource, runMethod, runDigit, new Random(Random.deriveSeed(runSeed, DATA_RANDOM_STREAM)), importedDatasets, runGenerator);
+      setDataset(runDataset);
 
       if (abortController.current?.signal.aborted) return;
 
-      // Используем данные в зависимости от метода
-      let trainingData: Float32Array[] = fullData;
-      if (trainingMethod === 'equilibrium') {
-        console.log(`❄️ Equilibrium sampling: используем ${trainingData.length} образцов цифры ${selectedDigit}`);
+      // Предобработка: продолжаемая модель сохраняет свой конвейер, повтор запуска берёт
+      // настройки из манифеста (старые манифесты — без предобработки). Средние для
+      // стандартизации считаются по train. При стохастической бинаризации модель получает
+      // вероятности пикселей, а бинарный образец сэмплируется заново в каждой эпохе
+      const runPipeline = resume && !manifest && pipeline
+        ? pipeline
+        : new PreprocessingPipeline(
+          manifest ? manifest.preprocessing ?? DEFAULT_PREPROCESSING_SETTINGS : preprocessingSettings,
+          runDataset.shape,
+          Random.deriveSeed(runSeed, PREPROCESSING_RANDOM_STREAM)
+        ).fit(getSplit(runDataset, 'train').images);
+      const resampleBinarized = runPipeline.resamplesEachEpoch();
+      const modelDataset = runPipeline.transformDataset(runDataset, !resampleBinarized);
+      if (!runPipeline.isIdentity()) {
+        console.log(`🧼 Предобработка: ${runPipeline.describe()}`);
+      }
+
+      // Модель обучается на разделе train; на validation считается свободная энергия
+      // для сравнения с обучающими, test остаётся для итоговой оценки
+      const trainingData = getSplit(modelDataset, 'train').images;
+      const heldOutData = getSplit(modelDataset, 'validation').images;
+      if (runMethod === 'equilibrium') {
+        console.log(`❄️ Equilibrium sampling: используем ${trainingData.length} образцов цифры ${runDigit}, отжиг T: ${annealingSettings.annealStartTemperature} → ${annealingSettings.annealEndTemperature} (${annealingSettings.annealSchedule})`);
+      } else if (runMethod === 'parallel-tempering') {
+        console.log(`🌡️ Parallel Tempering (${ptSettings.ptReplicas} реплик, Tmax = ${ptSettings.ptMaxTemperature}): используем ${trainingData.length} образцов всех цифр`);
+      } else if (runMethod === 'persistent-cd') {
+        console.log(`🔁 Persistent CD-${cdSettings.cdSteps}: используем ${trainingData.length} образцов`);
       } else {
-        console.log(`⚡ Contrastive Divergence: используем ${trainingData.length} образцов`);
+        console.log(`⚡ Contrastive Divergence CD-${cdSettings.cdSteps}: используем ${trainingData.length} образцов`);
       }
 
       setTrainingData(trainingData);
 
+      // Скорость по умолчанию зависит от оптимизатора; для equilibrium оценки отрицательной
+      // фазы шумные — ограничиваем её. Явно заданная скорость используется как есть
+      const { nHidden, batchSize } = networkSettings;
+      const baseLearningRate = DEFAULT_LEARNING_RATES[optimizerSettings.optimizer];
+      const learningRate = networkSettings.learningRate ?? (runMethod === 'equilibrium'
+        ? Math.min(baseLearningRate, EQUILIBRIUM_MAX_LEARNING_RATE)
+        : baseLearningRate);
+
+      // Глубокая сеть доверия: RBM стека обучаются по очереди, каждая — в воркере,
+      // на скрытых вероятностях предыдущей. Манифест запуска для стека не записывается
+      if (!manifest && !resume && dbnSettings.enabled) {
+        const { layerSizes } = dbnSettings;
+        const nLayers = layerSizes.length - 1;
+        console.log(`🧱 Глубокая сеть доверия ${layerSizes.join('-')}: ${nLayers} RBM по ${runEpochs} эпох, оптимизатор: ${optimizerSettings.optimizer}, скорость обучения: ${learningRate}`);
+        const network = new DeepBeliefNetwork({
+          layerSizes,
+          learningRate,
+          batchSize,
+          trainingMethod,
+          ...cdSettings,
+          ...ptSettings,
+          ...annealingSettings,
+          ...optimizerSettings,
+          ...regularizationSettings,
+          seed: runSeed
+        });
+
+        const { signal } = abortController.current;
+        let layerHeldOut = heldOutData;
+        let lastProgress: TrainingProgress = { epoch: 0, totalEpochs: runEpochs, progress: 10, status: '' };
+        const stopped = await network.fit(modelDataset, async (layerRBM, layerData, layer) => {
+          const history: EpochStats[] = [];
+          let lastSnapshot: WeightsSnapshot | undefined;
+          trainer.current = new RBMTrainer();
+          const { rbm: trainedLayer } = await trainer.current.train(layerRBM, layerData, runEpochs, (epoch, totalEpochs, stats) => {
+            if (stats) history.push(stats);
+            lastProgress = {
+              epoch,
+              totalEpochs,
+              progress: 10 + ((layer + epoch / totalEpochs) / nLayers) * 90,
+              status: `Обучение слоя ${layer + 1}/${nLayers} (${layerSizes[layer]} → ${layerSizes[layer + 1]})... Эпоха ${epoch}/${totalEpochs}`,
+              stats,
+              metrics: stats?.metrics,
+              history: history.slice(),
+              snapshot: lastSnapshot
+            };
+            setTrainingProgress(lastProgress);
+          }, signal, {
+            validationData: layerHeldOut,
+            // Бинарный образец пикселей сэмплируется только на входе первого слоя
+            resampleBinarized: resampleBinarized && layer === 0,
+            snapshotInterval: runMethod === 'equilibrium' ? EQUILIBRIUM_FILTER_SNAPSHOT_INTERVAL : FILTER_SNAPSHOT_INTERVAL,
+            // Снимки фильтров в пикселях есть только у первого слоя
+            onSnapshot: layer === 0
+              ? snapshot => {
+                lastSnapshot = snapshot;
+                setTrainingProgress(prev => prev && { ...prev, snapshot });
+              }
+              : undefined
+          });
+          layerHeldOut = trainedLayer.hiddenProbabilities(layerHeldOut);
+          return trainedLayer;
+        }, signal);
+
+        // Остальные режимы показывают первый слой стека как обычную RBM
+        setDBN(network);
+        setRBM(network.getLayer(0));
+        setConvRBM(null);
+        setPipeline(runPipeline);
+        setLastManifest(null);
+        setTrainingProgress(stopped
+          ? { ...lastProgress, status: `Обучение DBN остановлено: ${lastProgress.status}` }
+          : {
+            epoch: runEpochs,
+            totalEpochs: runEpochs,
+            progress: 100,
+            status: 'Обучение DBN завершено!',
+            metrics: lastProgress.metrics
+          });
+        return;
+      }
+
+      // Свёрточная RBM обучается в основном потоке (воркер умеет только BernoulliRBM)
+      // и показывается вместо обычной; манифест запуска для неё не записывается
+      if (!manifest && !resume && convSettings.enabled) {
+        const { nFilters, filterSize, poolSize } = convSettings;
+        // Свёрточная RBM не пересэмплирует вход: бинарный образец берётся один раз
+        const convDataset = resampleBinarized ? runPipeline.transformDataset(runDataset) : modelDataset;
+        // Градиент свёрточной RBM усреднён по позициям, поэтому её скорость по умолчанию своя
+        const model = new ConvolutionalRBM({
+          imageSize: 28,
+          nFilters,
+          filterSize,
+          poolSize,
+          learningRate: networkSettings.learningRate ?? undefined,
+          batchSize,
+          seed: runSeed
+        });
+        const history: EpochStats[] = [];
+        let lastProgress: TrainingProgress = { epoch: 0, totalEpochs: runEpochs, progress: 10, status: '' };
+        pauseController.current = new PauseController();
+        const stopped = await model.fit(convDataset, runEpochs, (epoch, totalEpochs, stats) => {
+          if (stats) history.push(stats);
+          lastProgress = {
+            epoch,
+            totalEpochs,
+            progress: 10 + (epoch / totalEpochs) * 90,
+            status: `Обучение свёрточной RBM... Эпоха ${epoch}/${totalEpochs}`,
+            stats,
+            metrics: stats?.metrics,
+            history: history.slice()
+          };
+          setTrainingProgress(lastProgress);
+        }, abortController.current.signal, pauseController.current);
+
+        setConvRBM(model);
+        setRBM(null);
+        setDBN(null);
+        setPipeline(runPipeline);
+        setLastManifest(null);
+        setTrainingProgress(stopped
+          ? { ...lastProgress, status: `Обучение остановлено после эпохи ${lastProgress.epoch}/${lastProgress.totalEpochs}` }
+          : {
+            epoch: runEpochs,
+            totalEpochs: runEpochs,
+            progress: 100,
+            status: 'Обучение свёрточной RBM завершено!',
+            metrics: lastProgress.metrics
+          });
+        return;
+      }
+
+      const datasetHash = hashFloat32Arrays(runDataset.images);
+      if (manifest && manifest.datasetHash !== datasetHash) {
+        console.warn(`⚠️ Данные отличаются от записанных в манифесте (${datasetHash} ≠ ${manifest.datasetHash}): результат не совпадёт`);
+      }
+
       setTrainingProgress({
         epoch: 0,
-        totalEpochs: epochs,
+        totalEpochs: runEpochs,
         progress: 10,
         status: 'Инициализация RBM...'
       });
 
-      console.log(`🎯 Создаем RBM с методом обучения: ${trainingMethod}`);
-      const newRBM = new BernoulliRBM({
-        nVisible: 784,
-        nHidden: 64,
-        learningRate: 0.06,
-        batchSize: 32,
-        trainingMethod: trainingMethod
-      });
+      let newRBM: BernoulliRBM;
+      if (initialModel) {
+        // Копия модели вместе с состоянием оптимизатора и генератора: обучение продолжается с того же места
+        console.log(`🔁 Продолжаем обучение: оптимизатор ${initialModel.optimizer}`);
+        newRBM = rbmFromJSON(initialModel);
+      } else if (manifest) {
+        newRBM = createRBM(manifest.params);
+      } else {
+        console.log(`🎯 Создаем RBM 784 × ${nHidden} с методом обучения: ${trainingMethod}, видимые нейроны: ${visibleUnitsSettings.visibleUnits}, оптимизатор: ${optimizerSettings.optimizer}, скорость обучения: ${learningRate}, батч: ${batchSize}`);
+        newRBM = createRBM({
+          nVisible: 784,
+          nHidden,
+          learningRate,
+          batchSize,
+          trainingMethod: trainingMethod,
+          ...cdSettings,
+          ...ptSettings,
+          ...annealingSettings,
+          ...optimizerSettings,
+          ...regularizationSettings,
+          ...visibleUnitsSettings,
+          // Метки — только для бинарных видимых нейронов; классов столько, сколько в наборе
+          nClasses: visibleUnitsSettings.visibleUnits === 'gaussian' || classificationSettings.nClasses === 0
+            ? 0
+            : runDataset.source.classNames.length,
+          discriminativeWeight: classificationSettings.discriminativeWeight,
+          seed: runSeed
+        });
+      }
 
-      if (abortController.current?.signal.aborted) return;
+      // Классификационная RBM сама склеивает образцы набора с one-hot метками (encodeData)
+      if (newRBM instanceof ClassificationRBM) {
+        console.log(`🏷️ Обучение с метками: ${newRBM.getNClasses()} классов, вес дискриминативного члена ${classificationSettings.discriminativeWeight}`);
+      }
+
+      const runManifest: RunManifest = {
+        version: 1,
+        seed: runSeed,
+        params: newRBM.getParams(),
+        trainingMethod: runMethod,
+        epochs: runEpochs,
+        dataSource: runDataSource,
+        selectedDigit: runDigit,
+        nSamples: runDataset.images.length,
+        datasetHash,
+        preprocessing: runPipeline.getSettings(),
+        generator: runDataSource === 'idx' || runDataSource === 'custom' ? undefined : runGenerator,
+        initialModel,
+        createdAt: new Date().toISOString()
+      };
+      console.log(`🎲 Seed запуска: ${runSeed}, хеш данных: ${datasetHash}`);
 
-      // Используем настройку количества эпох
-      await newRBM.fit(trainingData, epochs, (epoch, totalEpochs) => {
-        if (abortController.current?.signal.aborted) return;
+      if (abortController.current?.signal.aborted) return;
 
+      // Используем настройку количества эпох; обучение идёт в воркере, если он доступен
+      const history: EpochStats[] = [];
+      let lastProgress: TrainingProgress = { epoch: 0, totalEpochs: runEpochs, progress: 10, status: '' };
+      let lastSnapshot: WeightsSnapshot | undefined;
+      trainer.current = new RBMTrainer();
+      const { rbm: trainedRBM, stopped } = await trainer.current.train(newRBM, modelDataset, runEpochs, (epoch, totalEpochs, stats) => {
+        if (stats) history.push(stats);
         const progress = 10 + (epoch / totalEpochs) * 90;
-        setTrainingProgress({
+        lastProgress = {
           epoch,
           totalEpochs,
           progress,
-          status: `Обучение сети... Эпоха ${epoch}/${totalEpochs}`
-        });
+          status: `Обучение сети... Эпоха ${epoch}/${totalEpochs}`,
+          stats,
+          metrics: stats?.metrics,
+          history: history.slice(),
+          snapshot: lastSnapshot
+        };
+        setTrainingProgress(lastProgress);
+      }, abortController.current.signal, {
+        snapshotInterval: runMethod === 'equilibrium' ? EQUILIBRIUM_FILTER_SNAPSHOT_INTERVAL : FILTER_SNAPSHOT_INTERVAL,
+        resampleBinarized,
+        onSnapshot: snapshot => {
+          lastSnapshot = snapshot;
+          setTrainingProgress(prev => prev && { ...prev, snapshot });
+        }
       });
 
-      if (abortController.current?.signal.aborted) return;
-
-      setRBM(newRBM);
+      // После остановки остаётся частично обученная модель — её можно смотреть и дообучать
+      setRBM(trainedRBM);
+      setDBN(null);
+      setConvRBM(null);
+      setPipeline(runPipeline);
 
+      // Конвейер сохраняется вместе с весами: без него загруженная модель получала бы необработанные образцы
       const saveWeights = localStorage.getItem('rbm_save_weights') !== 'false';
       if (saveWeights) {
-        newRBM.saveToLocalStorage();
+        trainedRBM.saveToLocalStorage();
+        runPipeline.saveToLocalStorage();
       }
 
-      setTrainingProgress({
-        epoch: epochs,
-        totalEpochs: epochs,
-        progress: 100,
-        status: 'Обучение завершено!'
-      });
+      runManifest.weightsHash = hashModelWeights(trainedRBM);
+      runManifest.stopped = stopped;
+      setLastManifest(runManifest);
+      console.log(`🧾 Манифест запуска готов, хеш весов: ${runManifest.weightsHash}`);
+
+      // Запуск по манифесту сверяется с записанным результатом (если исходный запуск не прерывали)
+      let completedStatus = 'Обучение завершено!';
+      if (manifest?.weightsHash && !manifest.stopped) {
+        const reproduced = manifest.weightsHash === runManifest.weightsHash;
+        console.log(reproduced
+          ? '✅ Запуск воспроизведён бит в бит'
+          : `⚠️ Веса отличаются от манифеста: ${runManifest.weightsHash} ≠ ${manifest.weightsHash}`);
+        completedStatus = reproduced
+          ? 'Запуск воспроизведён бит в бит'
+          : 'Обучение завершено, но веса отличаются от манифеста';
+      }
+
+      setTrainingProgress(stopped
+        ? {
+          ...lastProgress,
+          status: `Обучение остановлено после эпохи ${lastProgress.epoch}/${lastProgress.totalEpochs}`
+        }
+        : {
+          epoch: runEpochs,
+          totalEpochs: runEpochs,
+          progress: 100,
+          status: completedStatus,
+          metrics: lastProgress.metrics
+        });
 
     } catch (error) {
       console.error('Ошибка обучения:', error);
       setTrainingProgress({
         epoch: 0,
-        totalEpochs: epochs,
+        totalEpochs: runEpochs,
         progress: 0,
         status: 'Ошибка обучения'
       });
     } finally {
+      trainer.current = null;
+      pauseController.current = null;
       setIsTraining(false);
+      setIsPaused(false);
+      setTimeout(() => setTrainingProgress(null), 2000);
+    }
+  }, [
+    isTraining,
+    isEvaluating,
+    isLoadingData,
+    rbm,
+    pipeline,
+    seed,
+    dataSource,
+    importedDatasets,
+    trainingMethod,
+    selectedDigit,
+    epochs,
+    networkSettings,
+    cdSettings,
+    ptSettings,
+    annealingSettings,
+    optimizerSettings,
+    regularizationSettings,
+    visibleUnitsSettings,
+    classificationSettings,
+    dbnSettings,
+    convSettings,
+    preprocessingSettings,
+    generatorSettings
+  ]);
+
+  const trainNetwork = useCallback(() => runTraining(false), [runTraining]);
+
+  const continueTraining = useCallback(() => runTraining(true), [runTraining]);
+
+  // Повтор запуска: файл манифеста задаёт все условия обучения, включая seed
+  const replayManifest = useCallback(async (file: File) => {
+    try {
+      const manifest = parseRunManifest(await file.text());
+      await runTraining(false, manifest);
+    } catch (error) {
+      console.error('❌ Ошибка загрузки манифеста:', error);
+      setTrainingProgress({
+        epoch: 0,
+        totalEpochs: 0,
+        progress: 0,
+        status: 'Не удалось прочитать манифест запуска'
+      });
+      setTimeout(() => setTrainingProgress(null), 2000);
+    }
+  }, [runTraining]);
+
+  const downloadManifest = useCallback(() => {
+    if (lastManifest) {
+      downloadRunManifest(lastManifest);
+    }
+  }, [lastManifest]);
+
+  // Оценка модели: log Z методом AIS и средний log p(v) на отложенных образцах
+  const evaluateModel = useCallback(async () => {
+    if (!rbm || isTraining || isEvaluating) return;
+
+    setIsEvaluating(true);
+    setModelEvaluation(null);
+    abortController.current = new AbortController();
+    const { signal } = abortController.current;
+
+    try {
+      setTrainingProgress({ epoch: 0, totalEpochs: 0, progress: 0, status: 'Загрузка данных...' });
+      const rawData = await loadData();
+      const data = pipeline ? pipeline.transformDataset(rawData) : rawData;
+
+      // Те же разделы, что и при обучении: базовая модель строится по train,
+      // правдоподобие считается на test
+      const baseData = getSplit(data, 'train').images;
+      const testData = getSplit(data, 'test').images;
+
+      console.log(`📊 Оценка модели: AIS, ${aisSettings.aisRuns} прогонов × ${aisSettings.aisBetas} температур, ${testData.length} тестовых образцов`);
+      const estimator = new AISEstimator(aisSettings, seed ?? undefined);
+      const partition = await estimator.estimateLogPartition(rbm, baseData, progress => {
+        setTrainingProgress({
+          epoch: 0,
+          totalEpochs: 0,
+          progress: progress * 100,
+          status: `Оценка log Z (AIS)... ${Math.round(progress * 100)}%`
+        });
+      }, signal);
+
+      const evaluation = estimator.logLikelihood(rbm, testData, partition);
+      console.log(`✅ log Z ≈ ${partition.logZ.toFixed(2)}, средний log p(v) ≈ ${evaluation.logLikelihood.toFixed(2)} нат`);
+      setModelEvaluation(evaluation);
+      setTrainingProgress({ epoch: 0, totalEpochs: 0, progress: 100, status: 'Оценка завершена' });
+    } catch (error) {
+      const aborted = error instanceof DOMException && error.name === 'AbortError';
+      if (!aborted) {
+        console.error('Ошибка оценки модели:', error);
+      }
+      setTrainingProgress({
+        epoch: 0,
+        totalEpochs: 0,
+        progress: 0,
+        status: aborted ? 'Оценка остановлена' : 'Ошибка оценки модели'
+      });
+    } finally {
+      setIsEvaluating(false);
       setTimeout(() => setTrainingProgress(null), 2000);
     }
-  }, [isTraining, loadData, trainingMethod, selectedDigit, epochs]);
+  }, [rbm, pipeline, isTraining, isEvaluating, loadData, aisSettings, seed]);
 
   const loadSavedWeights = useCallback(() => {
-    const loadedRBM = BernoulliRBM.loadFromLocalStorage();
+    const loadedRBM = loadRBMFromLocalStorage();
     if (loadedRBM) {
       setRBM(loadedRBM);
+      setDBN(null);
+      setConvRBM(null);
+      setPipeline(PreprocessingPipeline.loadFromLocalStorage());
+      setModelEvaluation(null);
       loadData(true);
     }
   }, [loadData]);
 
   const handleDataSourceChange = useCallback((newDataSource: DataSource) => {
     setDataSource(newDataSource);
-    setMnistData(null); // Очищаем кеш данных при смене источника
+    setDataset(null); // Очищаем кеш данных при смене источника
   }, []);
 
   const handleTrainingMethodChange = useCallback((newMethod: TrainingMethod) => {
@@ -177,7 +746,7 @@ export function useRBM() {
   const handleSelectedDigitChange = useCallback((digit: number) => {
     console.log(`🔢 Смена выбранной цифры: ${selectedDigit} → ${digit}`);
     setSelectedDigit(digit);
-    setMnistData(null); // Очищаем кеш данных при смене цифры
+    setDataset(null); // Очищаем кеш данных при смене цифры
   }, [selectedDigit]);
 
   const handleEpochsChange = useCallback((newEpochs: number) => {
@@ -185,33 +754,163 @@ export function useRBM() {
     setEpochs(newEpochs);
   }, [epochs]);
 
+  const handleNetworkSettingsChange = useCallback((newSettings: NetworkSettings) => {
+    console.log(`🔄 Смена размера сети: ${newSettings.nHidden} скрытых нейронов, скорость обучения: ${newSettings.learningRate ?? 'по оптимизатору'}, батч: ${newSettings.batchSize}`);
+    setNetworkSettings(newSettings);
+  }, []);
+
+  const handleCDSettingsChange = useCallback((newSettings: CDSettings) => {
+    console.log(`🔄 Смена настроек CD: CD-${newSettings.cdSteps}, скрытый слой: ${newSettings.hiddenSampling}, видимый слой: ${newSettings.visibleSampling}`);
+    setCDSettings(newSettings);
+  }, []);
+
+  const handlePTSettingsChange = useCallback((newSettings: PTSettings) => {
+    console.log(`🔄 Смена настроек PT: ${newSettings.ptReplicas} реплик, Tmax = ${newSettings.ptMaxTemperature}`);
+    setPTSettings(newSettings);
+  }, []);
+
+  const handleAnnealingSettingsChange = useCallback((newSettings: AnnealingSettings) => {
+    console.log(`🔄 Смена расписания отжига: T ${newSettings.annealStartTemperature} → ${newSettings.annealEndTemperature}, форма: ${newSettings.annealSchedule}`);
+    setAnnealingSettings(newSettings);
+  }, []);
+
+  const handleOptimizerSettingsChange = useCallback((newSettings: OptimizerSettings) => {
+    console.log(`🔄 Смена оптимизатора: ${newSettings.optimizer}, момент: ${newSettings.momentum}, разгон: ${newSettings.momentumRamp}`);
+    setOptimizerSettings(newSettings);
+  }, []);
+
+  const handleRegularizationSettingsChange = useCallback((newSettings: RegularizationSettings) => {
+    console.log(`🔄 Смена регуляризации: L1 = ${newSettings.weightDecayL1}, L2 = ${newSettings.weightDecayL2}, разреженность p = ${newSettings.sparsityTarget} (вес ${newSettings.sparsityCost})`);
+    setRegularizationSettings(newSettings);
+  }, []);
+
+  const handleVisibleUnitsSettingsChange = useCallback((newSettings: VisibleUnitsSettings) => {
+    console.log(`🔄 Смена видимого слоя: ${newSettings.visibleUnits}${newSettings.visibleUnits === 'gaussian' ? `, σ² = ${newSettings.visibleVariance} (${newSettings.learnVariance ? 'обучаемая' : 'постоянная'})` : ''}`);
+    setVisibleUnitsSettings(newSettings);
+  }, []);
+
+  const handleClassificationSettingsChange = useCallback((newSettings: ClassificationSettings) => {
+    console.log(`🔄 Смена меток классов: ${newSettings.nClasses > 0 ? `${newSettings.nClasses} классов, вес дискриминативного члена ${newSettings.discriminativeWeight}` : 'без меток'}`);
+    setClassificationSettings(newSettings);
+  }, []);
+
+  const handleDBNSettingsChange = useCallback((newSettings: DBNSettings) => {
+    console.log(`🔄 Смена DBN: ${newSettings.enabled ? `слои ${newSettings.layerSizes.join('-')}` : 'одна RBM'}`);
+    setDBNSettings(newSettings);
+  }, []);
+
+  const handleConvSettingsChange = useCallback((newSettings: ConvolutionalSettings) => {
+    console.log(`🔄 Смена свёрточной RBM: ${newSettings.enabled ? `${newSettings.nFilters} фильтров ${newSettings.filterSize}×${newSettings.filterSize}, пулинг ${newSettings.poolSize}×${newSettings.poolSize}` : 'выключена'}`);
+    setConvSettings(newSettings);
+  }, []);
+
+  const handlePreprocessingSettingsChange = useCallback((newSettings: PreprocessingSettings) => {
+    console.log(`🔄 Смена предобработки: ${new PreprocessingPipeline(newSettings).describe()}`);
+    setPreprocessingSettings(newSettings);
+  }, []);
+
+  const handleGeneratorSettingsChange = useCallback((newSettings: GeneratorSettings) => {
+    console.log(`🔄 Смена генератора: поворот ±${newSettings.rotation}°, масштаб ±${newSettings.scale}, наклон ±${newSettings.shear}, штрих ${newSettings.strokeWidth}, упругость ${newSettings.elastic}, шум ${newSettings.noise}, образцов по цифрам: ${newSettings.classCounts.join('/')}`);
+    setGeneratorSettings(newSettings);
+    setDataset(null); // Очищаем кеш данных: сгенерированные образцы устарели
+  }, []);
+
+  const handleSeedChange = useCallback((newSeed: number | null) => {
+    console.log(`🎲 Seed: ${newSeed ?? 'случайный'}`);
+    setSeed(newSeed);
+  }, []);
+
+  const handleAISSettingsChange = useCallback((newSettings: AISSettings) => {
+    console.log(`🔄 Смена настроек AIS: ${newSettings.aisRuns} прогонов, ${newSettings.aisBetas} температур`);
+    setAISSettings(newSettings);
+  }, []);
+
+  const pauseTraining = useCallback(() => {
+    if (!trainer.current && !pauseController.current) return;
+    console.log('⏸️ Пауза обучения');
+    trainer.current?.pause();
+    pauseController.current?.pause();
+    setIsPaused(true);
+    setTrainingProgress(prev => prev && { ...prev, status: `Пауза после эпохи ${prev.epoch}/${prev.totalEpochs}` });
+  }, []);
+
+  const resumeTraining = useCallback(() => {
+    if (!trainer.current && !pauseController.current) return;
+    console.log('▶️ Продолжение обучения');
+    trainer.current?.resume();
+    pauseController.current?.resume();
+    setIsPaused(false);
+    setTrainingProgress(prev => prev && { ...prev, status: `Обучение сети... Эпоха ${prev.epoch}/${prev.totalEpochs}` });
+  }, []);
+
+  // Остановка не отбрасывает модель: runTraining получит частично обученную модель.
+  // Тот же сигнал прерывает и оценку модели
   const stopTraining = useCallback(() => {
     if (abortController.current) {
+      console.log('⏹️ Остановка');
       abortController.current.abort();
-      setIsTraining(false);
-      setTrainingProgress(null);
+      setTrainingProgress(prev => prev && { ...prev, status: 'Остановка...' });
     }
   }, []);
 
-  // Возвращаем данные для визуализации
-  const getVisualizationData = useCallback(() => {
-    return mnistData; // Показываем все данные
-  }, [mnistData]);
+  // Данные в том виде, в каком их видит модель: после конвейера, с которым она обучена
+  // (стохастическая бинаризация здесь оставляет вероятности пикселей)
+  const modelDataset = useMemo((): Dataset | null => {
+    return dataset && pipeline ? pipeline.transformDataset(dataset, false) : dataset;
+  }, [dataset, pipeline]);
+
+  // Тестовый раздел с метками (тот же, что и при обучении) — для проверки классификации
+  const testData = useMemo((): LabeledData | null => {
+    return modelDataset ? getSplit(modelDataset, 'test') : null;
+  }, [modelDataset]);
 
   return {
     rbm,
-    mnistData: getVisualizationData(),
+    dbn,
+    convRBM,
+    dataset,
+    modelDataset,
+    importedDatasets,
+    testData,
     isTraining,
+    isLoadingData,
+    isPaused,
     trainingProgress,
     dataSource,
     trainingMethod,
     trainNetwork,
+    continueTraining,
     loadSavedWeights,
+    lastManifest,
+    downloadManifest,
+    replayManifest,
+    isEvaluating,
+    modelEvaluation,
+    evaluateModel,
+    pauseTraining,
+    resumeTraining,
     stopTraining,
     loadData,
+    loadIDX,
+    importImages,
+    clearImportedImages,
     handleDataSourceChange,
     handleTrainingMethodChange,
     handleSelectedDigitChange,
-    handleEpochsChange
+    handleEpochsChange,
+    handleNetworkSettingsChange,
+    handleCDSettingsChange,
+    handlePTSettingsChange,
+    handleAnnealingSettingsChange,
+    handleOptimizerSettingsChange,
+    handleRegularizationSettingsChange,
+    handleVisibleUnitsSettingsChange,
+    handleClassificationSettingsChange,
+    handleDBNSettingsChange,
+    handleConvSettingsChange,
+    handleSeedChange,
+    handleAISSettingsChange,
+    handlePreprocessingSettingsChange,
+    handleGeneratorSettingsChange
   };
 }
\ No newline at end of file
@@ -0,0 +1,235 @@
+import type { BernoulliRBM } from './BernoulliRBM';
+import { matMulTransposed, softplus, transposeInto } from './kernels';
+import { Random } from '../utils/random';
+import type { AISSettings, LogLikelihoodEstimate, PartitionEstimate } from '../types';
+
+// Доли промежуточных распределений на участках β ∈ [0, 0.5], [0.5, 0.9], [0.9, 1]
+// (500 / 4000 / 10000 из 14500, как у Salakhutdinov & Murray 2008)
+const SCHEDULE_SEGMENTS = [
+  { from: 0, to: 0.5, share: 500 / 14500 },
+  { from: 0.5, to: 0.9, share: 4000 / 14500 },
+  { from: 0.9, to: 1, share: 10000 / 14500 }
+];
+
+// Ширина доверительного интервала в стандартных ошибках среднего веса
+const ERROR_BAR_SIGMAS = 3;
+
+// Сглаживание Лапласа для частот пикселей базовой модели
+const MARGINAL_PSEUDO_COUNT = 1;
+
+// Как часто (в шагах расписания) отдавать управление интерфейсу и проверять остановку
+const YIELD_INTERVAL = 5;
+
+/**
+ * Расписание обратных температур AIS: β от 0 до 1 включительно.
+ * Шаги сгущаются к β = 1, где распределения меняются быстрее всего
+ * @param nBetas - количество значений β (не меньше 2)
+ * @returns возрастающая последовательность β, первая 0, последняя 1
+ */
+export function createAISSchedule(nBetas: number): number[] {
+  const nSteps = Math.max(1, Math.round(nBetas) - 1);
+  const betas = [0];
+  let done = 0;
+  SCHEDULE_SEGMENTS.forEach(({ from, to, share }, s) => {
+    const steps = s === SCHEDULE_SEGMENTS.length - 1
+      ? nSteps - done
+      : Math.max(1, Math.round(nSteps * share));
+    for (let k = 1; k <= steps; k++) {
+      betas.push(from + (to - from) * (k / steps));
+    }
+    done += steps;
+  });
+  betas[betas.length - 1] = 1;
+  return betas;
+}
+
+/**
+ * Оценка статистической суммы Z методом отжигаемой выборки по значимости
+ * (Annealed Importance Sampling, Neal 2001; для RBM — Salakhutdinov & Murray 2008).
+ * Цепочка распределений p_β(v) ∝ exp((1 − β)·b_A·v + β·b·v) · Πⱼ (1 + exp(β·(cⱼ + Wⱼ·v)))
+ * соединяет базовую модель A (W = 0, смещения видимых — логиты частот пикселей в данных,
+ * её Z_A известна точно) с оцениваемой RBM при β = 1. Каждый прогон начинается
+ * с точного сэмпла из A и накапливает логарифм веса значимости;
+ * Z_B ≈ Z_A · среднее весов. Прогоны идут параллельно строками одной матрицы
+ */
+export class AISEstimator {
+  private nRuns: number;
+  private betas: number[];
+  private random: Random;
+
+  /**
+   * Создает оценщик
+   * @param settings - настройки AIS
+   * @param settings.aisRuns - количество независимых прогонов
+   * @param settings.aisBetas - количество обратных температур в расписании
+   * @param seed - seed генератора случайных чисел (по умолчанию случайный)
+   */
+  constructor({ aisRuns, aisBetas }: AISSettings, seed?: number) {
+    this.nRuns = Math.max(2, Math.round(aisRuns));
+    this.betas = createAISSchedule(aisBetas);
+    this.random = new Random(seed);
+  }
+
+  /**
+   * Смещения видимых нейронов базовой модели: логиты частот пикселей
+   * в бинаризованных (порог 0.5) данных со сглаживанием Лапласа
+   * @param data - обучающие образцы
+   * @param nVisible - количество видимых нейронов
+   * @returns смещения базовой модели
+   */
+  private baseRateBias(data: Float32Array[], nVisible: number): Float32Array {
+    const counts = new Float64Array(nVisible);
+    for (const sample of data) {
+      for (let i = 0; i < nVisible; i++) {
+        if (sample[i] > 0.5) counts[i]++;
+      }
+    }
+
+    const bias = new Float32Array(nVisible);
+    for (let i = 0; i < nVisible; i++) {
+      const p = (counts[i] + MARGINAL_PSEUDO_COUNT) / (data.length + 2 * MARGINAL_PSEUDO_COUNT);
+      bias[i] = Math.log(p / (1 - p));
+    }
+    return bias;
+  }
+
+  /**
+   * Оценивает log Z модели
+   * @param rbm - модель с бинарными видимыми нейронами
+   * @param data - обучающие образцы (для базовой модели)
+   * @param progressCallback - вызывается по ходу отжига с долей выполненных шагов
+   * @param signal - сигнал остановки: оценка прерывается с ошибкой AbortError
+   * @returns оценка log Z с границами ±3 стандартные ошибки среднего веса
+   */
+  async estimateLogPartition(
+    rbm: BernoulliRBM,
+    data: Float32Array[],
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<PartitionEstimate> {
+    const { nVisible, nHidden, visibleUnits, nClasses } = rbm.getParams();
+    if (visibleUnits === 'gaussian') {
+      throw new Error('AIS с бернуллиевской базовой моделью доступен только для RBM с бинарными видимыми нейронами');
+    }
+    if (nClasses) {
+      throw new Error('AIS не поддерживает RBM с softmax-нейронами метки');
+    }
+    const weights = rbm.getWeights();
+    const hiddenBias = rbm.getHiddenBias();
+    const visibleBias = rbm.getVisibleBias();
+    const weightsT = new Float32Array(nHidden * nVisible);
+    transposeInto(weights, nHidden, nVisible, weightsT);
+
+    const baseBias = this.baseRateBias(data, nVisible);
+    const biasDiff = visibleBias.map((b, i) => b - baseBias[i]);
+    let logZBase = nHidden * Math.LN2;
+    for (let i = 0; i < nVisible; i++) {
+      logZBase += softplus(baseBias[i]);
+    }
+
+    const nRuns = this.nRuns;
+    const visible = new Float32Array(nRuns * nVisible);
+    const hidden = new Float32Array(nRuns * nHidden);
+    const visibleField = new Float32Array(nRuns * nVisible);
+    const logWeights = new Float64Array(nRuns);
+
+    // Точные сэмплы из базовой модели: пиксели независимы
+    for (let r = 0; r < nRuns; r++) {
+      for (let i = 0; i < nVisible; i++) {
+        visible[r * nVisible + i] = this.random.next() < 1 / (1 + Math.exp(-baseBias[i])) ? 1 : 0;
+      }
+    }
+
+    const nSteps = this.betas.length - 1;
+    for (let k = 1; k <= nSteps; k++) {
+      const prevBeta = this.betas[k - 1];
+      const beta = this.betas[k];
+
+      // Пре-активации скрытого слоя не зависят от β: x = c + W·v
+      matMulTransposed(visible, nRuns, weights, nHidden, nVisible, hidden, hiddenBias);
+
+      // log p*_k(v) − log p*_{k−1}(v)
+      for (let r = 0; r < nRuns; r++) {
+        const visibleOffset = r * nVisible;
+        const hiddenOffset = r * nHidden;
+        let delta = 0;
+        for (let i = 0; i < nVisible; i++) {
+          delta += biasDiff[i] * visible[visibleOffset + i];
+        }
+        delta *= beta - prevBeta;
+        for (let j = 0; j < nHidden; j++) {
+          const x = hidden[hiddenOffset + j];
+          delta += softplus(beta * x) - softplus(prevBeta * x);
+        }
+        logWeights[r] += delta;
+      }
+
+      if (k === nSteps) break;
+
+      // Шаг Гиббса, сохраняющий p_k: h ~ σ(β·x), затем v ~ σ((1 − β)·b_A + β·(b + Wᵀh))
+      for (let n = 0; n < nRuns * nHidden; n++) {
+        hidden[n] = this.random.next() < 1 / (1 + Math.exp(-beta * hidden[n])) ? 1 : 0;
+      }
+      matMulTransposed(hidden, nRuns, weightsT, nVisible, nHidden, visibleField, visibleBias);
+      for (let r = 0; r < nRuns; r++) {
+        const offset = r * nVisible;
+        for (let i = 0; i < nVisible; i++) {
+          const field = (1 - beta) * baseBias[i] + beta * visibleField[offset + i];
+          visible[offset + i] = this.random.next() < 1 / (1 + Math.exp(-field)) ? 1 : 0;
+        }
+      }
+
+      if (k % YIELD_INTERVAL === 0) {
+        progressCallback?.(k / nSteps);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (signal?.aborted) {
+          throw new DOMException('Оценка log Z остановлена', 'AbortError');
+        }
+      }
+    }
+    progressCallback?.(1);
+
+    // log(среднее весов) и его границы считаются со сдвигом на максимальный вес
+    const maxLogWeight = Math.max(...logWeights);
+    const scaled = Array.from(logWeights, w => Math.exp(w - maxLogWeight));
+    const mean = scaled.reduce((sum, w) => sum + w, 0) / nRuns;
+    const variance = scaled.reduce((sum, w) => sum + (w - mean) * (w - mean), 0) / (nRuns - 1);
+    const margin = ERROR_BAR_SIGMAS * Math.sqrt(variance / nRuns);
+    const shift = logZBase + maxLogWeight;
+
+    return {
+      logZ: shift + Math.log(mean),
+      logZLow: mean > margin ? shift + Math.log(mean - margin) : -Infinity,
+      logZHigh: shift + Math.log(mean + margin),
+      logZBase,
+      nRuns,
+      nBetas: this.betas.length
+    };
+  }
+
+  /**
+   * Средний логарифм правдоподобия образцов: log p(v) = −F(v) − log Z.
+   * p(v) определена для бинарных состояний, поэтому образцы бинаризуются (порог 0.5)
+   * @param rbm - модель
+   * @param testData - образцы для оценки (обычно отложенные)
+   * @param partition - оценка log Z из estimateLogPartition()
+   * @returns средний log p(v) на образец с границами по границам log Z
+   */
+  logLikelihood(rbm: BernoulliRBM, testData: Float32Array[], partition: PartitionEstimate): LogLikelihoodEstimate {
+    let meanNegFreeEnergy = 0;
+    for (const sample of testData) {
+      const binary = sample.map(x => (x > 0.5 ? 1 : 0));
+      meanNegFreeEnergy -= rbm.freeEnergy(binary);
+    }
+    meanNegFreeEnergy /= Math.max(1, testData.length);
+
+    // Большая Z — меньшее правдоподобие, поэтому границы меняются местами
+    return {
+      logLikelihood: meanNegFreeEnergy - partition.logZ,
+      logLikelihoodLow: meanNegFreeEnergy - partition.logZHigh,
+      logLikelihoodHigh: meanNegFreeEnergy - partition.logZLow,
+      nSamples: testData.length,
+      partition
+    };
+  }
+}
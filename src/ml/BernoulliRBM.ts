@@ -1,18 +1,92 @@
-import type { RBMParams, ReconstructionResult, TrainingMethod } from '../types';
+import { Optimizer } from './Optimizer';
+import { annealingTemperature } from './annealing';
+import type { PauseController } from './PauseController';
+import {
+  accumulateColumnSums,
+  matMulTransposed,
+  sigmoidInPlace,
+  softplus,
+  transposeInto
+} from './kernels';
+import { Random } from '../utils/random';
+import { getSplit, isDataset } from '../utils/dataset';
+import type {
+  AnnealingSchedule,
+  Dataset,
+  LabeledData,
+  AnnealingTrace,
+  EpochMetrics,
+  EpochStats,
+  GradientEstimator,
+  ModelDiagnostics,
+  RBMGradient,
+  RBMParams,
+  ReconstructionResult,
+  SamplingMode,
+  SerializedRBM,
+  TrainingMethod,
+  TrainingMonitor,
+  TransferableRBM
+} from '../types';
+
+/**
+ * Статистики одной фазы обучения: состояния слоёв для rows образцов
+ */
+export interface PhaseStatistics {
+  hidden: Float32Array;
+  visible: Float32Array;
+  rows: number;
+}
 
 /**
  * Бернуллиевская машина Больцмана (RBM) - неориентированная вероятностная модель
- * для обучения представлений данных без учителя
+ * для обучения представлений данных без учителя.
+ * Веса хранятся в одном непрерывном Float32Array построчно [скрытые][видимые]
+ * вместе с транспонированной копией [видимые][скрытые]; все вычисления выполняются
+ * сразу для целого батча (см. kernels.ts)
  */
 export class BernoulliRBM {
-  private nVisible: number;
-  private nHidden: number;
-  private learningRate: number;
+  protected nVisible: number;
+  protected nHidden: number;
+  protected learningRate: number;
   private batchSize: number;
   private trainingMethod: TrainingMethod;
-  private weights: Float32Array[];
-  private hiddenBias: Float32Array;
-  private visibleBias: Float32Array;
+  private cdSteps: number;
+  private hiddenSampling: SamplingMode;
+  private visibleSampling: SamplingMode;
+  protected weights: Float32Array;
+  protected weightsT: Float32Array;
+  protected hiddenBias: Float32Array;
+  protected visibleBias: Float32Array;
+  protected weightGrad: Float32Array;
+  protected hiddenGrad: Float32Array;
+  protected visibleGrad: Float32Array;
+  private dataHiddenMean: Float32Array;
+  private dataVisibleMean: Float32Array;
+  private workspace: Map<string, Float32Array>;
+  private persistentChains: Float32Array;
+  private temperatures: number[];
+  private nTemperedChains: number;
+  private temperedVisible: Float32Array;
+  private temperedHidden: Float32Array;
+  private temperedEnergies: Float64Array;
+  private temperedSlots: Int32Array;
+  private ptStep: number;
+  private swapAttempts: Float64Array;
+  private swapAccepts: Float64Array;
+  private annealStartTemperature: number;
+  private annealEndTemperature: number;
+  private annealSchedule: AnnealingSchedule;
+  private annealingTraces: AnnealingTrace[];
+  protected optimizer: Optimizer;
+  private weightDecayL1: number;
+  private weightDecayL2: number;
+  private sparsityTarget: number;
+  private sparsityDecay: number;
+  private sparsityCost: number;
+  private hiddenActivityEstimate: Float32Array | null;
+  private seed: number;
+  protected random: Random;
 
   /**
    * Создает новый экземпляр машины Больцмана
@@ -22,18 +96,107 @@ export class BernoulliRBM {
    * @param params.learningRate - скорость обучения (по умолчанию 0.06)
    * @param params.batchSize - размер батча (по умолчанию 32)
    * @param params.trainingMethod - метод обучения (по умолчанию 'contrastive-divergence')
+   * @param params.cdSteps - количество шагов Гиббса k в CD-k и PCD-k (по умолчанию 1)
+   * @param params.hiddenSampling - состояния скрытого слоя в цепи CD (по умолчанию 'mean-field')
+   * @param params.visibleSampling - состояния видимого слоя в цепи CD (по умолчанию 'mean-field')
+   * @param params.ptReplicas - количество температурных реплик в параллельном темперировании (по умолчанию 8)
+   * @param params.ptMaxTemperature - температура самой «горячей» реплики (по умолчанию 4)
+   * @param params.ptChains - количество независимых лестниц реплик (по умолчанию 10)
+   * @param params.annealStartTemperature - начальная температура отжига при burn-in (по умолчанию 10)
+   * @param params.annealEndTemperature - конечная температура отжига при burn-in (по умолчанию 1)
+   * @param params.annealSchedule - форма расписания отжига (по умолчанию 'geometric')
+   * @param params.optimizer - оптимизатор, общий для всех методов обучения (по умолчанию 'sgd')
+   * @param params.momentum - целевой коэффициент момента для momentum/nesterov (по умолчанию 0.9)
+   * @param params.momentumRamp - разгон момента 0.5 → momentum в первые эпохи (по умолчанию true)
+   * @param params.weightDecayL1 - коэффициент L1-затухания весов (по умолчанию 0)
+   * @param params.weightDecayL2 - коэффициент L2-затухания весов (по умолчанию 0)
+   * @param params.sparsityTarget - целевая средняя активность скрытых нейронов (по умолчанию 0.05)
+   * @param params.sparsityDecay - коэффициент скользящего среднего активности (по умолчанию 0.95)
+   * @param params.sparsityCost - вес штрафа разреженности, 0 — выключен (по умолчанию 0)
+   * @param params.seed - seed генератора случайных чисел модели (по умолчанию случайный)
    */
-  constructor({ nVisible, nHidden, learningRate = 0.06, batchSize = 32, trainingMethod = 'contrastive-divergence' }: RBMParams) {
+  constructor({
+    nVisible,
+    nHidden,
+    learningRate = 0.06,
+    batchSize = 32,
+    trainingMethod = 'contrastive-divergence',
+    cdSteps = 1,
+    hiddenSampling = 'mean-field',
+    visibleSampling = 'mean-field',
+    ptReplicas = 8,
+    ptMaxTemperature = 4,
+    ptChains = 10,
+    annealStartTemperature = 10,
+    annealEndTemperature = 1,
+    annealSchedule = 'geometric',
+    optimizer = 'sgd',
+    momentum = 0.9,
+    momentumRamp = true,
+    weightDecayL1 = 0,
+    weightDecayL2 = 0,
+    sparsityTarget = 0.05,
+    sparsityDecay = 0.95,
+    sparsityCost = 0,
+    seed = Random.randomSeed()
+  }: RBMParams) {
     this.nVisible = nVisible;
     this.nHidden = nHidden;
     this.learningRate = learningRate;
     this.batchSize = batchSize;
     this.trainingMethod = trainingMethod;
+    this.cdSteps = Math.max(1, Math.round(cdSteps));
+    this.hiddenSampling = hiddenSampling;
+    this.visibleSampling = visibleSampling;
+
+    // Инициализация весов, сэмплирование и перемешивание данных используют только этот генератор
+    this.seed = seed >>> 0;
+    this.random = new Random(this.seed);
 
     const weightsScale = trainingMethod === 'equilibrium' ? 0.005 : 0.01;
     this.weights = this.randomMatrix(nHidden, nVisible, weightsScale);
+    this.weightsT = new Float32Array(nHidden * nVisible);
+    transposeInto(this.weights, nHidden, nVisible, this.weightsT);
     this.hiddenBias = new Float32Array(nHidden);
     this.visibleBias = new Float32Array(nVisible);
+
+    // Буферы градиентов и статистик батча выделяются один раз и переиспользуются
+    this.weightGrad = new Float32Array(nHidden * nVisible);
+    this.hiddenGrad = new Float32Array(nHidden);
+    this.visibleGrad = new Float32Array(nVisible);
+    this.dataHiddenMean = new Float32Array(nHidden);
+    this.dataVisibleMean = new Float32Array(nVisible);
+    this.workspace = new Map();
+
+    this.persistentChains = new Float32Array(0);
+
+    // Геометрическая лестница температур от 1 до ptMaxTemperature
+    const nReplicas = Math.max(2, Math.round(ptReplicas));
+    this.temperatures = Array.from({ length: nReplicas }, (_, k) =>
+      Math.pow(ptMaxTemperature, k / (nReplicas - 1))
+    );
+    this.nTemperedChains = Math.max(1, Math.round(ptChains));
+    this.temperedVisible = new Float32Array(0);
+    this.temperedHidden = new Float32Array(0);
+    this.temperedEnergies = new Float64Array(0);
+    this.temperedSlots = new Int32Array(0);
+    this.ptStep = 0;
+    this.swapAttempts = new Float64Array(nReplicas - 1);
+    this.swapAccepts = new Float64Array(nReplicas - 1);
+
+    this.annealStartTemperature = annealStartTemperature;
+    this.annealEndTemperature = annealEndTemperature;
+    this.annealSchedule = annealSchedule;
+    this.annealingTraces = [];
+
+    this.optimizer = new Optimizer({ optimizer, momentum, momentumRamp });
+
+    this.weightDecayL1 = weightDecayL1;
+    this.weightDecayL2 = weightDecayL2;
+    this.sparsityTarget = sparsityTarget;
+    this.sparsityDecay = sparsityDecay;
+    this.sparsityCost = sparsityCost;
+    this.hiddenActivityEstimate = null;
   }
 
   /**
@@ -41,26 +204,50 @@ export class BernoulliRBM {
    * @param rows - количество строк
    * @param cols - количество столбцов
    * @param scale - масштаб случайных значений
-   * @returns матрица случайных весов
-   */
-  private randomMatrix(rows: number, cols: number, scale: number): Float32Array[] {
-    const matrix: Float32Array[] = [];
-    for (let i = 0; i < rows; i++) {
-      matrix[i] = new Float32Array(cols);
-      for (let j = 0; j < cols; j++) {
-        matrix[i][j] = (Math.random() - 0.5) * 2 * scale;
-      }
+   * @returns матрица случайных весов rows × cols, построчно в одном массиве
+   */
+  private randomMatrix(rows: number, cols: number, scale: number): Float32Array {
+    const matrix = new Float32Array(rows * cols);
+    for (let i = 0; i < matrix.length; i++) {
+      matrix[i] = (this.random.next() - 0.5) * 2 * scale;
     }
     return matrix;
   }
 
   /**
-   * Сигмоидная функция активации
-   * @param x - входное значение
-   * @returns значение сигмоидной функции от 0 до 1
+   * Обновляет транспонированную копию весов после изменения weights.
+   * Вызывается после каждого изменения параметров (шаг оптимизатора, загрузка модели)
+   */
+  protected syncTransposedWeights(): void {
+    transposeInto(this.weights, this.nHidden, this.nVisible, this.weightsT);
+  }
+
+  /**
+   * Возвращает переиспользуемый буфер рабочей памяти.
+   * У каждого промежуточного результата своё имя, поэтому буферы не перекрываются
+   * @param name - имя буфера
+   * @param length - требуемая длина
+   * @returns буфер заданной длины (содержимое не обнуляется)
    */
-  private sigmoid(x: number): number {
-    return 1 / (1 + Math.exp(-x));
+  protected buffer(name: string, length: number): Float32Array {
+    let buf = this.workspace.get(name);
+    if (!buf || buf.length !== length) {
+      buf = new Float32Array(length);
+      this.workspace.set(name, buf);
+    }
+    return buf;
+  }
+
+  /**
+   * Упаковывает образцы батча в одну матрицу rows × nVisible
+   * @param batch - образцы
+   * @param name - имя буфера рабочей памяти
+   * @returns упакованный батч
+   */
+  private packBatch(batch: Float32Array[], name: string): Float32Array {
+    const packed = this.buffer(name, batch.length * this.nVisible);
+    batch.forEach((sample, b) => packed.set(sample, b * this.nVisible));
+    return packed;
   }
 
   /**
@@ -69,7 +256,7 @@ export class BernoulliRBM {
    * @param hidden - активации скрытого слоя
    * @returns энергия системы
    */
-  private computeEnergy(visible: Float32Array, hidden: Float32Array): number {
+  protected computeEnergy(visible: Float32Array, hidden: Float32Array): number {
     let energy = 0;
 
     // Член смещения видимого слоя
@@ -77,121 +264,217 @@ export class BernoulliRBM {
       energy -= this.visibleBias[i] * visible[i];
     }
 
-    // Член смещения скрытого слоя
+    // Член смещения скрытого слоя и член взаимодействия между слоями
     for (let j = 0; j < this.nHidden; j++) {
-      energy -= this.hiddenBias[j] * hidden[j];
-    }
-
-    // Член взаимодействия между слоями
-    for (let i = 0; i < this.nVisible; i++) {
-      for (let j = 0; j < this.nHidden; j++) {
-        energy -= this.weights[j][i] * visible[i] * hidden[j];
+      if (hidden[j] === 0) continue;
+      const offset = j * this.nVisible;
+      let field = this.hiddenBias[j];
+      for (let i = 0; i < this.nVisible; i++) {
+        field += this.weights[offset + i] * visible[i];
       }
+      energy -= hidden[j] * field;
     }
 
     return energy;
   }
 
-
-
   /**
-   * Базовый метод для вычисления вероятностей активации нейронов
-   * @param input - входные активации
-   * @param bias - смещения для выходного слоя
-   * @param weights - веса между слоями
-   * @param outputSize - размер выходного слоя
-   * @param inputSize - размер входного слоя
-   * @param isTransposed - флаг для транспонирования матрицы весов
-   * @returns вероятности активации выходного слоя
+   * Бинарная выборка по готовым вероятностям активации
+   * @param probs - вероятности активации нейронов
+   * @param output - массив для результата (может совпадать с probs)
+   * @returns бинарные активации (1 с вероятностью prob, 0 иначе)
    */
-  private sampleBaseProb(
-    input: Float32Array,
-    bias: Float32Array,
-    weights: Float32Array[],
-    outputSize: number,
-    inputSize: number,
-    isTransposed: boolean = false
-  ): Float32Array {
-    const output = new Float32Array(outputSize);
-    for (let i = 0; i < outputSize; i++) {
-      let activation = bias[i];
-      for (let j = 0; j < inputSize; j++) {
-        const weight = isTransposed ? weights[j][i] : weights[i][j];
-        activation += input[j] * weight;
-      }
-      output[i] = this.sigmoid(activation);
+  private sampleBernoulli(probs: Float32Array, output: Float32Array = new Float32Array(probs.length)): Float32Array {
+    for (let i = 0; i < probs.length; i++) {
+      output[i] = this.random.next() < probs[i] ? 1 : 0;
     }
     return output;
   }
 
   /**
-   * Базовый метод для бинарной выборки нейронов
-   * @param input - входные активации
-   * @param bias - смещения для выходного слоя
-   * @param weights - веса между слоями
-   * @param outputSize - размер выходного слоя
-   * @param inputSize - размер входного слоя
-   * @param isTransposed - флаг для транспонирования матрицы весов
-   * @returns бинарные активации выходного слоя
+   * Возвращает состояния слоя для следующего полушага цепи Гиббса
+   * @param probs - вероятности активации слоя
+   * @param mode - 'sampled' (бинарные состояния) или 'mean-field' (вероятности)
+   * @param output - массив для бинарных состояний
+   * @returns бинарные состояния или сами вероятности
    */
-  private sampleBase(
-    input: Float32Array,
-    bias: Float32Array,
-    weights: Float32Array[],
-    outputSize: number,
-    inputSize: number,
-    isTransposed: boolean = false
+  private layerState(probs: Float32Array, mode: SamplingMode, output: Float32Array): Float32Array {
+    return mode === 'sampled' ? this.sampleBernoulli(probs, output) : probs;
+  }
+
+  /**
+   * Вычисление вероятностей активации скрытого слоя для батча
+   * @param visible - матрица rows × nVisible (один образец — rows = 1)
+   * @param rows - количество образцов
+   * @param output - матрица rows × nHidden для результата
+   * @param temperature - температура T (по умолчанию 1)
+   */
+  protected sampleHidden(
+    visible: Float32Array,
+    rows: number = 1,
+    output: Float32Array = new Float32Array(rows * this.nHidden),
+    temperature: number = 1
   ): Float32Array {
-    const probs = this.sampleBaseProb(input, bias, weights, outputSize, inputSize, isTransposed);
-    const output = new Float32Array(outputSize);
-    for (let i = 0; i < outputSize; i++) {
-      // Бинарная выборка: 1 с вероятностью prob, 0 иначе
-      output[i] = Math.random() < probs[i] ? 1 : 0;
-    }
+    this.hiddenInput(visible, rows, output);
+    sigmoidInPlace(output, rows * this.nHidden, temperature);
     return output;
   }
 
   /**
-   * Вычисление вероятностей активации скрытого слоя
+   * Пре-активации скрытого слоя для батча: c + W·v
+   * @param visible - матрица rows × nVisible
+   * @param rows - количество образцов
+   * @param output - матрица rows × nHidden для результата
    */
-  private sampleHidden(visible: Float32Array): Float32Array {
-    return this.sampleBaseProb(visible, this.hiddenBias, this.weights, this.nHidden, this.nVisible, false);
+  protected hiddenInput(visible: Float32Array, rows: number, output: Float32Array): void {
+    matMulTransposed(visible, rows, this.weights, this.nHidden, this.nVisible, output, this.hiddenBias);
   }
 
   /**
-   * Вычисление вероятностей активации видимого слоя
+   * Вычисление вероятностей активации видимого слоя для батча
+   * @param hidden - матрица rows × nHidden
+   * @param rows - количество образцов
+   * @param output - матрица rows × nVisible для результата
+   * @param temperature - температура T (по умолчанию 1)
    */
-  private sampleVisible(hidden: Float32Array): Float32Array {
-    return this.sampleBaseProb(hidden, this.visibleBias, this.weights, this.nVisible, this.nHidden, true);
+  protected sampleVisible(
+    hidden: Float32Array,
+    rows: number = 1,
+    output: Float32Array = new Float32Array(rows * this.nVisible),
+    temperature: number = 1
+  ): Float32Array {
+    matMulTransposed(hidden, rows, this.weightsT, this.nVisible, this.nHidden, output, this.visibleBias);
+    sigmoidInPlace(output, rows * this.nVisible, temperature);
+    return output;
   }
 
   /**
    * Бинарная выборка скрытого слоя (используется для выборки Гиббса)
    * Возвращает бинарные активации вместо вероятностей
    */
-  private sampleHiddenBinary(visible: Float32Array): Float32Array {
-    return this.sampleBase(visible, this.hiddenBias, this.weights, this.nHidden, this.nVisible, false);
+  private sampleHiddenBinary(
+    visible: Float32Array,
+    rows: number = 1,
+    output: Float32Array = new Float32Array(rows * this.nHidden),
+    temperature: number = 1
+  ): Float32Array {
+    return this.sampleBernoulli(this.sampleHidden(visible, rows, output, temperature), output);
   }
 
   /**
    * Бинарная выборка видимого слоя (используется для выборки Гиббса)
    * Возвращает бинарные активации вместо вероятностей
    */
-  private sampleVisibleBinary(hidden: Float32Array): Float32Array {
-    return this.sampleBase(hidden, this.visibleBias, this.weights, this.nVisible, this.nHidden, true);
+  protected sampleVisibleBinary(
+    hidden: Float32Array,
+    rows: number = 1,
+    output: Float32Array = new Float32Array(rows * this.nVisible),
+    temperature: number = 1
+  ): Float32Array {
+    return this.sampleBernoulli(this.sampleVisible(hidden, rows, output, temperature), output);
   }
 
   /**
-   * Создает нулевую матрицу заданного размера
-   * @param rows - количество строк
-   * @param cols - количество столбцов
-   * @returns нулевая матрица
+   * Положительная фаза, общая для всех методов: вероятности скрытого слоя на данных батча
+   * @param batch - батч обучающих данных
+   * @returns статистики данных (упакованный батч и вероятности скрытого слоя)
+   */
+  private positivePhase(batch: Float32Array[]): PhaseStatistics {
+    const rows = batch.length;
+    const visible = this.packBatch(batch, 'visibleData');
+    const hidden = this.sampleHidden(visible, rows, this.buffer('hiddenData', rows * this.nHidden));
+    return { hidden, visible, rows };
+  }
+
+  /**
+   * Вычисляет градиенты как разность статистик положительной и отрицательной фаз.
+   * Обе фазы склеиваются в одну транспонированную матрицу (каждая со своим весом ±1/rows),
+   * так что градиент весов получается одним проходом ядра A · Bᵀ
+   * @param positive - статистики данных
+   * @param negative - статистики модели
+   */
+  protected computeGradients(positive: PhaseStatistics, negative: PhaseStatistics): void {
+    const total = positive.rows + negative.rows;
+    const posScale = 1 / positive.rows;
+    const negScale = 1 / negative.rows;
+
+    const hiddenT = this.buffer('gradHiddenT', this.nHidden * total);
+    const visibleT = this.buffer('gradVisibleT', this.nVisible * total);
+    transposeInto(positive.hidden, positive.rows, this.nHidden, hiddenT, total, 0, posScale);
+    transposeInto(negative.hidden, negative.rows, this.nHidden, hiddenT, total, positive.rows, -negScale);
+    transposeInto(positive.visible, positive.rows, this.nVisible, visibleT, total, 0);
+    transposeInto(negative.visible, negative.rows, this.nVisible, visibleT, total, positive.rows);
+    matMulTransposed(hiddenT, this.nHidden, visibleT, this.nVisible, total, this.weightGrad);
+
+    this.dataHiddenMean.fill(0);
+    this.dataVisibleMean.fill(0);
+    accumulateColumnSums(this.dataHiddenMean, positive.hidden, positive.rows, this.nHidden, posScale);
+    accumulateColumnSums(this.dataVisibleMean, positive.visible, positive.rows, this.nVisible, posScale);
+
+    this.hiddenGrad.set(this.dataHiddenMean);
+    this.visibleGrad.set(this.dataVisibleMean);
+    accumulateColumnSums(this.hiddenGrad, negative.hidden, negative.rows, this.nHidden, -negScale);
+    accumulateColumnSums(this.visibleGrad, negative.visible, negative.rows, this.nVisible, -negScale);
+  }
+
+  /**
+   * Добавляет к градиентам штрафы регуляризации:
+   * L1/L2-затухание весов и штраф разреженности скрытых нейронов (Lee et al. 2008; Hinton 2010).
+   * Разреженность: скользящее среднее активности q сравнивается с целевой p,
+   * и (q - p) уменьшает смещения скрытых нейронов и их веса к активным пикселям
    */
-  private zeroMatrix(rows: number, cols: number): Float32Array[] {
-    return Array(rows).fill(null).map(() => new Float32Array(cols));
+  private addRegularization(): void {
+    if (this.weightDecayL1 > 0 || this.weightDecayL2 > 0) {
+      for (let k = 0; k < this.weights.length; k++) {
+        const w = this.weights[k];
+        this.weightGrad[k] -= this.weightDecayL2 * w + this.weightDecayL1 * Math.sign(w);
+      }
+    }
+
+    if (this.sparsityCost <= 0) return;
+
+    if (this.hiddenActivityEstimate === null) {
+      this.hiddenActivityEstimate = this.dataHiddenMean.slice();
+    } else {
+      for (let j = 0; j < this.nHidden; j++) {
+        this.hiddenActivityEstimate[j] = this.sparsityDecay * this.hiddenActivityEstimate[j]
+          + (1 - this.sparsityDecay) * this.dataHiddenMean[j];
+      }
+    }
+
+    for (let j = 0; j < this.nHidden; j++) {
+      const penalty = this.sparsityCost * (this.hiddenActivityEstimate[j] - this.sparsityTarget);
+      this.hiddenGrad[j] -= penalty;
+      const offset = j * this.nVisible;
+      for (let i = 0; i < this.nVisible; i++) {
+        this.weightGrad[offset + i] -= penalty * this.dataVisibleMean[i];
+      }
+    }
   }
 
+  /**
+   * Вычисляет градиенты (направление подъёма правдоподобия), добавляет штрафы
+   * регуляризации и применяет их через оптимизатор
+   * @param positive - статистики данных
+   * @param negative - статистики модели
+   */
+  private applyGradients(positive: PhaseStatistics, negative: PhaseStatistics): void {
+    this.computeGradients(positive, negative);
+    this.addRegularization();
+    this.optimizerStep();
+  }
 
+  /**
+   * Применяет текущие градиенты к параметрам модели через оптимизатор
+   */
+  protected optimizerStep(): void {
+    this.optimizer.apply(
+      [this.weights, this.hiddenBias, this.visibleBias],
+      [this.weightGrad, this.hiddenGrad, this.visibleGrad],
+      this.learningRate
+    );
+    this.syncTransposedWeights();
+  }
 
   /**
    * Создает перемешанный массив индексов для случайного порядка данных
@@ -199,23 +482,17 @@ export class BernoulliRBM {
    * @returns перемешанный массив индексов от 0 до length-1
    */
   private getShuffledIndices(length: number): number[] {
-    const indices = Array.from({ length }, (_, i) => i);
-    for (let i = indices.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [indices[i], indices[j]] = [indices[j], indices[i]];
-    }
-
-    return indices;
+    return this.random.shuffle(Array.from({ length }, (_, i) => i));
   }
 
   private gibbsSampleWithEnergy(visible: Float32Array, steps: number = 1): { visible: Float32Array, hidden: Float32Array, energy: number[] } {
-    let v = visible.slice();
-    let h = this.sampleHiddenBinary(v);
+    const v = visible.slice();
+    const h = new Float32Array(this.nHidden);
     const energies: number[] = [];
 
     for (let step = 0; step < steps; step++) {
-      h = this.sampleHiddenBinary(v);
-      v = this.sampleVisibleBinary(h);
+      this.sampleHiddenBinary(v, 1, h);
+      this.sampleVisibleBinary(h, 1, v);
       energies.push(this.computeEnergy(v, h));
     }
 
@@ -223,173 +500,431 @@ export class BernoulliRBM {
   }
 
   /**
-   * Обучение методом сэмплирования из равновесия
-   * Использует длительное сэмплирование Гиббса для достижения равновесия
-   * @param batch - батч обучающих данных
-   * @param gibbsSteps - количество шагов Гиббса для достижения равновесия (по умолчанию 2000)
-   * @param negPhaseSamples - количество сэмплов для отрицательной фазы (по умолчанию 500)
+   * Температура на заданном этапе отжига
+   * @param progress - доля пройденных шагов burn-in от 0 до 1
+   * @returns температура согласно расписанию отжига
    */
-  private equilibriumLearning(batch: Float32Array[], gibbsSteps: number = 3000, negPhaseSamples: number = 500): void {
-    const batchSize = batch.length;
-    console.log(`Начинаем сэмплирование из равновесия (batchSize = ${batchSize})...`);
+  private annealingTemperature(progress: number): number {
+    return annealingTemperature(this.annealStartTemperature, this.annealEndTemperature, this.annealSchedule, progress);
+  }
 
-    // Используем меньшую скорость обучения для equilibrium
-    const effectiveLearningRate = 0.01; // this.learningRate * 0.1;
+  /**
+   * Отрицательная фаза сэмплирования из равновесия: одна цепь Гиббса стартует
+   * с образца данных, проходит burn-in с отжигом от annealStartTemperature
+   * до annealEndTemperature, затем собирает сэмплы при T = 1
+   * @param start - начальное состояние видимого слоя
+   * @param gibbsSteps - количество шагов Гиббса burn-in
+   * @param negPhaseSamples - количество сэмплов отрицательной фазы
+   * @param trace - трасса энергии для заполнения (и подробный журнал), если нужна
+   * @returns статистики модели
+   */
+  private equilibriumNegativePhase(
+    start: Float32Array,
+    gibbsSteps: number,
+    negPhaseSamples: number,
+    trace?: AnnealingTrace
+  ): PhaseStatistics {
+    // Состояния единственной цепи обновляются на месте в буферах рабочей памяти
+    const v = this.buffer('chainVisible', this.nVisible);
+    const h = this.buffer('chainHidden', this.nHidden);
 
-    // Положительная фаза: среднее по данным
-    let posPhase = this.zeroMatrix(this.nHidden, this.nVisible);
-    let posHidden = new Float32Array(this.nHidden);
-    let posVisible = new Float32Array(this.nVisible);
-
-    for (const sample of batch) {
-      const hProb = this.sampleHidden(sample); // P(h|v),
-      for (let i = 0; i < this.nHidden; i++) {
-        for (let j = 0; j < this.nVisible; j++) {
-          posPhase[i][j] += hProb[i] * sample[j];
-        }
-        posHidden[i] += hProb[i];
+    // Начальное состояние (случайное)
+    // let v = this.randomBinaryVector(this.nVisible);
+    v.set(start);
+    this.sampleHiddenBinary(v, 1, h);
+
+    // Burn-in с отжигом: 3000 (по умолчанию) шагов Gibbs
+    if (trace) {
+      console.log(`🔄 Начальная энергия: ${this.computeEnergy(v, h).toFixed(1)}`);
+    }
+    const traceInterval = Math.max(1, Math.floor(gibbsSteps / 100));
+    for (let i = 0; i < gibbsSteps; i++) {
+      const temperature = this.annealingTemperature(gibbsSteps > 1 ? i / (gibbsSteps - 1) : 1);
+      this.sampleHiddenBinary(v, 1, h, temperature);
+      this.sampleVisibleBinary(h, 1, v, temperature);
+
+      if (trace && (i % traceInterval === 0 || i === gibbsSteps - 1)) {
+        trace.temperatures.push(temperature);
+        trace.energies.push(this.computeEnergy(v, h));
       }
-      for (let j = 0; j < this.nVisible; j++) {
-        posVisible[j] += sample[j];
+
+      if (trace && i % 500 === 0) {
+        console.log(`⚡ Шаг ${i}: T = ${temperature.toFixed(2)}, энергия = ${trace.energies[trace.energies.length - 1].toFixed(1)}`);
       }
     }
 
-    // Усредняем
-    const scale = 1 / batchSize;
-    for (let i = 0; i < this.nHidden; i++) {
-      for (let j = 0; j < this.nVisible; j++) {
-        posPhase[i][j] *= scale;
-      }
-      posHidden[i] *= scale;
+    const { energy } = this.gibbsSampleWithEnergy(v, 100);
+    if (trace) {
+      console.log(`⚡ Энергия после burn-in: ${energy.slice(-10).map(e => e.toFixed(1)).join(', ')}`);
     }
-    for (let j = 0; j < this.nVisible; j++) {
-      posVisible[j] *= scale;
+
+    // Собираем 500 (по умолчанию) сэмплов строками матриц отрицательной фазы
+    const modelVisible = this.buffer('modelVisible', negPhaseSamples * this.nVisible);
+    const modelHidden = this.buffer('modelHidden', negPhaseSamples * this.nHidden);
+    for (let s = 0; s < negPhaseSamples; s++) {
+      // Используем бинарную выборку для перехода между состояниями
+      this.sampleHiddenBinary(v, 1, h);
+      this.sampleVisibleBinary(h, 1, v);
+      modelHidden.set(h, s * this.nHidden);
+      modelVisible.set(v, s * this.nVisible);
     }
 
+    return { hidden: modelHidden, visible: modelVisible, rows: negPhaseSamples };
+  }
+
+  /**
+   * Обучение методом сэмплирования из равновесия
+   * Равновесие достигается имитацией отжига: во время burn-in температура
+   * снижается от annealStartTemperature до annealEndTemperature, затем
+   * отрицательная фаза собирается при T = 1. Для каждого батча сохраняется
+   * трасса энергии в зависимости от температуры
+   * @param batch - батч обучающих данных
+   * @param gibbsSteps - количество шагов Гиббса для достижения равновесия (по умолчанию 3000)
+   * @param negPhaseSamples - количество сэмплов для отрицательной фазы (по умолчанию 500)
+   */
+  private equilibriumLearning(batch: Float32Array[], gibbsSteps: number = 3000, negPhaseSamples: number = 500): void {
+    const batchSize = batch.length;
+    console.log(`Начинаем сэмплирование из равновесия (batchSize = ${batchSize})...`);
+
+    // Положительная фаза: среднее по данным
+    const positive = this.positivePhase(batch);
+
     // Отрицательная фаза: сэмплирование из модели
-    const negPhase = this.zeroMatrix(this.nHidden, this.nVisible);
-    const negHidden = new Float32Array(this.nHidden);
-    const negVisible = new Float32Array(this.nVisible);
+    const trace: AnnealingTrace = { temperatures: [], energies: [] };
+    const negative = this.equilibriumNegativePhase(batch[0], gibbsSteps, negPhaseSamples, trace);
+    this.annealingTraces.push(trace);
 
-    // Начальное состояние (случайное)
-    // let v = this.randomBinaryVector(this.nVisible);
-    let v = batch[0].slice();
-    let h = this.sampleHiddenBinary(v);
+    const avgHiddenActivation = negative.hidden.reduce((a, b) => a + b, 0) / negative.hidden.length;
+    console.log(`📉 Средняя активация скрытых нейронов (model): ${avgHiddenActivation.toFixed(3)}`);
 
-    // Burn-in: 2000 (по умолчанию) шагов Gibbs
-    console.log(`🔄 Начальная энергия: ${this.computeEnergy(v, h).toFixed(1)}`);
-    for (let i = 0; i < gibbsSteps; i++) {
-      h = this.sampleHiddenBinary(v);
-      v = this.sampleVisibleBinary(h);
+    // Обновляем веса (регуляризация — общая для всех методов, см. applyGradients)
+    this.applyGradients(positive, negative);
+  }
 
-      if (i % 500 === 0) {
-        const energy = this.computeEnergy(v, h);
-        console.log(`⚡ Шаг ${i}: энергия = ${energy.toFixed(1)}`);
+  /**
+   * Обучение методом контрастивной дивергенции (CD-k)
+   * Быстрый приближенный алгоритм обучения RBM: цепь Гиббса запускается с данных
+   * и делает cdSteps шагов. На каждом полушаге используются либо бинарные
+   * состояния, либо вероятности (среднее поле) — см. hiddenSampling/visibleSampling
+   * @param batch - батч обучающих данных
+   */
+  private contrastiveDivergence(batch: Float32Array[]): void {
+    const positive = this.positivePhase(batch);
+    this.applyGradients(positive, this.cdNegativePhase(positive));
+  }
+
+  /**
+   * Отрицательная фаза CD-k: cdSteps шагов Гиббса от данных положительной фазы
+   * @param positive - статистики данных
+   * @returns статистики реконструкций
+   */
+  private cdNegativePhase(positive: PhaseStatistics): PhaseStatistics {
+    const rows = positive.rows;
+
+    // Все цепи батча идут одной матрицей; буферы переиспользуются между шагами
+    const hiddenStateBuffer = this.buffer('hiddenState', rows * this.nHidden);
+    const visibleRecon = this.buffer('visibleRecon', rows * this.nVisible);
+    const hiddenRecon = this.buffer('hiddenRecon', rows * this.nHidden);
+    let hiddenState = this.layerState(positive.hidden, this.hiddenSampling, hiddenStateBuffer);
+
+    for (let step = 0; step < this.cdSteps; step++) {
+      if (this.visibleSampling === 'sampled') {
+        this.sampleVisibleBinary(hiddenState, rows, visibleRecon);
+      } else {
+        this.sampleVisible(hiddenState, rows, visibleRecon);
       }
+      this.sampleHidden(visibleRecon, rows, hiddenRecon);
+      hiddenState = this.layerState(hiddenRecon, this.hiddenSampling, hiddenStateBuffer);
     }
 
-    const { energy } = this.gibbsSampleWithEnergy(v, 100);
-    console.log(`⚡ Энергия после burn-in: ${energy.slice(-10).map(e => e.toFixed(1)).join(', ')}`);
+    return { hidden: hiddenRecon, visible: visibleRecon, rows };
+  }
 
-    // Собираем 500 (по умолчанию) сэмплов
-    for (let s = 0; s < negPhaseSamples; s++) {
-      // Используем бинарную выборку для перехода между состояниями
-      h = this.sampleHiddenBinary(v);
-      v = this.sampleVisibleBinary(h);
+  /**
+   * Обучение методом персистентной контрастивной дивергенции (PCD, Tieleman 2008)
+   * Отрицательные цепи Гиббса (fantasy particles) не перезапускаются с данных,
+   * а продолжаются с предыдущего батча и эпохи
+   * @param batch - батч обучающих данных
+   */
+  private persistentContrastiveDivergence(batch: Float32Array[]): void {
+    // Инициализация пула частиц бинарными сэмплами из первого батча
+    if (this.persistentChains.length === 0) {
+      const start = this.packBatch(batch, 'visibleData');
+      this.persistentChains = this.sampleVisibleBinary(this.sampleHiddenBinary(start, batch.length), batch.length);
+    }
+    const nChains = this.persistentChains.length / this.nVisible;
 
-      for (let i = 0; i < this.nHidden; i++) {
-        for (let j = 0; j < this.nVisible; j++) {
-          negPhase[i][j] += h[i] * v[j];
-        }
-        negHidden[i] += h[i];
-      }
-      for (let j = 0; j < this.nVisible; j++) {
-        negVisible[j] += v[j];
-      }
+    // Положительная фаза: статистики по данным
+    const positive = this.positivePhase(batch);
+
+    // Отрицательная фаза: cdSteps шагов Гиббса сразу для всех персистентных цепей
+    const chainHidden = this.buffer('chainHidden', nChains * this.nHidden);
+    for (let step = 0; step < this.cdSteps; step++) {
+      this.sampleHiddenBinary(this.persistentChains, nChains, chainHidden);
+      this.sampleVisibleBinary(chainHidden, nChains, this.persistentChains);
     }
 
-    // Усредняем
-    const negScale = 1 / negPhaseSamples;
-    for (let i = 0; i < this.nHidden; i++) {
-      for (let j = 0; j < this.nVisible; j++) {
-        negPhase[i][j] *= negScale;
+    const hiddenProb = this.sampleHidden(this.persistentChains, nChains, chainHidden);
+    this.applyGradients(positive, { hidden: hiddenProb, visible: this.persistentChains, rows: nChains });
+  }
+
+  /**
+   * Инициализирует лестницы реплик: все реплики лестницы c начинаются
+   * с одного и того же образца, полученного из batch[c]
+   * @param batch - первый батч обучающих данных
+   */
+  private initTemperedChains(batch: Float32Array[]): void {
+    const nReplicas = this.temperatures.length;
+    const nChains = this.nTemperedChains;
+    const nRows = nChains * nReplicas;
+
+    const starts = new Float32Array(nChains * this.nVisible);
+    for (let c = 0; c < nChains; c++) {
+      starts.set(batch[c % batch.length], c * this.nVisible);
+    }
+    const startVisible = this.sampleVisibleBinary(this.sampleHiddenBinary(starts, nChains), nChains);
+
+    this.temperedVisible = new Float32Array(nRows * this.nVisible);
+    for (let c = 0; c < nChains; c++) {
+      const row = startVisible.subarray(c * this.nVisible, (c + 1) * this.nVisible);
+      for (let k = 0; k < nReplicas; k++) {
+        this.temperedVisible.set(row, (c * nReplicas + k) * this.nVisible);
       }
-      negHidden[i] *= negScale;
     }
-    for (let j = 0; j < this.nVisible; j++) {
-      negVisible[j] *= negScale;
+    this.temperedHidden = this.sampleHiddenBinary(this.temperedVisible, nRows);
+
+    this.temperedEnergies = new Float64Array(nRows);
+    for (let r = 0; r < nRows; r++) {
+      this.temperedEnergies[r] = this.computeEnergy(
+        this.temperedVisible.subarray(r * this.nVisible, (r + 1) * this.nVisible),
+        this.temperedHidden.subarray(r * this.nHidden, (r + 1) * this.nHidden)
+      );
     }
+    this.temperedSlots = Int32Array.from({ length: nRows }, (_, r) => r);
+    this.ptStep = 0;
+  }
 
-    const avgHiddenActivation = negHidden.reduce((a, b) => a + b, 0) / this.nHidden;
-    console.log(`📉 Средняя активация скрытых нейронов (model): ${avgHiddenActivation.toFixed(3)}`);
+  /**
+   * Один шаг Гиббса сразу для всех реплик всех лестниц.
+   * Реплики хранятся строками одной матрицы, temperedSlots[c * nReplicas + k] —
+   * номер строки, находящейся сейчас на температуре k лестницы c (обмен реплик
+   * меняет только индексы). Энергия при T = 1 считается по пре-активациям
+   * видимого слоя: E = −v·(b + Wᵀh) − c·h
+   */
+  private temperedGibbsStep(): void {
+    const nReplicas = this.temperatures.length;
+    const nRows = this.nTemperedChains * nReplicas;
+    const visible = this.temperedVisible;
+    const hidden = this.temperedHidden;
+
+    const rowBeta = this.buffer('temperedRowBeta', nRows);
+    for (let slot = 0; slot < nRows; slot++) {
+      rowBeta[this.temperedSlots[slot]] = 1 / this.temperatures[slot % nReplicas];
+    }
 
-    // Обновляем веса
-    for (let i = 0; i < this.nHidden; i++) {
-      for (let j = 0; j < this.nVisible; j++) {
-        this.weights[i][j] += effectiveLearningRate * (posPhase[i][j] - negPhase[i][j]);
-        // L2 регуляризация
-        this.weights[i][j] *= 0.99; // лёгкое затухание
+    this.hiddenInput(visible, nRows, hidden);
+    for (let r = 0; r < nRows; r++) {
+      const offset = r * this.nHidden;
+      for (let j = 0; j < this.nHidden; j++) {
+        const prob = 1 / (1 + Math.exp(-hidden[offset + j] * rowBeta[r]));
+        hidden[offset + j] = this.random.next() < prob ? 1 : 0;
       }
-      this.hiddenBias[i] += effectiveLearningRate * (posHidden[i] - negHidden[i]);
     }
-    for (let j = 0; j < this.nVisible; j++) {
-      this.visibleBias[j] += effectiveLearningRate * (posVisible[j] - negVisible[j]);
+
+    this.sampleTemperedVisible(hidden, nRows, rowBeta, visible, this.temperedEnergies);
+    for (let r = 0; r < nRows; r++) {
+      const hiddenOffset = r * this.nHidden;
+      let energy = this.temperedEnergies[r];
+      for (let j = 0; j < this.nHidden; j++) {
+        energy -= this.hiddenBias[j] * hidden[hiddenOffset + j];
+      }
+      this.temperedEnergies[r] = energy;
     }
   }
 
   /**
-   * Обучение методом контрастивной дивергенции (CD-1)
-   * Быстрый приближенный алгоритм обучения RBM
-   * @param batch - батч обучающих данных
+   * Видимый полушаг параллельного темперирования: строка r сэмплируется
+   * при обратной температуре rowBeta[r]
+   * @param hidden - состояния скрытого слоя nRows × nHidden
+   * @param nRows - количество реплик
+   * @param rowBeta - обратная температура каждой строки
+   * @param visible - матрица nRows × nVisible для новых состояний
+   * @param energies - сюда записывается энергия при T = 1 без члена −c·h
    */
-  private contrastiveDivergence(batch: Float32Array[]): void {
-    const batchSize = batch.length;
+  protected sampleTemperedVisible(
+    hidden: Float32Array,
+    nRows: number,
+    rowBeta: Float32Array,
+    visible: Float32Array,
+    energies: Float64Array
+  ): void {
+    const field = this.buffer('temperedVisibleField', nRows * this.nVisible);
+    matMulTransposed(hidden, nRows, this.weightsT, this.nVisible, this.nHidden, field, this.visibleBias);
+    for (let r = 0; r < nRows; r++) {
+      const offset = r * this.nVisible;
+      let energy = 0;
+      for (let i = 0; i < this.nVisible; i++) {
+        const prob = 1 / (1 + Math.exp(-field[offset + i] * rowBeta[r]));
+        const state = this.random.next() < prob ? 1 : 0;
+        visible[offset + i] = state;
+        energy -= state * field[offset + i];
+      }
+      energies[r] = energy;
+    }
+  }
 
-    const weightGrad = this.randomMatrix(this.nHidden, this.nVisible, 0);
-    const hiddenGrad = new Float32Array(this.nHidden);
-    const visibleGrad = new Float32Array(this.nVisible);
+  /**
+   * Обучение с параллельным темперированием (PT, Desjardins et al. 2010)
+   * Для каждой лестницы реплик делается шаг Гиббса при своей температуре,
+   * затем соседние реплики пытаются обменяться состояниями по критерию Метрополиса.
+   * Отрицательная фаза оценивается по репликам с T = 1, которые благодаря обменам
+   * переходят между модами (разными цифрами)
+   * @param batch - батч обучающих данных
+   */
+  private parallelTemperingLearning(batch: Float32Array[]): void {
+    const nReplicas = this.temperatures.length;
+    const nChains = this.nTemperedChains;
 
-    for (const sample of batch) {
-      const hiddenProb = this.sampleHidden(sample);
-      const visibleRecon = this.sampleVisible(hiddenProb);
-      const hiddenRecon = this.sampleHidden(visibleRecon);
+    if (this.temperedVisible.length === 0) {
+      this.initTemperedChains(batch);
+    }
 
-      for (let i = 0; i < this.nHidden; i++) {
-        for (let j = 0; j < this.nVisible; j++) {
-          weightGrad[i][j] += (hiddenProb[i] * sample[j] - hiddenRecon[i] * visibleRecon[j]) / batchSize;
+    // Положительная фаза: статистики по данным
+    const positive = this.positivePhase(batch);
+
+    this.temperedGibbsStep();
+
+    // Обмены между соседними температурами: чётность пар чередуется от шага к шагу
+    // (и между соседними лестницами), так что каждая пара пробует обмен через шаг
+    for (let c = 0; c < nChains; c++) {
+      const base = c * nReplicas;
+      for (let k = (this.ptStep + c) % 2; k < nReplicas - 1; k += 2) {
+        const lower = this.temperedSlots[base + k];
+        const upper = this.temperedSlots[base + k + 1];
+        const betaDiff = 1 / this.temperatures[k] - 1 / this.temperatures[k + 1];
+        const energyDiff = this.temperedEnergies[lower] - this.temperedEnergies[upper];
+        const acceptProb = Math.min(1, Math.exp(betaDiff * energyDiff));
+
+        this.swapAttempts[k]++;
+        if (this.random.next() < acceptProb) {
+          this.temperedSlots[base + k] = upper;
+          this.temperedSlots[base + k + 1] = lower;
+          this.swapAccepts[k]++;
         }
-        hiddenGrad[i] += (hiddenProb[i] - hiddenRecon[i]) / batchSize;
-      }
-
-      for (let i = 0; i < this.nVisible; i++) {
-        visibleGrad[i] += (sample[i] - visibleRecon[i]) / batchSize;
       }
     }
+    this.ptStep++;
 
-    for (let i = 0; i < this.nHidden; i++) {
-      for (let j = 0; j < this.nVisible; j++) {
-        this.weights[i][j] += this.learningRate * weightGrad[i][j];
-      }
-      this.hiddenBias[i] += this.learningRate * hiddenGrad[i];
+    // Отрицательная фаза: реплики с T = 1
+    const negVisible = this.buffer('temperedNegVisible', nChains * this.nVisible);
+    for (let c = 0; c < nChains; c++) {
+      const row = this.temperedSlots[c * nReplicas];
+      negVisible.set(this.temperedVisible.subarray(row * this.nVisible, (row + 1) * this.nVisible), c * this.nVisible);
     }
+    const hiddenProb = this.sampleHidden(negVisible, nChains, this.buffer('temperedNegHidden', nChains * this.nHidden));
 
-    for (let i = 0; i < this.nVisible; i++) {
-      this.visibleBias[i] += this.learningRate * visibleGrad[i];
+    this.applyGradients(positive, { hidden: hiddenProb, visible: negVisible, rows: nChains });
+  }
+
+  /**
+   * Возвращает долю принятых обменов между соседними репликами и сбрасывает счётчики
+   * @returns статистика обменов для отчёта об эпохе
+   */
+  private collectSwapStats(): EpochStats {
+    const swapAcceptanceRates = Array.from(this.swapAttempts, (attempts, k) =>
+      attempts > 0 ? this.swapAccepts[k] / attempts : 0
+    );
+    this.swapAttempts.fill(0);
+    this.swapAccepts.fill(0);
+    return { temperatures: this.temperatures.slice(), swapAcceptanceRates };
+  }
+
+  /**
+   * Точка между батчами: ждёт снятия паузы и сообщает, нужно ли остановить обучение
+   * @param signal - сигнал остановки
+   * @param pauseController - управление паузой
+   * @returns true, если обучение остановлено
+   */
+  private async checkpoint(signal?: AbortSignal, pauseController?: PauseController): Promise<boolean> {
+    await pauseController?.wait(signal);
+    return signal?.aborted ?? false;
+  }
+
+  /**
+   * Передаёт наблюдателю копию весов, если пройдены очередные snapshotInterval батчей
+   * @param monitor - наблюдение за обучением
+   * @param epoch - номер эпохи (с 1)
+   * @param batch - номер только что обработанного батча (с 1)
+   */
+  private reportSnapshot(monitor: TrainingMonitor | undefined, epoch: number, batch: number): void {
+    if (!monitor?.onSnapshot) return;
+    const interval = Math.max(1, monitor.snapshotInterval ?? 10);
+    if (batch % interval !== 0) return;
+
+    monitor.onSnapshot({
+      epoch,
+      batch,
+      nHidden: this.nHidden,
+      nVisible: this.nVisible,
+      weights: this.weights.slice()
+    });
+  }
+
+  /**
+   * Статистика эпохи, общая для всех методов: метрики качества и состояние параметров
+   * @param data - обучающие образцы
+   * @param validationData - отложенные образцы (если есть)
+   * @returns метрики и диагностика модели
+   */
+  private epochReport(data: Float32Array[], validationData?: Float32Array[]): EpochStats {
+    const metrics = this.evaluate(data);
+    if (validationData && validationData.length > 0) {
+      metrics.validationFreeEnergy = this.meanFreeEnergy(validationData);
     }
+    return { metrics, diagnostics: this.diagnostics(data) };
+  }
+
+  /**
+   * Обучающие образцы модели из изображений с метками (у бинарной RBM — сами изображения)
+   * @param data - изображения и метки
+   * @returns образцы для fit() и метрик
+   */
+  encodeData(data: LabeledData): Float32Array[] {
+    return data.images;
   }
 
   /**
    * Обучает RBM на предоставленных данных
-   * @param data - массив обучающих образцов
+   * @param data - массив обучающих образцов или набор данных: тогда модель обучается
+   *   на разделе train, а отложенные метрики считаются на validation (если monitor их не задаёт)
    * @param nEpochs - количество эпох обучения (по умолчанию 15)
    * @param progressCallback - функция обратного вызова для отслеживания прогресса
-   * @returns Promise, который разрешается по завершении обучения
+   *   (получает метрики качества за эпоху, см. evaluate(); для параллельного темперирования —
+   *   статистику обменов, для сэмплирования из равновесия — трассу отжига последнего батча).
+   *   Если она возвращает Promise, следующая эпоха начнётся только после его разрешения
+   * @param signal - сигнал остановки: обучение прерывается перед следующим батчем,
+   *   модель остаётся в согласованном частично обученном состоянии
+   * @param pauseController - пауза и продолжение обучения с точностью до батча
+   * @param monitor - отложенные данные для метрик эпохи, снимки весов каждые N батчей
+   *   и стохастическая бинаризация входа (resampleBinarized)
+   * @returns Promise, который разрешается по завершении или остановке обучения
    */
   async fit(
-    data: Float32Array[],
+    data: Float32Array[] | Dataset,
     nEpochs = 15,
-    progressCallback?: (epoch: number, totalEpochs: number) => void
+    progressCallback?: (epoch: number, totalEpochs: number, stats?: EpochStats) => void | Promise<void>,
+    signal?: AbortSignal,
+    pauseController?: PauseController,
+    monitor?: TrainingMonitor
   ): Promise<void> {
+    if (isDataset(data)) {
+      monitor = { ...monitor, validationData: monitor?.validationData ?? this.encodeData(getSplit(data, 'validation')) };
+      data = this.encodeData(getSplit(data, 'train'));
+    }
+    // Стохастическая бинаризация: образцы — вероятности пикселей, бинарный вход
+    // сэмплируется заново каждый раз, когда образец попадает в батч (раз в эпоху)
+    const resample = monitor?.resampleBinarized ?? false;
+
     console.log(`🚀 Начинаем обучение методом: ${this.trainingMethod}`);
 
     if (this.trainingMethod === 'equilibrium') {
@@ -397,30 +932,40 @@ export class BernoulliRBM {
       // Для сэмплирования из равновесия используем меньше данных
       const reducedData = data.slice(0, Math.min(20, data.length));
       const reducedEpochs = Math.min(10, nEpochs);
+      this.annealingTraces = [];
       const nBatches = Math.ceil(reducedData.length / this.batchSize);
-      const realBatchSize = Math.min(this.batchSize, reducedData.length);
       console.log(`📊 Данные: ${reducedData.length} образцов, батчей: ${nBatches}, эпох: ${reducedEpochs}`);
 
       for (let epoch = 0; epoch < reducedEpochs; epoch++) {
         console.log(`📈 Прогресс обучения: эпоха ${epoch + 1}/${reducedEpochs}`);
+        this.optimizer.startEpoch();
 
         const indices = this.getShuffledIndices(reducedData.length);
 
         for (let batchIdx = 0; batchIdx < nBatches; batchIdx++) {
-          const batch: Float32Array[] = [];
-          for (let i = 0; i < realBatchSize; i++) {
-            const idx = indices[batchIdx * realBatchSize + i];
-            batch.push(data[idx]);
-          }
+          if (await this.checkpoint(signal, pauseController)) break;
+
+          // Последний батч может быть неполным: образцов меньше, чем батчей × размер батча
+          const batch = indices
+            .slice(batchIdx * this.batchSize, (batchIdx + 1) * this.batchSize)
+            .map(idx => resample ? this.sampleBernoulli(reducedData[idx]) : reducedData[idx]);
           this.equilibriumLearning(batch);
+          this.reportSnapshot(monitor, epoch + 1, batchIdx + 1);
 
           if (batchIdx % 5 === 0) {
             await new Promise(resolve => setTimeout(resolve, 0));
           }
         }
 
+        if (signal?.aborted) {
+          console.log(`⏹️ Обучение остановлено на эпохе ${epoch + 1}/${reducedEpochs}`);
+          return;
+        }
+
         if (progressCallback) {
-          progressCallback(epoch + 1, reducedEpochs);
+          const annealingTrace = this.annealingTraces[this.annealingTraces.length - 1];
+          const report = this.epochReport(reducedData, monitor?.validationData);
+          await progressCallback(epoch + 1, reducedEpochs, { annealingTrace, ...report });
         }
         // Пауза для обновления UI
         await new Promise(resolve => setTimeout(resolve, 100));
@@ -430,34 +975,59 @@ export class BernoulliRBM {
       const hiddenProbs = this.sampleHidden(sample);
       console.log('Активации скрытых нейронов:', Array.from(hiddenProbs));
     } else {
-      console.log('⚡ Используем контрастивную дивергенцию');
-      // Контрастивная дивергенция (оригинальный метод)
+      if (this.trainingMethod === 'persistent-cd') {
+        console.log('🔁 Используем персистентную контрастивную дивергенцию');
+      } else if (this.trainingMethod === 'parallel-tempering') {
+        console.log(`🌡️ Используем параллельное темперирование (${this.temperatures.length} реплик)`);
+      } else {
+        console.log('⚡ Используем контрастивную дивергенцию');
+      }
+      // Контрастивная дивергенция и методы с персистентными цепями
       const nSamples = data.length;
-      const nBatches = Math.floor(nSamples / this.batchSize);
+      // Неполный хвост пропускается, но набор меньше батча обучается одним батчем
+      // из всех образцов — иначе эпохи прошли бы без единого обновления параметров
+      const batchSize = Math.min(this.batchSize, nSamples);
+      if (batchSize < this.batchSize) {
+        console.warn(`⚠️ Образцов (${nSamples}) меньше размера батча ${this.batchSize}: батч уменьшен до ${batchSize}`);
+      }
+      const nBatches = batchSize > 0 ? Math.floor(nSamples / batchSize) : 0;
       console.log(`📊 Данные: ${nSamples} образцов, батчей: ${nBatches}, эпох: ${nEpochs}`);
 
       for (let epoch = 0; epoch < nEpochs; epoch++) {
-        const indices = Array.from({ length: nSamples }, (_, i) => i);
-        for (let i = indices.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1));
-          [indices[i], indices[j]] = [indices[j], indices[i]];
-        }
+        this.optimizer.startEpoch();
+        const indices = this.getShuffledIndices(nSamples);
 
         for (let batchIdx = 0; batchIdx < nBatches; batchIdx++) {
+          if (await this.checkpoint(signal, pauseController)) break;
+
           const batch: Float32Array[] = [];
-          for (let i = 0; i < this.batchSize; i++) {
-            const idx = indices[batchIdx * this.batchSize + i];
-            batch.push(data[idx]);
+          for (let i = 0; i < batchSize; i++) {
+            const idx = indices[batchIdx * batchSize + i];
+            batch.push(resample ? this.sampleBernoulli(data[idx]) : data[idx]);
+          }
+          if (this.trainingMethod === 'persistent-cd') {
+            this.persistentContrastiveDivergence(batch);
+          } else if (this.trainingMethod === 'parallel-tempering') {
+            this.parallelTemperingLearning(batch);
+          } else {
+            this.contrastiveDivergence(batch);
           }
-          this.contrastiveDivergence(batch);
+          this.reportSnapshot(monitor, epoch + 1, batchIdx + 1);
 
           if (batchIdx % 5 === 0) {
             await new Promise(resolve => setTimeout(resolve, 0));
           }
         }
 
+        if (signal?.aborted) {
+          console.log(`⏹️ Обучение остановлено на эпохе ${epoch + 1}/${nEpochs}`);
+          return;
+        }
+
         if (progressCallback) {
-          progressCallback(epoch + 1, nEpochs);
+          const swapStats = this.trainingMethod === 'parallel-tempering' ? this.collectSwapStats() : {};
+          const report = this.epochReport(data, monitor?.validationData);
+          await progressCallback(epoch + 1, nEpochs, { ...swapStats, ...report });
         }
 
         await new Promise(resolve => setTimeout(resolve, 10));
@@ -465,6 +1035,258 @@ export class BernoulliRBM {
     }
   }
 
+  /**
+   * Оценка градиента логарифма правдоподобия на батче одним из приближённых методов,
+   * без регуляризации и без изменения параметров. Цепи Гиббса используют
+   * генератор модели, поэтому каждый вызов даёт новую случайную оценку
+   * @param batch - батч данных (положительная фаза)
+   * @param method - метод отрицательной фазы: CD-k (с текущими cdSteps и режимами
+   *   сэмплирования) или сэмплирование из равновесия
+   * @param gibbsSteps - шагов burn-in для сэмплирования из равновесия (по умолчанию 3000)
+   * @param negPhaseSamples - сэмплов отрицательной фазы для сэмплирования из равновесия (по умолчанию 500)
+   * @returns копии градиентов весов и смещений
+   */
+  estimateGradient(
+    batch: Float32Array[],
+    method: GradientEstimator,
+    gibbsSteps: number = 3000,
+    negPhaseSamples: number = 500
+  ): RBMGradient {
+    const positive = this.positivePhase(batch);
+    const negative = method === 'equilibrium'
+      ? this.equilibriumNegativePhase(batch[0], gibbsSteps, negPhaseSamples)
+      : this.cdNegativePhase(positive);
+    this.computeGradients(positive, negative);
+
+    return {
+      weights: this.weightGrad.slice(),
+      hiddenBias: this.hiddenGrad.slice(),
+      visibleBias: this.visibleGrad.slice()
+    };
+  }
+
+  /**
+   * Делает шаг обучения по готовому градиенту (например, точному, см. ExactInference)
+   * через оптимизатор модели, без регуляризации
+   * @param gradient - направление подъёма правдоподобия
+   */
+  applyGradient(gradient: RBMGradient): void {
+    this.weightGrad.set(gradient.weights);
+    this.hiddenGrad.set(gradient.hiddenBias);
+    this.visibleGrad.set(gradient.visibleBias);
+    this.optimizerStep();
+  }
+
+  /**
+   * Упаковывает первые образцы набора для оценки качества
+   * @param data - образцы для оценки
+   * @param maxSamples - максимальное количество образцов
+   * @returns упакованная матрица и количество строк
+   */
+  private evaluationBatch(data: Float32Array[], maxSamples: number): { visible: Float32Array, rows: number } {
+    const rows = Math.min(maxSamples, data.length);
+    return { visible: this.packBatch(data.slice(0, rows), 'evalVisible'), rows };
+  }
+
+  /**
+   * Свободные энергии строк батча: F(v) = −b·v − Σⱼ softplus(cⱼ + Wⱼ·v)
+   * @param visible - матрица rows × nVisible
+   * @param rows - количество образцов
+   * @returns свободная энергия каждой строки
+   */
+  protected freeEnergies(visible: Float32Array, rows: number): Float64Array {
+    const field = this.buffer('freeEnergyField', rows * this.nHidden);
+    this.hiddenInput(visible, rows, field);
+
+    const energies = new Float64Array(rows);
+    for (let r = 0; r < rows; r++) {
+      const fieldOffset = r * this.nHidden;
+      let energy = this.visibleEnergy(visible, r * this.nVisible);
+      for (let j = 0; j < this.nHidden; j++) {
+        energy -= softplus(field[fieldOffset + j]);
+      }
+      energies[r] = energy;
+    }
+    return energies;
+  }
+
+  /**
+   * Член энергии, зависящий только от видимого слоя: −b·v
+   * @param visible - матрица образцов
+   * @param offset - начало строки образца в матрице
+   * @returns вклад видимого слоя в энергию
+   */
+  protected visibleEnergy(visible: Float32Array, offset: number): number {
+    let energy = 0;
+    for (let i = 0; i < this.nVisible; i++) {
+      energy -= this.visibleBias[i] * visible[offset + i];
+    }
+    return energy;
+  }
+
+  /**
+   * Энергия совместного состояния: E(v, h) = −b·v − c·h − hᵀWv
+   * @param visible - состояние видимого слоя
+   * @param hidden - состояние скрытого слоя
+   * @returns энергия
+   */
+  energy(visible: Float32Array, hidden: Float32Array): number {
+    return this.computeEnergy(visible, hidden);
+  }
+
+  /**
+   * Свободная энергия видимого состояния: F(v) = −b·v − Σⱼ log(1 + exp(cⱼ + Wⱼ·v)).
+   * Скрытый слой просуммирован аналитически, поэтому p(v) = exp(−F(v)) / Z:
+   * чем ниже свободная энергия образца, тем выше его вероятность в модели
+   * @param sample - видимое состояние
+   * @returns свободная энергия
+   */
+  freeEnergy(sample: Float32Array): number {
+    return this.freeEnergies(sample, 1)[0];
+  }
+
+  /**
+   * Средняя свободная энергия по (части) набора данных
+   * @param data - образцы для оценки
+   * @param maxSamples - максимальное количество образцов (по умолчанию 200)
+   * @returns средняя свободная энергия
+   */
+  meanFreeEnergy(data: Float32Array[], maxSamples: number = 200): number {
+    const { visible, rows } = this.evaluationBatch(data, maxSamples);
+    if (rows === 0) return 0;
+    return this.freeEnergies(visible, rows).reduce((sum, energy) => sum + energy, 0) / rows;
+  }
+
+  /**
+   * Псевдо-логарифм правдоподобия (Besag 1975): Σᵢ log p(vᵢ | v₋ᵢ), усреднённый по образцам.
+   * Не требует статистической суммы Z: log p(vᵢ | v₋ᵢ) = log σ(F(ṽ) − F(v)), где ṽ — v
+   * с инвертированным i-м пикселем. Считается точно по всем пикселям для бинаризованных
+   * (порог 0.5) образцов; инверсия пикселя i меняет пре-активации скрытого слоя на ±Wᵀᵢ
+   * @param data - образцы для оценки
+   * @param maxSamples - максимальное количество образцов (по умолчанию 200)
+   * @returns псевдо-логарифм правдоподобия на образец (≤ 0, больше — лучше)
+   */
+  pseudoLogLikelihood(data: Float32Array[], maxSamples: number = 200): number {
+    const { visible, rows } = this.evaluationBatch(data, maxSamples);
+    if (rows === 0) return 0;
+
+    for (let k = 0; k < rows * this.nVisible; k++) {
+      visible[k] = visible[k] > 0.5 ? 1 : 0;
+    }
+    const field = this.buffer('pllField', rows * this.nHidden);
+    matMulTransposed(visible, rows, this.weights, this.nHidden, this.nVisible, field, this.hiddenBias);
+    const energies = this.freeEnergies(visible, rows);
+
+    let total = 0;
+    for (let r = 0; r < rows; r++) {
+      const visibleOffset = r * this.nVisible;
+      const fieldOffset = r * this.nHidden;
+      let visibleTerm = 0;
+      for (let i = 0; i < this.nVisible; i++) {
+        visibleTerm += this.visibleBias[i] * visible[visibleOffset + i];
+      }
+
+      for (let i = 0; i < this.nVisible; i++) {
+        const delta = 1 - 2 * visible[visibleOffset + i];
+        const column = i * this.nHidden;
+        let flipped = -(visibleTerm + delta * this.visibleBias[i]);
+        for (let j = 0; j < this.nHidden; j++) {
+          flipped -= softplus(field[fieldOffset + j] + delta * this.weightsT[column + j]);
+        }
+        // log σ(x) = −softplus(−x)
+        total -= softplus(energies[r] - flipped);
+      }
+    }
+    return total / rows;
+  }
+
+  /**
+   * Ошибки реконструкции v → p(h | v) → p(v | h) по (части) набора данных
+   * @param data - образцы для оценки
+   * @param maxSamples - максимальное количество образцов
+   * @returns MSE (на пиксель) и перекрёстная энтропия (на образец)
+   */
+  protected reconstructionErrors(
+    data: Float32Array[],
+    maxSamples: number
+  ): Pick<EpochMetrics, 'reconstructionError' | 'reconstructionCrossEntropy'> {
+    const { visible, rows } = this.evaluationBatch(data, maxSamples);
+    if (rows === 0) return { reconstructionError: 0, reconstructionCrossEntropy: 0 };
+
+    const hidden = this.sampleHidden(visible, rows, this.buffer('evalHidden', rows * this.nHidden));
+    const reconstruction = this.sampleVisible(hidden, rows, this.buffer('evalReconstruction', rows * this.nVisible));
+
+    const eps = 1e-7;
+    let squaredError = 0;
+    let crossEntropy = 0;
+    for (let k = 0; k < rows * this.nVisible; k++) {
+      const v = visible[k];
+      const p = Math.min(1 - eps, Math.max(eps, reconstruction[k]));
+      const diff = v - reconstruction[k];
+      squaredError += diff * diff;
+      crossEntropy -= v * Math.log(p) + (1 - v) * Math.log(1 - p);
+    }
+    return {
+      reconstructionError: squaredError / (rows * this.nVisible),
+      reconstructionCrossEntropy: crossEntropy / rows
+    };
+  }
+
+  /**
+   * Нормы параметров и средняя активация скрытых нейронов на (части) набора данных
+   * @param data - образцы для оценки
+   * @param maxSamples - максимальное количество образцов (по умолчанию 200)
+   * @returns евклидовы нормы весов (Фробениуса) и смещений, средняя p(h = 1 | v)
+   */
+  diagnostics(data: Float32Array[], maxSamples: number = 200): ModelDiagnostics {
+    const norm = (values: Float32Array) => Math.sqrt(values.reduce((sum, x) => sum + x * x, 0));
+
+    let meanHiddenActivation = 0;
+    const { visible, rows } = this.evaluationBatch(data, maxSamples);
+    if (rows > 0) {
+      const hidden = this.sampleHidden(visible, rows, this.buffer('evalHidden', rows * this.nHidden));
+      for (let k = 0; k < rows * this.nHidden; k++) {
+        meanHiddenActivation += hidden[k];
+      }
+      meanHiddenActivation /= rows * this.nHidden;
+    }
+
+    return {
+      weightNorm: norm(this.weights),
+      hiddenBiasNorm: norm(this.hiddenBias),
+      visibleBiasNorm: norm(this.visibleBias),
+      meanHiddenActivation
+    };
+  }
+
+  /**
+   * Перекрёстная энтропия реконструкции по (части) набора данных:
+   * −Σᵢ [vᵢ log pᵢ + (1 − vᵢ) log(1 − pᵢ)], где p — вероятности реконструкции
+   * @param data - образцы для оценки
+   * @param maxSamples - максимальное количество образцов (по умолчанию 200)
+   * @returns перекрёстная энтропия на образец (в натах)
+   */
+  reconstructionCrossEntropy(data: Float32Array[], maxSamples: number = 200): number {
+    return this.reconstructionErrors(data, maxSamples).reconstructionCrossEntropy;
+  }
+
+  /**
+   * Все метрики качества по (части) набора данных; их fit() сообщает после каждой эпохи.
+   * Точный псевдо-логарифм правдоподобия стоит nVisible · nHidden экспонент на образец,
+   * поэтому он считается не более чем по pllSamples образцам
+   * @param data - образцы для оценки
+   * @param maxSamples - максимальное количество образцов (по умолчанию 200)
+   * @param pllSamples - максимальное количество образцов для псевдо-правдоподобия (по умолчанию 50)
+   * @returns ошибки реконструкции, средняя свободная энергия и псевдо-логарифм правдоподобия
+   */
+  evaluate(data: Float32Array[], maxSamples: number = 200, pllSamples: number = 50): EpochMetrics {
+    return {
+      ...this.reconstructionErrors(data, maxSamples),
+      freeEnergy: this.meanFreeEnergy(data, maxSamples),
+      pseudoLogLikelihood: this.pseudoLogLikelihood(data, Math.min(maxSamples, pllSamples))
+    };
+  }
+
   /**
    * Реконструирует входные данные через скрытое представление
    * @param sample - входной образец для реконструкции
@@ -477,22 +1299,177 @@ export class BernoulliRBM {
   }
 
   /**
-   * Сохраняет обученные веса в Local Storage браузера
-   * @returns true если сохранение прошло успешно, false в противном случае
+   * Вероятности скрытого слоя p(h = 1 | v) для набора образцов (проход вверх)
+   * @param samples - образцы видимого слоя
+   * @returns вероятности скрытого слоя для каждого образца
    */
-  saveToLocalStorage(): boolean {
-    const data = {
+  hiddenProbabilities(samples: Float32Array[]): Float32Array[] {
+    const rows = samples.length;
+    const packed = new Float32Array(rows * this.nVisible);
+    samples.forEach((sample, s) => packed.set(sample, s * this.nVisible));
+    const hidden = this.sampleHidden(packed, rows);
+    return samples.map((_, s) => hidden.subarray(s * this.nHidden, (s + 1) * this.nHidden));
+  }
+
+  /**
+   * Вероятности видимого слоя p(v = 1 | h) для набора состояний скрытого слоя (проход вниз)
+   * @param hidden - состояния скрытого слоя
+   * @returns вероятности видимого слоя для каждого состояния
+   */
+  visibleProbabilities(hidden: Float32Array[]): Float32Array[] {
+    const rows = hidden.length;
+    const packed = new Float32Array(rows * this.nHidden);
+    hidden.forEach((state, s) => packed.set(state, s * this.nHidden));
+    const visible = this.sampleVisible(packed, rows);
+    return hidden.map((_, s) => visible.subarray(s * this.nVisible, (s + 1) * this.nVisible));
+  }
+
+  /**
+   * Цепь Гиббса из заданного состояния видимого слоя
+   * @param start - начальное состояние видимого слоя
+   * @param steps - количество шагов цепи
+   * @returns вероятности видимого слоя на последнем шаге
+   */
+  sampleChain(start: Float32Array, steps: number): Float32Array {
+    const v = start.slice();
+    const h = new Float32Array(this.nHidden);
+    for (let step = 0; step < steps; step++) {
+      this.sampleHiddenBinary(v, 1, h);
+      if (step < steps - 1) {
+        this.sampleVisibleBinary(h, 1, v);
+      }
+    }
+    return steps > 0 ? this.sampleVisible(h) : v;
+  }
+
+  /**
+   * Возвращает параметры, с которыми была создана модель
+   * @returns параметры RBM, пригодные для передачи в конструктор
+   */
+  getParams(): RBMParams {
+    return {
       nVisible: this.nVisible,
       nHidden: this.nHidden,
-      weights: this.weights.map(row => Array.from(row)),
+      learningRate: this.learningRate,
+      batchSize: this.batchSize,
+      trainingMethod: this.trainingMethod,
+      cdSteps: this.cdSteps,
+      hiddenSampling: this.hiddenSampling,
+      visibleSampling: this.visibleSampling,
+      ptReplicas: this.temperatures.length,
+      ptMaxTemperature: this.temperatures[this.temperatures.length - 1],
+      ptChains: this.nTemperedChains,
+      annealStartTemperature: this.annealStartTemperature,
+      annealEndTemperature: this.annealEndTemperature,
+      annealSchedule: this.annealSchedule,
+      ...this.optimizer.getSettings(),
+      weightDecayL1: this.weightDecayL1,
+      weightDecayL2: this.weightDecayL2,
+      sparsityTarget: this.sparsityTarget,
+      sparsityDecay: this.sparsityDecay,
+      sparsityCost: this.sparsityCost,
+      seed: this.seed
+    };
+  }
+
+  /**
+   * Сериализует модель вместе с состоянием оптимизатора
+   * @returns объект, пригодный для JSON.stringify
+   */
+  toJSON(): SerializedRBM {
+    return {
+      ...this.getParams(),
+      weights: Array.from({ length: this.nHidden }, (_, j) =>
+        Array.from(this.weights.subarray(j * this.nVisible, (j + 1) * this.nVisible))),
       hiddenBias: Array.from(this.hiddenBias),
       visibleBias: Array.from(this.visibleBias),
-      trainingMethod: this.trainingMethod,
+      optimizerState: this.optimizer.getState(),
+      randomState: this.random.getState(),
       timestamp: Date.now()
     };
+  }
 
+  /**
+   * Восстанавливает модель из сериализованного вида
+   * (вызывается у того класса модели, которым она была сохранена, см. rbmFactory.ts)
+   * @param data - результат toJSON()
+   * @returns экземпляр модели, готовый к использованию и продолжению обучения
+   */
+  static fromJSON<T extends BernoulliRBM>(this: new (params: RBMParams) => T, data: SerializedRBM): T {
+    const rbm = new this({
+      ...data,
+      learningRate: data.learningRate ?? 0.06,
+      batchSize: data.batchSize ?? 32,
+      trainingMethod: data.trainingMethod || 'contrastive-divergence'
+    });
+    rbm.restoreFromJSON(data);
+    return rbm;
+  }
+
+  /**
+   * Переносит параметры и состояние сериализованной модели в этот экземпляр
+   * @param data - результат toJSON()
+   */
+  protected restoreFromJSON(data: SerializedRBM): void {
+    data.weights.forEach((row: number[], j: number) => this.weights.set(row, j * this.nVisible));
+    this.hiddenBias = new Float32Array(data.hiddenBias);
+    this.visibleBias = new Float32Array(data.visibleBias);
+    this.syncTransposedWeights();
+    if (data.optimizerState) {
+      this.optimizer.setState(data.optimizerState);
+    }
+    if (data.randomState !== undefined) {
+      this.random.setState(data.randomState);
+    }
+  }
+
+  /**
+   * Возвращает модель для передачи в другой поток. Буферы не копируются:
+   * после postMessage с transfer этот экземпляр использовать нельзя
+   * @returns параметры, собственные буферы весов, состояние оптимизатора и генератора случайных чисел
+   */
+  toTransferable(): TransferableRBM {
+    return {
+      params: this.getParams(),
+      weights: this.weights,
+      hiddenBias: this.hiddenBias,
+      visibleBias: this.visibleBias,
+      optimizerState: this.optimizer.getState(),
+      randomState: this.random.getState()
+    };
+  }
+
+  /**
+   * Восстанавливает модель, полученную из другого потока, забирая её буферы
+   * @param model - результат toTransferable()
+   * @returns экземпляр модели, готовый к использованию и продолжению обучения
+   */
+  static fromTransferable<T extends BernoulliRBM>(this: new (params: RBMParams) => T, model: TransferableRBM): T {
+    const rbm = new this(model.params);
+    rbm.restoreFromTransferable(model);
+    return rbm;
+  }
+
+  /**
+   * Забирает буферы и состояние модели из другого потока в этот экземпляр
+   * @param model - результат toTransferable()
+   */
+  protected restoreFromTransferable(model: TransferableRBM): void {
+    this.weights = model.weights;
+    this.hiddenBias = model.hiddenBias;
+    this.visibleBias = model.visibleBias;
+    this.syncTransposedWeights();
+    this.optimizer.setState(model.optimizerState);
+    this.random.setState(model.randomState);
+  }
+
+  /**
+   * Сохраняет обученные веса в Local Storage браузера
+   * @returns true если сохранение прошло успешно, false в противном случае
+   */
+  saveToLocalStorage(): boolean {
     try {
-      const compressed = JSON.stringify(data);
+      const compressed = JSON.stringify(this.toJSON());
       localStorage.setItem('rbm_weights', compressed);
       console.log('✅ Веса успешно сохранены в Local Storage');
       return true;
@@ -503,41 +1480,21 @@ export class BernoulliRBM {
   }
 
   /**
-   * Загружает обученные веса из Local Storage браузера
-   * @returns экземпляр BernoulliRBM с загруженными весами или null при ошибке
+   * Возвращает матрицу весов между слоями
+   * @returns непрерывный массив весов [скрытые][видимые] построчно:
+   *   вес между скрытым j и видимым i лежит по индексу j * nVisible + i
    */
-  static loadFromLocalStorage(): BernoulliRBM | null {
-    try {
-      const compressed = localStorage.getItem('rbm_weights');
-      if (!compressed) return null;
-
-      const data = JSON.parse(compressed);
-      const rbm = new BernoulliRBM({
-        nVisible: data.nVisible,
-        nHidden: data.nHidden,
-        learningRate: 0.06,
-        batchSize: 32,
-        trainingMethod: data.trainingMethod || 'contrastive-divergence'
-      });
-
-      rbm.weights = data.weights.map((row: number[]) => new Float32Array(row));
-      rbm.hiddenBias = new Float32Array(data.hiddenBias);
-      rbm.visibleBias = new Float32Array(data.visibleBias);
-
-      console.log('✅ Веса успешно загружены из Local Storage');
-      return rbm;
-    } catch (e) {
-      console.error('❌ Ошибка загрузки весов:', e);
-      return null;
-    }
+  getWeights(): Float32Array {
+    return this.weights;
   }
 
   /**
-   * Возвращает матрицу весов между слоями
-   * @returns двумерный массив весов [скрытые][видимые]
+   * Возвращает фильтр (строку весов) скрытого нейрона без копирования
+   * @param hiddenIndex - индекс скрытого нейрона
+   * @returns веса от всех видимых нейронов к данному скрытому
    */
-  getWeights(): Float32Array[] {
-    return this.weights;
+  getFilter(hiddenIndex: number): Float32Array {
+    return this.weights.subarray(hiddenIndex * this.nVisible, (hiddenIndex + 1) * this.nVisible);
   }
 
   /**
@@ -563,4 +1520,21 @@ export class BernoulliRBM {
   getTrainingMethod(): TrainingMethod {
     return this.trainingMethod;
   }
+
+  /**
+   * Возвращает трассы отжига (энергия в зависимости от температуры)
+   * для каждого батча последнего обучения методом сэмплирования из равновесия
+   * @returns массив трасс в порядке обработки батчей
+   */
+  getAnnealingTraces(): AnnealingTrace[] {
+    return this.annealingTraces;
+  }
+
+  /**
+   * Возвращает количество шагов Гиббса k для CD-k/PCD-k
+   * @returns количество шагов
+   */
+  getCDSteps(): number {
+    return this.cdSteps;
+  }
 }
\ No newline at end of file
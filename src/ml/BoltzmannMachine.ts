@@ -0,0 +1,421 @@
+import { annealingTemperature } from './annealing';
+import { Random } from '../utils/random';
+import type {
+  AnnealingSchedule,
+  BoltzmannMachineParams,
+  GibbsUpdateOrder,
+  LateralConnectivity
+} from '../types';
+
+/**
+ * Наибольшее число нейронов для точного перебора: 2^20 ≈ 10⁶ состояний
+ */
+export const EXACT_MAX_UNITS = 20;
+
+// Масштаб случайной инициализации весов
+const INITIAL_WEIGHT_SCALE = 0.1;
+
+/**
+ * Полная (неограниченная) машина Больцмана (Ackley, Hinton & Sejnowski 1985):
+ * кроме связей видимый–скрытый, есть латеральные связи видимый–видимый и
+ * скрытый–скрытый. Все веса хранятся в одной симметричной матрице n × n
+ * (n = nVisible + nHidden, сначала видимые нейроны) с маской связности.
+ * Энергия: E(s) = −Σ_{i<j} Wᵢⱼ sᵢ sⱼ − Σᵢ bᵢ sᵢ.
+ * Из-за латеральных связей слои не факторизуются: p(h | v) нельзя посчитать
+ * за один проход, и обе фазы обучения требуют цепей Гиббса до равновесия.
+ * Обучение — исходное правило 1985 года:
+ * ΔWᵢⱼ = ε (⟨sᵢ sⱼ⟩_clamped − ⟨sᵢ sⱼ⟩_free),
+ * где в фиксированной фазе видимые нейроны закреплены на данных, а в свободной
+ * сеть работает без входа; равновесие достигается имитацией отжига
+ */
+export class BoltzmannMachine {
+  private nVisible: number;
+  private nHidden: number;
+  private nUnits: number;
+  private learningRate: number;
+  private visibleLateral: LateralConnectivity;
+  private hiddenLateral: LateralConnectivity;
+  private updateOrder: GibbsUpdateOrder;
+  private burnInSweeps: number;
+  private sampleSweeps: number;
+  private freeChains: number;
+  private annealStartTemperature: number;
+  private annealEndTemperature: number;
+  private annealSchedule: AnnealingSchedule;
+  private weights: Float32Array;
+  private bias: Float32Array;
+  private neighbours: Int32Array[];
+  private colourClasses: Int32Array[];
+  private random: Random;
+
+  /**
+   * Создает полную машину Больцмана
+   * @param params - параметры модели
+   * @param params.nVisible - количество видимых нейронов
+   * @param params.nHidden - количество скрытых нейронов
+   * @param params.learningRate - скорость обучения ε
+   * @param params.visibleLateral - связи между видимыми нейронами (по умолчанию 'full')
+   * @param params.hiddenLateral - связи между скрытыми нейронами (по умолчанию 'full')
+   * @param params.updateOrder - порядок обновлений Гиббса (по умолчанию 'sequential')
+   * @param params.burnInSweeps - проходов отжига до сбора статистик (по умолчанию 20)
+   * @param params.sampleSweeps - проходов сбора статистик в каждой цепи (по умолчанию 10)
+   * @param params.freeChains - количество цепей свободной фазы (по умолчанию 20)
+   * @param params.annealStartTemperature - начальная температура отжига (по умолчанию 10)
+   * @param params.annealEndTemperature - конечная температура отжига (по умолчанию 1)
+   * @param params.annealSchedule - форма расписания отжига (по умолчанию 'geometric')
+   * @param params.seed - seed генератора случайных чисел модели (по умолчанию случайный)
+   */
+  constructor({
+    nVisible,
+    nHidden,
+    learningRate,
+    visibleLateral = 'full',
+    hiddenLateral = 'full',
+    updateOrder = 'sequential',
+    burnInSweeps = 20,
+    sampleSweeps = 10,
+    freeChains = 20,
+    annealStartTemperature = 10,
+    annealEndTemperature = 1,
+    annealSchedule = 'geometric',
+    seed = Random.randomSeed()
+  }: BoltzmannMachineParams) {
+    this.nVisible = nVisible;
+    this.nHidden = nHidden;
+    this.nUnits = nVisible + nHidden;
+    this.learningRate = learningRate;
+    this.visibleLateral = visibleLateral;
+    this.hiddenLateral = hiddenLateral;
+    this.updateOrder = updateOrder;
+    this.burnInSweeps = Math.max(1, Math.round(burnInSweeps));
+    this.sampleSweeps = Math.max(1, Math.round(sampleSweeps));
+    this.freeChains = Math.max(1, Math.round(freeChains));
+    this.annealStartTemperature = annealStartTemperature;
+    this.annealEndTemperature = annealEndTemperature;
+    this.annealSchedule = annealSchedule;
+    this.random = new Random(seed >>> 0);
+
+    // Списки соседей: по ним считаются поля нейронов и собираются статистики
+    this.neighbours = Array.from({ length: this.nUnits }, (_, i) => Int32Array.from(
+      Array.from({ length: this.nUnits }, (_, j) => j).filter(j => this.isConnected(i, j))
+    ));
+
+    this.weights = new Float32Array(this.nUnits * this.nUnits);
+    for (let i = 0; i < this.nUnits; i++) {
+      for (const j of this.neighbours[i]) {
+        if (j <= i) continue;
+        const w = (this.random.next() - 0.5) * 2 * INITIAL_WEIGHT_SCALE;
+        this.weights[i * this.nUnits + j] = w;
+        this.weights[j * this.nUnits + i] = w;
+      }
+    }
+    this.bias = new Float32Array(this.nUnits);
+    this.colourClasses = this.colourUnits();
+  }
+
+  /**
+   * Есть ли связь между нейронами i и j
+   * @param i - индекс первого нейрона (видимые, затем скрытые)
+   * @param j - индекс второго нейрона
+   * @returns true, если вес Wᵢⱼ участвует в модели
+   */
+  private isConnected(i: number, j: number): boolean {
+    if (i === j) return false;
+    const iVisible = i < this.nVisible;
+    const jVisible = j < this.nVisible;
+    if (iVisible !== jVisible) return true;
+    return iVisible
+      ? BoltzmannMachine.isLateral(this.visibleLateral, i, j, this.nVisible)
+      : BoltzmannMachine.isLateral(this.hiddenLateral, i - this.nVisible, j - this.nVisible, this.nHidden);
+  }
+
+  /**
+   * Латеральная связь внутри слоя. Нейроны слоя в режиме 'grid' лежат
+   * построчно на квадратной решётке и связаны с четырьмя соседями
+   * @param connectivity - тип латеральных связей слоя
+   * @param a - индекс первого нейрона в слое
+   * @param b - индекс второго нейрона в слое
+   * @param size - размер слоя
+   * @returns true, если нейроны связаны
+   */
+  private static isLateral(connectivity: LateralConnectivity, a: number, b: number, size: number): boolean {
+    if (connectivity === 'none') return false;
+    if (connectivity === 'full') return true;
+    const side = Math.ceil(Math.sqrt(size));
+    const rowDistance = Math.abs(Math.floor(a / side) - Math.floor(b / side));
+    const columnDistance = Math.abs((a % side) - (b % side));
+    return rowDistance + columnDistance === 1;
+  }
+
+  /**
+   * Жадная раскраска графа связей: нейроны одного цвета не связаны между собой,
+   * поэтому при фиксированных остальных они независимы и обновляются одновременно.
+   * На решётке пикселей это шахматная раскраска, в RBM — два слоя
+   * @returns группы индексов нейронов по цветам
+   */
+  private colourUnits(): Int32Array[] {
+    const colours = new Int32Array(this.nUnits).fill(-1);
+    const classes: number[][] = [];
+    for (let i = 0; i < this.nUnits; i++) {
+      const used = new Set<number>();
+      for (const j of this.neighbours[i]) {
+        if (colours[j] >= 0) used.add(colours[j]);
+      }
+      let colour = 0;
+      while (used.has(colour)) colour++;
+      colours[i] = colour;
+      (classes[colour] ??= []).push(i);
+    }
+    return classes.map(units => Int32Array.from(units));
+  }
+
+  /**
+   * Вход нейрона: bᵢ + Σⱼ Wᵢⱼ sⱼ
+   * @param state - состояния всех нейронов
+   * @param i - индекс нейрона
+   * @returns поле нейрона
+   */
+  private field(state: Float32Array, i: number): number {
+    const offset = i * this.nUnits;
+    let field = this.bias[i];
+    for (const j of this.neighbours[i]) {
+      field += this.weights[offset + j] * state[j];
+    }
+    return field;
+  }
+
+  /**
+   * Один проход Гиббса по нейронам начиная с firstUnit: по одному в случайном
+   * порядке ('sequential') или группами одного цвета ('checkerboard')
+   * @param state - состояния всех нейронов (изменяются на месте)
+   * @param firstUnit - первый обновляемый нейрон: 0 — свободная фаза, nVisible — видимые закреплены
+   * @param temperature - температура T
+   */
+  private sweep(state: Float32Array, firstUnit: number, temperature: number): void {
+    if (this.updateOrder === 'sequential') {
+      const order = this.random.shuffle(Array.from({ length: this.nUnits - firstUnit }, (_, k) => firstUnit + k));
+      for (const i of order) {
+        state[i] = this.random.next() < 1 / (1 + Math.exp(-this.field(state, i) / temperature)) ? 1 : 0;
+      }
+      return;
+    }
+
+    for (const units of this.colourClasses) {
+      // Внутри цвета поля не зависят друг от друга: сначала все вероятности, затем состояния
+      const probabilities = Array.from(units, i =>
+        i < firstUnit ? -1 : 1 / (1 + Math.exp(-this.field(state, i) / temperature))
+      );
+      units.forEach((i, k) => {
+        if (probabilities[k] >= 0) {
+          state[i] = this.random.next() < probabilities[k] ? 1 : 0;
+        }
+      });
+    }
+  }
+
+  /**
+   * Имитация отжига: burnInSweeps проходов с температурой от annealStartTemperature
+   * до annealEndTemperature, затем sampleSweeps проходов при T = 1 со сбором статистик
+   * @param state - начальное состояние (изменяется на месте)
+   * @param firstUnit - первый обновляемый нейрон
+   * @param pairs - суммы sᵢ sⱼ для накопления (матрица n × n)
+   * @param units - суммы sᵢ для накопления
+   */
+  private equilibrate(state: Float32Array, firstUnit: number, pairs: Float64Array, units: Float64Array): void {
+    for (let k = 0; k < this.burnInSweeps; k++) {
+      const progress = this.burnInSweeps > 1 ? k / (this.burnInSweeps - 1) : 1;
+      this.sweep(state, firstUnit, annealingTemperature(this.annealStartTemperature, this.annealEndTemperature, this.annealSchedule, progress));
+    }
+
+    for (let k = 0; k < this.sampleSweeps; k++) {
+      this.sweep(state, firstUnit, 1);
+      for (let i = 0; i < this.nUnits; i++) {
+        if (state[i] === 0) continue;
+        units[i]++;
+        const offset = i * this.nUnits;
+        for (const j of this.neighbours[i]) {
+          pairs[offset + j] += state[j];
+        }
+      }
+    }
+  }
+
+  /**
+   * Случайное бинарное состояние нейронов начиная с firstUnit
+   * @param state - массив состояний (изменяется на месте)
+   * @param firstUnit - первый заполняемый нейрон
+   */
+  private randomizeState(state: Float32Array, firstUnit: number): void {
+    for (let i = firstUnit; i < this.nUnits; i++) {
+      state[i] = this.random.next() < 0.5 ? 1 : 0;
+    }
+  }
+
+  /**
+   * Один шаг обучения по правилу 1985 года на всём наборе данных.
+   * Фиксированная фаза: для каждого образца видимые нейроны закреплены,
+   * скрытые приходят в равновесие. Свободная фаза: freeChains цепей из случайных
+   * состояний. Разность корреляций двух фаз — градиент логарифма правдоподобия
+   * @param data - обучающие образцы видимого слоя
+   */
+  learnStep(data: Float32Array[]): void {
+    const n = this.nUnits;
+    const clampedPairs = new Float64Array(n * n);
+    const clampedUnits = new Float64Array(n);
+    const freePairs = new Float64Array(n * n);
+    const freeUnits = new Float64Array(n);
+    const state = new Float32Array(n);
+
+    for (const sample of data) {
+      state.set(sample);
+      this.randomizeState(state, this.nVisible);
+      this.equilibrate(state, this.nVisible, clampedPairs, clampedUnits);
+    }
+
+    for (let c = 0; c < this.freeChains; c++) {
+      this.randomizeState(state, 0);
+      this.equilibrate(state, 0, freePairs, freeUnits);
+    }
+
+    const clampedScale = 1 / (data.length * this.sampleSweeps);
+    const freeScale = 1 / (this.freeChains * this.sampleSweeps);
+    for (let i = 0; i < n; i++) {
+      const offset = i * n;
+      for (const j of this.neighbours[i]) {
+        this.weights[offset + j] += this.learningRate * (clampedPairs[offset + j] * clampedScale - freePairs[offset + j] * freeScale);
+      }
+      this.bias[i] += this.learningRate * (clampedUnits[i] * clampedScale - freeUnits[i] * freeScale);
+    }
+  }
+
+  /**
+   * Сэмпл видимого слоя из модели: свободная цепь из случайного состояния с отжигом
+   * @returns состояние видимых нейронов
+   */
+  sample(): Float32Array {
+    const state = new Float32Array(this.nUnits);
+    this.randomizeState(state, 0);
+    this.equilibrate(state, 0, new Float64Array(this.nUnits * this.nUnits), new Float64Array(this.nUnits));
+    return state.slice(0, this.nVisible);
+  }
+
+  /**
+   * Энергия состояния всех нейронов
+   * @param state - состояния видимых, затем скрытых нейронов
+   * @returns E(s) = −Σ_{i<j} Wᵢⱼ sᵢ sⱼ − Σᵢ bᵢ sᵢ
+   */
+  energy(state: Float32Array): number {
+    let energy = 0;
+    for (let i = 0; i < this.nUnits; i++) {
+      if (state[i] === 0) continue;
+      energy -= this.bias[i] * state[i];
+      const offset = i * this.nUnits;
+      for (const j of this.neighbours[i]) {
+        if (j > i) energy -= this.weights[offset + j] * state[i] * state[j];
+      }
+    }
+    return energy;
+  }
+
+  /**
+   * Точный средний логарифм правдоподобия данных перебором всех 2ⁿ состояний
+   * (в порядке кода Грея: соседние состояния отличаются одним нейроном,
+   * и энергия обновляется за время, пропорциональное числу его связей)
+   * @param data - образцы видимого слоя
+   * @returns среднее log p(v) на образец (в натах)
+   * @throws Error, если нейронов больше EXACT_MAX_UNITS
+   */
+  exactLogLikelihood(data: Float32Array[]): number {
+    if (this.nUnits > EXACT_MAX_UNITS) {
+      throw new Error(`Точный перебор доступен не более чем для ${EXACT_MAX_UNITS} нейронов (у модели ${this.nUnits})`);
+    }
+
+    // log Σ_h exp(−E(v, h)) для каждой конфигурации видимого слоя
+    const visibleMask = 2 ** this.nVisible - 1;
+    const logMarginals = new Float64Array(2 ** this.nVisible).fill(-Infinity);
+    const state = new Float32Array(this.nUnits);
+    let negativeEnergy = 0;
+
+    const nStates = 2 ** this.nUnits;
+    for (let k = 0; k < nStates; k++) {
+      if (k > 0) {
+        const i = 31 - Math.clz32(k & -k);
+        const sign = state[i] === 0 ? 1 : -1;
+        state[i] += sign;
+        const offset = i * this.nUnits;
+        let field = this.bias[i];
+        for (const j of this.neighbours[i]) {
+          field += this.weights[offset + j] * state[j];
+        }
+        negativeEnergy += sign * field;
+      }
+
+      const visibleIndex = (k ^ (k >> 1)) & visibleMask;
+      const current = logMarginals[visibleIndex];
+      const high = Math.max(current, negativeEnergy);
+      logMarginals[visibleIndex] = high + Math.log(Math.exp(current - high) + Math.exp(negativeEnergy - high));
+    }
+
+    const maxMarginal = Math.max(...logMarginals);
+    const logZ = maxMarginal + Math.log(logMarginals.reduce((sum, value) => sum + Math.exp(value - maxMarginal), 0));
+
+    let total = 0;
+    for (const sample of data) {
+      let index = 0;
+      for (let i = 0; i < this.nVisible; i++) {
+        if (sample[i] > 0.5) index |= 1 << i;
+      }
+      total += logMarginals[index] - logZ;
+    }
+    return total / data.length;
+  }
+
+  /**
+   * Блок весовой матрицы между двумя диапазонами нейронов
+   * @param rowStart - первый нейрон строк
+   * @param rows - количество строк
+   * @param colStart - первый нейрон столбцов
+   * @param cols - количество столбцов
+   * @returns копия блока rows × cols построчно
+   */
+  private weightBlock(rowStart: number, rows: number, colStart: number, cols: number): Float32Array {
+    const block = new Float32Array(rows * cols);
+    for (let r = 0; r < rows; r++) {
+      const offset = (rowStart + r) * this.nUnits + colStart;
+      block.set(this.weights.subarray(offset, offset + cols), r * cols);
+    }
+    return block;
+  }
+
+  /**
+   * Возвращает латеральные веса между видимыми нейронами
+   * @returns симметричная матрица nVisible × nVisible (нули там, где связей нет)
+   */
+  getVisibleLateralWeights(): Float32Array {
+    return this.weightBlock(0, this.nVisible, 0, this.nVisible);
+  }
+
+  /**
+   * Возвращает латеральные веса между скрытыми нейронами
+   * @returns симметричная матрица nHidden × nHidden (нули там, где связей нет)
+   */
+  getHiddenLateralWeights(): Float32Array {
+    return this.weightBlock(this.nVisible, this.nHidden, this.nVisible, this.nHidden);
+  }
+
+  /**
+   * Возвращает веса между скрытыми и видимыми нейронами
+   * @returns матрица [скрытые][видимые] построчно, как у BernoulliRBM
+   */
+  getVisibleHiddenWeights(): Float32Array {
+    return this.weightBlock(this.nVisible, this.nHidden, 0, this.nVisible);
+  }
+
+  /**
+   * Возвращает количество цветов в раскраске графа связей
+   * @returns количество групп, обновляемых по очереди в режиме 'checkerboard'
+   */
+  getNColours(): number {
+    return this.colourClasses.length;
+  }
+}
@@ -0,0 +1,481 @@
+import { BernoulliRBM, type PhaseStatistics } from './BernoulliRBM';
+import { matMulTransposed, softplus, transposeInto } from './kernels';
+import type {
+  ClassificationEvaluation,
+  EpochMetrics,
+  LabeledData,
+  RBMParams,
+  ReconstructionResult
+} from '../types';
+
+// Количество классов по умолчанию (цифры 0–9)
+const DEFAULT_N_CLASSES = 10;
+
+// Вес дискриминативного члена по умолчанию: генеративный и дискриминативный градиенты складываются поровну
+const DEFAULT_DISCRIMINATIVE_WEIGHT = 1;
+
+// Шагов цепи при генерации образца заданного класса
+const DEFAULT_GENERATION_STEPS = 20;
+
+/**
+ * Классификационная RBM (Larochelle & Bengio 2008): к пикселям x добавлен
+ * слой softmax-нейронов метки y (one-hot), связанный со скрытым слоем.
+ * Видимый слой модели — склейка [x; y], поэтому веса U меток к скрытым нейронам
+ * лежат в последних nClasses столбцах weights, а смещения меток d — в конце visibleBias.
+ * Энергия: E(x, y, h) = −b·x − d·y − c·h − hᵀWx − hᵀUy.
+ * Свободная энергия пары F(x, y) = −b·x − d_y − Σⱼ softplus(cⱼ + Uⱼy + Wⱼ·x) даёт
+ * точную апостериорную вероятность класса p(y | x) ∝ exp(−F(x, y)).
+ * Обучение гибридное: совместный генеративный градиент (любым методом BernoulliRBM)
+ * плюс discriminativeWeight · ∇log p(y | x), который считается точно
+ */
+export class ClassificationRBM extends BernoulliRBM {
+  private nPixels: number;
+  private nClasses: number;
+  private discriminativeWeight: number;
+
+  /**
+   * Создает классификационную машину Больцмана
+   * @param params - параметры инициализации RBM (см. BernoulliRBM); nVisible — количество пикселей
+   * @param params.nClasses - количество классов (по умолчанию 10)
+   * @param params.discriminativeWeight - вес дискриминативного члена в градиенте (по умолчанию 1)
+   */
+  constructor(params: RBMParams) {
+    const { nClasses = DEFAULT_N_CLASSES, discriminativeWeight = DEFAULT_DISCRIMINATIVE_WEIGHT } = params;
+    super({ ...params, nVisible: params.nVisible + nClasses });
+
+    this.nPixels = params.nVisible;
+    this.nClasses = nClasses;
+    this.discriminativeWeight = discriminativeWeight;
+  }
+
+  /**
+   * Вероятности видимого слоя для батча: σ для пикселей и softmax для метки
+   */
+  protected sampleVisible(
+    hidden: Float32Array,
+    rows: number = 1,
+    output: Float32Array = new Float32Array(rows * this.nVisible),
+    temperature: number = 1
+  ): Float32Array {
+    super.sampleVisible(hidden, rows, output, temperature);
+
+    // Поля меток d + Uᵀh пересчитываются: базовый класс уже применил к ним сигмоиду
+    for (let r = 0; r < rows; r++) {
+      const labelOffset = r * this.nVisible + this.nPixels;
+      for (let k = 0; k < this.nClasses; k++) {
+        const column = (this.nPixels + k) * this.nHidden;
+        let field = this.visibleBias[this.nPixels + k];
+        for (let j = 0; j < this.nHidden; j++) {
+          field += hidden[r * this.nHidden + j] * this.weightsT[column + j];
+        }
+        output[labelOffset + k] = field / temperature;
+      }
+      this.softmaxInPlace(output, labelOffset);
+    }
+    return output;
+  }
+
+  /**
+   * Выборка видимого слоя: бинарные пиксели и одна активная метка
+   */
+  protected sampleVisibleBinary(
+    hidden: Float32Array,
+    rows: number = 1,
+    output: Float32Array = new Float32Array(rows * this.nVisible),
+    temperature: number = 1
+  ): Float32Array {
+    this.sampleVisible(hidden, rows, output, temperature);
+    for (let r = 0; r < rows; r++) {
+      const offset = r * this.nVisible;
+      for (let i = 0; i < this.nPixels; i++) {
+        output[offset + i] = this.random.next() < output[offset + i] ? 1 : 0;
+      }
+      this.setLabel(output, offset, this.sampleCategorical(output, offset + this.nPixels));
+    }
+    return output;
+  }
+
+  /**
+   * Видимый полушаг параллельного темперирования: пиксели сэмплирует базовый класс,
+   * затем метка каждой строки пересэмплируется из softmax(β · (d + Uᵀh)),
+   * и её вклад в энергию заменяется
+   */
+  protected sampleTemperedVisible(
+    hidden: Float32Array,
+    nRows: number,
+    rowBeta: Float32Array,
+    visible: Float32Array,
+    energies: Float64Array
+  ): void {
+    super.sampleTemperedVisible(hidden, nRows, rowBeta, visible, energies);
+
+    // Поля видимого слоя, которые базовый класс оставил в рабочем буфере
+    const field = this.buffer('temperedVisibleField', nRows * this.nVisible);
+    const probs = this.buffer('temperedLabelProbs', this.nClasses);
+    for (let r = 0; r < nRows; r++) {
+      const labelOffset = r * this.nVisible + this.nPixels;
+      for (let k = 0; k < this.nClasses; k++) {
+        energies[r] += visible[labelOffset + k] * field[labelOffset + k];
+        probs[k] = field[labelOffset + k] * rowBeta[r];
+      }
+      this.softmaxInPlace(probs, 0);
+      const label = this.sampleCategorical(probs, 0);
+      this.setLabel(visible, r * this.nVisible, label);
+      energies[r] -= field[labelOffset + label];
+    }
+  }
+
+  /**
+   * Гибридный градиент: совместный генеративный градиент по [x; y] плюс
+   * discriminativeWeight · ∇log p(y | x) на данных батча
+   */
+  protected computeGradients(positive: PhaseStatistics, negative: PhaseStatistics): void {
+    super.computeGradients(positive, negative);
+    if (this.discriminativeWeight > 0) {
+      this.addDiscriminativeGradient(positive);
+    }
+  }
+
+  /**
+   * Добавляет к градиентам точный градиент log p(y | x), усреднённый по батчу.
+   * Для oₖⱼ = cⱼ + Uⱼₖ + Wⱼ·x и pₖ = p(k | x):
+   * ∂/∂cⱼ = σ(o_yj) − Σₖ pₖ σ(oₖⱼ), ∂/∂Wⱼᵢ = xᵢ · ∂/∂cⱼ,
+   * ∂/∂Uⱼₖ = σ(oₖⱼ) (1[k = y] − pₖ), ∂/∂dₖ = 1[k = y] − pₖ.
+   * Образцы без метки (нулевой one-hot) в дискриминативный член не входят
+   * @param positive - статистики данных (упакованный батч с метками)
+   */
+  private addDiscriminativeGradient(positive: PhaseStatistics): void {
+    const { visible, rows } = positive;
+    const scale = this.discriminativeWeight / rows;
+
+    const field = this.buffer('discriminativeField', rows * this.nHidden);
+    this.hiddenInput(visible, rows, field);
+    const activations = this.buffer('discriminativeActivations', this.nClasses * this.nHidden);
+    const posterior = this.buffer('discriminativePosterior', this.nClasses);
+    const deltaT = this.buffer('discriminativeDeltaT', this.nHidden * rows);
+    deltaT.fill(0);
+
+    for (let r = 0; r < rows; r++) {
+      const label = this.labelOf(visible, r * this.nVisible);
+      if (label < 0) continue;
+
+      // Поле данных содержит Uⱼy истинной метки; для класса k оно заменяется на Uⱼₖ
+      for (let k = 0; k < this.nClasses; k++) {
+        let score = this.visibleBias[this.nPixels + k];
+        for (let j = 0; j < this.nHidden; j++) {
+          const row = j * this.nVisible + this.nPixels;
+          const input = field[r * this.nHidden + j] - this.weights[row + label] + this.weights[row + k];
+          score += softplus(input);
+          activations[k * this.nHidden + j] = 1 / (1 + Math.exp(-input));
+        }
+        posterior[k] = score;
+      }
+      this.softmaxInPlace(posterior, 0);
+
+      for (let j = 0; j < this.nHidden; j++) {
+        let expected = 0;
+        for (let k = 0; k < this.nClasses; k++) {
+          expected += posterior[k] * activations[k * this.nHidden + j];
+        }
+        const delta = scale * (activations[label * this.nHidden + j] - expected);
+        deltaT[j * rows + r] = delta;
+        this.hiddenGrad[j] += delta;
+      }
+
+      for (let k = 0; k < this.nClasses; k++) {
+        const target = scale * ((k === label ? 1 : 0) - posterior[k]);
+        this.visibleGrad[this.nPixels + k] += target;
+        for (let j = 0; j < this.nHidden; j++) {
+          this.weightGrad[j * this.nVisible + this.nPixels + k] += target * activations[k * this.nHidden + j];
+        }
+      }
+    }
+
+    // Градиент весов пикселей — внешнее произведение по батчу, одним проходом ядра
+    const visibleT = this.buffer('discriminativeVisibleT', this.nVisible * rows);
+    transposeInto(visible, rows, this.nVisible, visibleT);
+    const pixelGrad = this.buffer('discriminativeWeightGrad', this.nHidden * this.nVisible);
+    matMulTransposed(deltaT, this.nHidden, visibleT, this.nVisible, rows, pixelGrad);
+    for (let j = 0; j < this.nHidden; j++) {
+      const offset = j * this.nVisible;
+      for (let i = 0; i < this.nPixels; i++) {
+        this.weightGrad[offset + i] += pixelGrad[offset + i];
+      }
+    }
+  }
+
+  /**
+   * Заменяет значения values[offset .. offset + nClasses) на softmax от них
+   * @param values - массив с логитами
+   * @param offset - начало группы метки
+   */
+  private softmaxInPlace(values: Float32Array, offset: number): void {
+    let max = -Infinity;
+    for (let k = 0; k < this.nClasses; k++) {
+      max = Math.max(max, values[offset + k]);
+    }
+    let sum = 0;
+    for (let k = 0; k < this.nClasses; k++) {
+      const weight = Math.exp(values[offset + k] - max);
+      values[offset + k] = weight;
+      sum += weight;
+    }
+    for (let k = 0; k < this.nClasses; k++) {
+      values[offset + k] /= sum;
+    }
+  }
+
+  /**
+   * Выбирает класс по вероятностям values[offset .. offset + nClasses)
+   * @param values - массив с вероятностями классов
+   * @param offset - начало группы метки
+   * @returns номер класса
+   */
+  private sampleCategorical(values: Float32Array, offset: number): number {
+    let threshold = this.random.next();
+    for (let k = 0; k < this.nClasses - 1; k++) {
+      threshold -= values[offset + k];
+      if (threshold < 0) return k;
+    }
+    return this.nClasses - 1;
+  }
+
+  /**
+   * Записывает one-hot метку в строку видимого слоя
+   * @param visible - матрица видимого слоя
+   * @param offset - начало строки
+   * @param label - номер класса
+   */
+  private setLabel(visible: Float32Array, offset: number, label: number): void {
+    const labelOffset = offset + this.nPixels;
+    visible.fill(0, labelOffset, labelOffset + this.nClasses);
+    visible[labelOffset + label] = 1;
+  }
+
+  /**
+   * Читает метку из строки видимого слоя
+   * @param visible - матрица видимого слоя
+   * @param offset - начало строки
+   * @returns номер самого активного класса или −1, если метки нет
+   */
+  private labelOf(visible: Float32Array, offset: number): number {
+    let label = -1;
+    let best = 0;
+    for (let k = 0; k < this.nClasses; k++) {
+      const value = visible[offset + this.nPixels + k];
+      if (value > best) {
+        best = value;
+        label = k;
+      }
+    }
+    return label;
+  }
+
+  /**
+   * Склеивает изображение и one-hot метку в образец для обучения
+   * @param image - пиксели изображения
+   * @param label - номер класса
+   * @returns образец длины nPixels + nClasses
+   */
+  encodeSample(image: Float32Array, label: number): Float32Array {
+    const sample = new Float32Array(this.nVisible);
+    sample.set(image.subarray(0, this.nPixels));
+    this.setLabel(sample, 0, label);
+    return sample;
+  }
+
+  /**
+   * Обучающие образцы — пары [изображение; one-hot метка]
+   * @param data - изображения и метки
+   * @returns образцы длины nPixels + nClasses
+   */
+  encodeData(data: LabeledData): Float32Array[] {
+    return data.images.map((image, s) => this.encodeSample(image, data.labels[s]));
+  }
+
+  /**
+   * Апостериорные вероятности классов для набора изображений:
+   * p(y | x) = softmax(−F(x, y)), где −F(x, y) = b·x + d_y + Σⱼ softplus(cⱼ + Uⱼy + Wⱼ·x)
+   * (b·x от класса не зависит и сокращается)
+   * @param images - изображения (лишние значения после nPixels игнорируются)
+   * @returns матрица images.length × nClasses
+   */
+  private posteriors(images: Float32Array[]): Float32Array {
+    const rows = images.length;
+    const visible = this.buffer('classifyVisible', rows * this.nVisible);
+    visible.fill(0);
+    images.forEach((image, r) => visible.set(image.subarray(0, this.nPixels), r * this.nVisible));
+
+    const field = this.buffer('classifyField', rows * this.nHidden);
+    this.hiddenInput(visible, rows, field);
+
+    const probs = new Float32Array(rows * this.nClasses);
+    for (let r = 0; r < rows; r++) {
+      for (let k = 0; k < this.nClasses; k++) {
+        let score = this.visibleBias[this.nPixels + k];
+        for (let j = 0; j < this.nHidden; j++) {
+          score += softplus(field[r * this.nHidden + j] + this.weights[j * this.nVisible + this.nPixels + k]);
+        }
+        probs[r * this.nClasses + k] = score;
+      }
+      this.softmaxInPlace(probs, r * this.nClasses);
+    }
+    return probs;
+  }
+
+  /**
+   * Апостериорные вероятности классов одного изображения
+   * @param image - пиксели изображения
+   * @returns p(y | x) для каждого класса
+   */
+  classProbabilities(image: Float32Array): Float32Array {
+    return this.posteriors([image]);
+  }
+
+  /**
+   * Предсказывает классы изображений по минимуму свободной энергии F(x, y)
+   * @param images - изображения
+   * @returns номер класса для каждого изображения
+   */
+  predict(images: Float32Array[]): number[] {
+    if (images.length === 0) return [];
+    const probs = this.posteriors(images);
+    return images.map((_, r) => {
+      let best = 0;
+      for (let k = 1; k < this.nClasses; k++) {
+        if (probs[r * this.nClasses + k] > probs[r * this.nClasses + best]) best = k;
+      }
+      return best;
+    });
+  }
+
+  /**
+   * Точность и матрица ошибок на размеченном наборе. Образцы с меткой вне
+   * [0, nClasses) (например, −1 от пустого one-hot) пропускаются и не входят
+   * ни в матрицу, ни в знаменатель точности
+   * @param images - изображения
+   * @param labels - истинные классы
+   * @returns доля верных ответов и матрица ошибок [истинный][предсказанный]
+   */
+  evaluateClassification(images: Float32Array[], labels: number[]): ClassificationEvaluation {
+    const confusionMatrix = Array.from({ length: this.nClasses }, () => Array(this.nClasses).fill(0));
+    const valid = images
+      .map((_, s) => s)
+      .filter(s => Number.isInteger(labels[s]) && labels[s] >= 0 && labels[s] < this.nClasses);
+    if (valid.length < images.length) {
+      console.warn(`⚠️ Пропущено ${images.length - valid.length} образцов с меткой вне [0, ${this.nClasses})`);
+    }
+
+    const predictions = this.predict(valid.map(s => images[s]));
+    let correct = 0;
+    predictions.forEach((predicted, i) => {
+      const label = labels[valid[i]];
+      confusionMatrix[label][predicted]++;
+      if (predicted === label) correct++;
+    });
+    return {
+      accuracy: valid.length > 0 ? correct / valid.length : 0,
+      confusionMatrix,
+      nSamples: valid.length
+    };
+  }
+
+  /**
+   * Генерирует изображение заданного класса: цепь стартует с пустого изображения,
+   * метка закреплена (clamp), скрытый слой сэмплируется, а пиксели заменяются
+   * своими вероятностями p(x | h). Короткая цепь остаётся рядом с данными
+   * выбранного класса; длинные цепи модели, обученной CD, уходят в её ложные моды
+   * @param label - номер класса
+   * @param steps - количество шагов (по умолчанию 20)
+   * @returns вероятности пикселей на последнем шаге
+   */
+  generate(label: number, steps: number = DEFAULT_GENERATION_STEPS): Float32Array {
+    const visible = new Float32Array(this.nVisible);
+    const hidden = new Float32Array(this.nHidden);
+    this.setLabel(visible, 0, label);
+
+    for (let step = 0; step < steps; step++) {
+      this.sampleHidden(visible, 1, hidden);
+      for (let j = 0; j < this.nHidden; j++) {
+        hidden[j] = this.random.next() < hidden[j] ? 1 : 0;
+      }
+      this.sampleVisible(hidden, 1, visible);
+      this.setLabel(visible, 0, label);
+    }
+    return visible.slice(0, this.nPixels);
+  }
+
+  /**
+   * Реконструирует изображение: метка неизвестна, поэтому вместо неё
+   * подставляются апостериорные вероятности p(y | x)
+   * @param sample - изображение (или образец с меткой)
+   * @returns реконструкция пикселей и скрытое представление
+   */
+  reconstruct(sample: Float32Array): ReconstructionResult {
+    const visible = new Float32Array(this.nVisible);
+    visible.set(sample.subarray(0, this.nPixels));
+    visible.set(this.classProbabilities(sample), this.nPixels);
+
+    const hidden = this.sampleHidden(visible);
+    const reconstruction = this.sampleVisible(hidden).slice(0, this.nPixels);
+    return { reconstruction, hidden };
+  }
+
+  /**
+   * Псевдо-правдоподобие по инверсии отдельных нейронов выводит метку из one-hot,
+   * поэтому для softmax-нейронов метки оно не определено; evaluate() его не сообщает
+   * @returns NaN
+   */
+  pseudoLogLikelihood(): number {
+    return NaN;
+  }
+
+  /**
+   * Метрики качества по (части) набора образцов с метками: ошибки реконструкции,
+   * средняя свободная энергия F(x, y) и доля ошибок классификации
+   * @param data - образцы [x; y]
+   * @param maxSamples - максимальное количество образцов (по умолчанию 200)
+   * @returns метрики без псевдо-правдоподобия
+   */
+  evaluate(data: Float32Array[], maxSamples: number = 200): EpochMetrics {
+    const samples = data.slice(0, maxSamples);
+    const labels = samples.map(sample => this.labelOf(sample, 0));
+    const { accuracy } = this.evaluateClassification(samples, labels);
+    return {
+      ...this.reconstructionErrors(data, maxSamples),
+      freeEnergy: this.meanFreeEnergy(data, maxSamples),
+      classificationError: 1 - accuracy
+    };
+  }
+
+  /**
+   * Возвращает фильтр скрытого нейрона — только веса пикселей, без весов меток
+   * @param hiddenIndex - индекс скрытого нейрона
+   * @returns веса от пикселей к данному скрытому нейрону
+   */
+  getFilter(hiddenIndex: number): Float32Array {
+    const offset = hiddenIndex * this.nVisible;
+    return this.weights.subarray(offset, offset + this.nPixels);
+  }
+
+  /**
+   * Возвращает количество классов
+   * @returns nClasses
+   */
+  getNClasses(): number {
+    return this.nClasses;
+  }
+
+  /**
+   * Возвращает параметры, с которыми была создана модель: nVisible — количество пикселей
+   * @returns параметры RBM, пригодные для передачи в конструктор
+   */
+  getParams(): RBMParams {
+    return {
+      ...super.getParams(),
+      nVisible: this.nPixels,
+      nClasses: this.nClasses,
+      discriminativeWeight: this.discriminativeWeight
+    };
+  }
+}
@@ -0,0 +1,545 @@
+import type { PauseController } from './PauseController';
+import { sigmoidInPlace, softplus } from './kernels';
+import { Random } from '../utils/random';
+import { getSplit, isDataset } from '../utils/dataset';
+import type {
+  ConvolutionalRBMParams,
+  Dataset,
+  EpochMetrics,
+  EpochStats,
+  FeatureMaps,
+  ModelDiagnostics,
+  ReconstructionResult
+} from '../types';
+
+// Масштаб случайной инициализации фильтров
+const INITIAL_WEIGHT_SCALE = 0.01;
+
+/**
+ * Свёрточная RBM (Lee, Grosse, Ranganath & Ng 2009): K общих фильтров Wᵏ размера
+ * F × F скользят по изображению N × N, поэтому один и тот же штрих распознаётся
+ * в любом месте. Скрытый слой — K карт признаков (N − F + 1) × (N − F + 1):
+ * p(hᵏᵢⱼ = 1 | v) = σ(bₖ + Σ_{r,s} Wᵏᵣₛ v_{i+r, j+s}) — «валидная» корреляция;
+ * видимый слой восстанавливается полной свёрткой: p(v = 1 | h) = σ(c + Σₖ Wᵏ ∗ hᵏ).
+ * При вероятностном max-pooling карта делится на блоки C × C, в каждом из которых
+ * включён не более чем один нейрон: p(hᵢⱼ = 1 | v) = exp(Iᵢⱼ) / (1 + Σ_блок exp(I)),
+ * а pooling-нейрон блока включён с вероятностью 1 − 1 / (1 + Σ_блок exp(I)).
+ * Обучение — CD-1 с регуляризацией разреженности смещений карт
+ */
+export class ConvolutionalRBM {
+  private imageSize: number;
+  private nFilters: number;
+  private filterSize: number;
+  private mapSize: number;
+  private poolSize: number;
+  private pooledSize: number;
+  private learningRate: number;
+  private batchSize: number;
+  private sparsityTarget: number;
+  private sparsityCost: number;
+  private weights: Float32Array;
+  private hiddenBias: Float32Array;
+  private visibleBias: Float32Array;
+  private random: Random;
+
+  /**
+   * Создает свёрточную машину Больцмана
+   * @param params - параметры модели
+   * @param params.imageSize - сторона изображения N (28 для MNIST)
+   * @param params.nFilters - количество фильтров K (по умолчанию 12)
+   * @param params.filterSize - сторона фильтра F (по умолчанию 12)
+   * @param params.poolSize - сторона блока max-pooling C, 1 — без пулинга (по умолчанию 2)
+   * @param params.learningRate - скорость обучения (по умолчанию 0.2)
+   * @param params.batchSize - размер батча (по умолчанию 32)
+   * @param params.sparsityTarget - целевая средняя активность карт (по умолчанию 0.03)
+   * @param params.sparsityCost - вес регуляризации разреженности (по умолчанию 0.5)
+   * @param params.seed - seed генератора случайных чисел модели (по умолчанию случайный)
+   */
+  constructor({
+    imageSize,
+    nFilters = 12,
+    filterSize = 12,
+    poolSize = 2,
+    learningRate = 0.2,
+    batchSize = 32,
+    sparsityTarget = 0.03,
+    sparsityCost = 0.5,
+    seed = Random.randomSeed()
+  }: ConvolutionalRBMParams) {
+    if (filterSize < 1 || filterSize > imageSize) {
+      throw new Error(`Размер фильтра ${filterSize} должен быть от 1 до ${imageSize}`);
+    }
+
+    this.imageSize = imageSize;
+    this.nFilters = nFilters;
+    this.filterSize = filterSize;
+    this.mapSize = imageSize - filterSize + 1;
+    this.poolSize = Math.max(1, Math.round(poolSize));
+    // Неполные блоки на краю карты тоже образуют pooling-нейроны
+    this.pooledSize = Math.ceil(this.mapSize / this.poolSize);
+    this.learningRate = learningRate;
+    this.batchSize = batchSize;
+    this.sparsityTarget = sparsityTarget;
+    this.sparsityCost = sparsityCost;
+    this.random = new Random(seed >>> 0);
+
+    this.weights = new Float32Array(nFilters * filterSize * filterSize);
+    for (let k = 0; k < this.weights.length; k++) {
+      this.weights[k] = (this.random.next() - 0.5) * 2 * INITIAL_WEIGHT_SCALE;
+    }
+    this.hiddenBias = new Float32Array(nFilters);
+    this.visibleBias = new Float32Array(imageSize * imageSize);
+  }
+
+  /**
+   * Пре-активации карт признаков: Iᵏᵢⱼ = bₖ + Σ_{r,s} Wᵏᵣₛ v_{i+r, j+s}
+   * @param visible - изображение N × N
+   * @param output - карты K × M × M для результата
+   */
+  private hiddenInput(visible: Float32Array, output: Float32Array): void {
+    const { imageSize: n, filterSize: f, mapSize: m } = this;
+    for (let k = 0; k < this.nFilters; k++) {
+      const filterOffset = k * f * f;
+      for (let i = 0; i < m; i++) {
+        for (let j = 0; j < m; j++) {
+          let sum = this.hiddenBias[k];
+          for (let r = 0; r < f; r++) {
+            const rowOffset = (i + r) * n + j;
+            const weightOffset = filterOffset + r * f;
+            for (let s = 0; s < f; s++) {
+              sum += this.weights[weightOffset + s] * visible[rowOffset + s];
+            }
+          }
+          output[(k * m + i) * m + j] = sum;
+        }
+      }
+    }
+  }
+
+  /**
+   * Обходит блоки max-pooling одной карты
+   * @param visit - получает индексы нейронов блока в карте и номер блока
+   */
+  private forEachBlock(visit: (units: number[], block: number) => void): void {
+    const { mapSize: m, poolSize: c } = this;
+    for (let bi = 0; bi < this.pooledSize; bi++) {
+      for (let bj = 0; bj < this.pooledSize; bj++) {
+        const units: number[] = [];
+        for (let i = bi * c; i < Math.min(m, (bi + 1) * c); i++) {
+          for (let j = bj * c; j < Math.min(m, (bj + 1) * c); j++) {
+            units.push(i * m + j);
+          }
+        }
+        visit(units, bi * this.pooledSize + bj);
+      }
+    }
+  }
+
+  /**
+   * Вероятности карт признаков из пре-активаций (на месте): сигмоида без пулинга,
+   * softmax по блоку с дополнительным состоянием «все выключены» при пулинге
+   * @param values - пре-активации K × M × M, заменяются вероятностями
+   * @param pooled - вероятности pooling-нейронов K × P × P (при пулинге)
+   */
+  private hiddenProbabilities(values: Float32Array, pooled?: Float32Array): void {
+    const mapLength = this.mapSize * this.mapSize;
+    if (this.poolSize === 1) {
+      sigmoidInPlace(values, this.nFilters * mapLength);
+      pooled?.set(values);
+      return;
+    }
+
+    for (let k = 0; k < this.nFilters; k++) {
+      const offset = k * mapLength;
+      this.forEachBlock((units, block) => {
+        // Сдвиг на максимум (не меньше 0 — это «выключенное» состояние) для устойчивости
+        let shift = 0;
+        for (const u of units) shift = Math.max(shift, values[offset + u]);
+        let total = Math.exp(-shift);
+        for (const u of units) {
+          values[offset + u] = Math.exp(values[offset + u] - shift);
+          total += values[offset + u];
+        }
+        for (const u of units) values[offset + u] /= total;
+        if (pooled) {
+          pooled[k * this.pooledSize * this.pooledSize + block] = 1 - Math.exp(-shift) / total;
+        }
+      });
+    }
+  }
+
+  /**
+   * Бинарные состояния карт по вероятностям: независимо без пулинга,
+   * не более одного включённого нейрона на блок при пулинге
+   * @param probs - вероятности K × M × M
+   * @param output - массив для состояний
+   */
+  private sampleHidden(probs: Float32Array, output: Float32Array): void {
+    if (this.poolSize === 1) {
+      for (let k = 0; k < probs.length; k++) {
+        output[k] = this.random.next() < probs[k] ? 1 : 0;
+      }
+      return;
+    }
+
+    output.fill(0);
+    const mapLength = this.mapSize * this.mapSize;
+    for (let k = 0; k < this.nFilters; k++) {
+      const offset = k * mapLength;
+      this.forEachBlock(units => {
+        let u = this.random.next();
+        for (const unit of units) {
+          u -= probs[offset + unit];
+          if (u < 0) {
+            output[offset + unit] = 1;
+            break;
+          }
+        }
+      });
+    }
+  }
+
+  /**
+   * Вероятности пикселей: p(v = 1 | h) = σ(c + Σₖ Wᵏ ∗ hᵏ) (полная свёртка)
+   * @param hidden - состояния карт K × M × M
+   * @param output - изображение N × N для результата
+   */
+  private visibleProbabilities(hidden: Float32Array, output: Float32Array): void {
+    const { imageSize: n, filterSize: f, mapSize: m } = this;
+    output.set(this.visibleBias);
+    for (let k = 0; k < this.nFilters; k++) {
+      const filterOffset = k * f * f;
+      for (let i = 0; i < m; i++) {
+        for (let j = 0; j < m; j++) {
+          const h = hidden[(k * m + i) * m + j];
+          if (h === 0) continue;
+          for (let r = 0; r < f; r++) {
+            const rowOffset = (i + r) * n + j;
+            const weightOffset = filterOffset + r * f;
+            for (let s = 0; s < f; s++) {
+              output[rowOffset + s] += h * this.weights[weightOffset + s];
+            }
+          }
+        }
+      }
+    }
+    sigmoidInPlace(output, n * n);
+  }
+
+  /**
+   * Накапливает корреляции карт с изображением: Σᵢⱼ hᵏᵢⱼ v_{i+r, j+s}
+   * @param visible - изображение
+   * @param hidden - карты признаков
+   * @param sign - +1 для положительной фазы, −1 для отрицательной
+   * @param weightGrad - градиент фильтров (изменяется на месте)
+   * @param hiddenGrad - градиент смещений карт (изменяется на месте)
+   */
+  private accumulateGradient(
+    visible: Float32Array,
+    hidden: Float32Array,
+    sign: number,
+    weightGrad: Float64Array,
+    hiddenGrad: Float64Array
+  ): void {
+    const { imageSize: n, filterSize: f, mapSize: m } = this;
+    for (let k = 0; k < this.nFilters; k++) {
+      const filterOffset = k * f * f;
+      for (let i = 0; i < m; i++) {
+        for (let j = 0; j < m; j++) {
+          const h = hidden[(k * m + i) * m + j];
+          if (h === 0) continue;
+          hiddenGrad[k] += sign * h;
+          const scaled = sign * h;
+          for (let r = 0; r < f; r++) {
+            const rowOffset = (i + r) * n + j;
+            const weightOffset = filterOffset + r * f;
+            for (let s = 0; s < f; s++) {
+              weightGrad[weightOffset + s] += scaled * visible[rowOffset + s];
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Шаг CD-1 на батче. Градиенты фильтров делятся на число позиций M²,
+   * как у Lee et al.; смещения карт подтягиваются к целевой активности
+   * @param batch - изображения батча
+   */
+  private contrastiveDivergence(batch: Float32Array[]): void {
+    const mapLength = this.nFilters * this.mapSize * this.mapSize;
+    const weightGrad = new Float64Array(this.weights.length);
+    const hiddenGrad = new Float64Array(this.nFilters);
+    const visibleGrad = new Float64Array(this.visibleBias.length);
+    const hiddenData = new Float32Array(mapLength);
+    const hiddenStates = new Float32Array(mapLength);
+    const hiddenModel = new Float32Array(mapLength);
+    const reconstruction = new Float32Array(this.visibleBias.length);
+    const positions = this.mapSize * this.mapSize;
+    const activity = new Float64Array(this.nFilters);
+
+    for (const visible of batch) {
+      this.hiddenInput(visible, hiddenData);
+      this.hiddenProbabilities(hiddenData);
+      this.accumulateGradient(visible, hiddenData, 1, weightGrad, hiddenGrad);
+      for (let k = 0; k < this.nFilters; k++) {
+        for (let u = 0; u < positions; u++) {
+          activity[k] += hiddenData[k * positions + u];
+        }
+      }
+
+      this.sampleHidden(hiddenData, hiddenStates);
+      this.visibleProbabilities(hiddenStates, reconstruction);
+      this.hiddenInput(reconstruction, hiddenModel);
+      this.hiddenProbabilities(hiddenModel);
+      this.accumulateGradient(reconstruction, hiddenModel, -1, weightGrad, hiddenGrad);
+
+      for (let p = 0; p < visibleGrad.length; p++) {
+        visibleGrad[p] += visible[p] - reconstruction[p];
+      }
+    }
+
+    const scale = this.learningRate / (batch.length * positions);
+    for (let w = 0; w < this.weights.length; w++) {
+      this.weights[w] += scale * weightGrad[w];
+    }
+    for (let k = 0; k < this.nFilters; k++) {
+      this.hiddenBias[k] += scale * hiddenGrad[k];
+    }
+    for (let p = 0; p < visibleGrad.length; p++) {
+      this.visibleBias[p] += this.learningRate * visibleGrad[p] / batch.length;
+    }
+
+    // Разреженность: средняя активность каждой карты на данных батча → sparsityTarget
+    for (let k = 0; k < this.nFilters; k++) {
+      this.hiddenBias[k] += this.sparsityCost * (this.sparsityTarget - activity[k] / (batch.length * positions));
+    }
+  }
+
+  /**
+   * Обучает свёрточную RBM методом CD-1
+   * @param data - обучающие изображения N × N или набор данных: обучение на разделе train,
+   *   средняя свободная энергия отложенных образцов — на validation
+   * @param nEpochs - количество эпох
+   * @param progressCallback - вызывается после каждой эпохи с метриками качества
+   * @param signal - сигнал остановки: обучение прерывается перед следующим батчем
+   * @param pauseController - пауза и продолжение обучения с точностью до батча
+   * @returns true, если обучение было остановлено
+   */
+  async fit(
+    data: Float32Array[] | Dataset,
+    nEpochs: number,
+    progressCallback?: (epoch: number, totalEpochs: number, stats?: EpochStats) => void | Promise<void>,
+    signal?: AbortSignal,
+    pauseController?: PauseController
+  ): Promise<boolean> {
+    let validationData: Float32Array[] = [];
+    if (isDataset(data)) {
+      validationData = getSplit(data, 'validation').images;
+      data = getSplit(data, 'train').images;
+    }
+    // Набор меньше батча обучается одним батчем из всех образцов, а не пропускается
+    const batchSize = Math.min(this.batchSize, data.length);
+    if (batchSize < this.batchSize) {
+      console.warn(`⚠️ Образцов (${data.length}) меньше размера батча ${this.batchSize}: батч уменьшен до ${batchSize}`);
+    }
+    const nBatches = batchSize > 0 ? Math.floor(data.length / batchSize) : 0;
+    console.log(`🧩 Свёрточная RBM: ${this.nFilters} фильтров ${this.filterSize}×${this.filterSize}, карты ${this.mapSize}×${this.mapSize}, пулинг ${this.poolSize}×${this.poolSize}; ${data.length} образцов, батчей: ${nBatches}`);
+
+    for (let epoch = 0; epoch < nEpochs; epoch++) {
+      const indices = this.random.shuffle(Array.from({ length: data.length }, (_, i) => i));
+
+      for (let batchIdx = 0; batchIdx < nBatches; batchIdx++) {
+        await pauseController?.wait(signal);
+        if (signal?.aborted) {
+          console.log(`⏹️ Обучение остановлено на эпохе ${epoch + 1}/${nEpochs}`);
+          return true;
+        }
+
+        const batch = indices.slice(batchIdx * batchSize, (batchIdx + 1) * batchSize).map(i => data[i]);
+        this.contrastiveDivergence(batch);
+
+        // Обучение идёт в основном потоке: отдаём управление интерфейсу после каждого батча
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+
+      if (progressCallback) {
+        const metrics = this.evaluate(data);
+        if (validationData.length > 0) {
+          metrics.validationFreeEnergy = validationData
+            .slice(0, 200)
+            .reduce((sum, sample) => sum + this.freeEnergy(sample), 0) / Math.min(200, validationData.length);
+        }
+        await progressCallback(epoch + 1, nEpochs, { metrics, diagnostics: this.diagnostics(data) });
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Свободная энергия изображения (скрытые нейроны суммируются аналитически):
+   * F(v) = −c·v − Σₖ Σ_блоки log(1 + Σ_блок exp(I)); без пулинга блок — один нейрон
+   * @param visible - изображение
+   * @returns свободная энергия
+   */
+  freeEnergy(visible: Float32Array): number {
+    const input = new Float32Array(this.nFilters * this.mapSize * this.mapSize);
+    this.hiddenInput(visible, input);
+
+    let energy = 0;
+    for (let p = 0; p < visible.length; p++) {
+      energy -= this.visibleBias[p] * visible[p];
+    }
+
+    const mapLength = this.mapSize * this.mapSize;
+    for (let k = 0; k < this.nFilters; k++) {
+      const offset = k * mapLength;
+      if (this.poolSize === 1) {
+        for (let u = 0; u < mapLength; u++) energy -= softplus(input[offset + u]);
+        continue;
+      }
+      this.forEachBlock(units => {
+        let shift = 0;
+        for (const u of units) shift = Math.max(shift, input[offset + u]);
+        let total = Math.exp(-shift);
+        for (const u of units) total += Math.exp(input[offset + u] - shift);
+        energy -= shift + Math.log(total);
+      });
+    }
+    return energy;
+  }
+
+  /**
+   * Метрики качества на (части) набора данных — те же, что у BernoulliRBM,
+   * кроме псевдо-правдоподобия
+   * @param data - изображения
+   * @param maxSamples - максимальное количество образцов (по умолчанию 200)
+   * @returns MSE и перекрёстная энтропия реконструкции, средняя свободная энергия
+   */
+  evaluate(data: Float32Array[], maxSamples: number = 200): EpochMetrics {
+    const samples = data.slice(0, maxSamples);
+    if (samples.length === 0) {
+      return { reconstructionError: 0, reconstructionCrossEntropy: 0, freeEnergy: 0 };
+    }
+
+    const eps = 1e-7;
+    let squaredError = 0;
+    let crossEntropy = 0;
+    let freeEnergy = 0;
+    for (const visible of samples) {
+      const { reconstruction } = this.reconstruct(visible);
+      for (let p = 0; p < visible.length; p++) {
+        const q = Math.min(1 - eps, Math.max(eps, reconstruction[p]));
+        const diff = visible[p] - reconstruction[p];
+        squaredError += diff * diff;
+        crossEntropy -= visible[p] * Math.log(q) + (1 - visible[p]) * Math.log(1 - q);
+      }
+      freeEnergy += this.freeEnergy(visible);
+    }
+
+    return {
+      reconstructionError: squaredError / (samples.length * this.visibleBias.length),
+      reconstructionCrossEntropy: crossEntropy / samples.length,
+      freeEnergy: freeEnergy / samples.length
+    };
+  }
+
+  /**
+   * Нормы параметров и средняя активность карт признаков
+   * @param data - изображения
+   * @param maxSamples - максимальное количество образцов (по умолчанию 200)
+   * @returns нормы фильтров и смещений, средняя p(h = 1 | v) по всем позициям
+   */
+  diagnostics(data: Float32Array[], maxSamples: number = 200): ModelDiagnostics {
+    const norm = (values: Float32Array) => Math.sqrt(values.reduce((sum, x) => sum + x * x, 0));
+
+    const samples = data.slice(0, maxSamples);
+    const hidden = new Float32Array(this.nFilters * this.mapSize * this.mapSize);
+    let meanHiddenActivation = 0;
+    for (const visible of samples) {
+      this.hiddenInput(visible, hidden);
+      this.hiddenProbabilities(hidden);
+      meanHiddenActivation += hidden.reduce((sum, x) => sum + x, 0) / hidden.length;
+    }
+
+    return {
+      weightNorm: norm(this.weights),
+      hiddenBiasNorm: norm(this.hiddenBias),
+      visibleBiasNorm: norm(this.visibleBias),
+      meanHiddenActivation: samples.length > 0 ? meanHiddenActivation / samples.length : 0
+    };
+  }
+
+  /**
+   * Реконструирует изображение через карты признаков (средние поля)
+   * @param sample - изображение
+   * @returns реконструкция и вероятности карт K × M × M
+   */
+  reconstruct(sample: Float32Array): ReconstructionResult {
+    const hidden = new Float32Array(this.nFilters * this.mapSize * this.mapSize);
+    this.hiddenInput(sample, hidden);
+    this.hiddenProbabilities(hidden);
+    const reconstruction = new Float32Array(this.visibleBias.length);
+    this.visibleProbabilities(hidden, reconstruction);
+    return { reconstruction, hidden };
+  }
+
+  /**
+   * Карты признаков изображения по фильтрам
+   * @param sample - изображение
+   * @returns p(h = 1 | v) для каждой позиции каждого фильтра и вероятности pooling-нейронов
+   */
+  featureMaps(sample: Float32Array): FeatureMaps {
+    const mapLength = this.mapSize * this.mapSize;
+    const pooledLength = this.pooledSize * this.pooledSize;
+    const hidden = new Float32Array(this.nFilters * mapLength);
+    const pooled = this.poolSize > 1 ? new Float32Array(this.nFilters * pooledLength) : undefined;
+    this.hiddenInput(sample, hidden);
+    this.hiddenProbabilities(hidden, pooled);
+
+    return {
+      size: this.mapSize,
+      maps: Array.from({ length: this.nFilters }, (_, k) => hidden.subarray(k * mapLength, (k + 1) * mapLength)),
+      pooledSize: this.pooledSize,
+      pooled: pooled
+        ? Array.from({ length: this.nFilters }, (_, k) => pooled.subarray(k * pooledLength, (k + 1) * pooledLength))
+        : null
+    };
+  }
+
+  /**
+   * Возвращает фильтр без копирования
+   * @param filterIndex - номер фильтра
+   * @returns веса filterSize × filterSize построчно
+   */
+  getFilter(filterIndex: number): Float32Array {
+    const length = this.filterSize * this.filterSize;
+    return this.weights.subarray(filterIndex * length, (filterIndex + 1) * length);
+  }
+
+  /**
+   * Возвращает количество фильтров
+   * @returns K
+   */
+  getNFilters(): number {
+    return this.nFilters;
+  }
+
+  /**
+   * Возвращает сторону фильтра
+   * @returns F
+   */
+  getFilterSize(): number {
+    return this.filterSize;
+  }
+
+  /**
+   * Возвращает сторону блока max-pooling
+   * @returns C (1 — без пулинга)
+   */
+  getPoolSize(): number {
+    return this.poolSize;
+  }
+}
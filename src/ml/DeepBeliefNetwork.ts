@@ -0,0 +1,206 @@
+import { BernoulliRBM } from './BernoulliRBM';
+import { matMulTransposed, transposeInto } from './kernels';
+import { Random } from '../utils/random';
+import { getSplit, isDataset } from '../utils/dataset';
+import type { DBNParams, Dataset, ReconstructionResult } from '../types';
+
+// Номера потоков случайных чисел для слоёв выше первого
+// (первый слой получает seed сети как есть и совпадает с одиночной RBM)
+const LAYER_SEED_STREAM = 100;
+
+// Шагов Гиббса в верхней RBM при генерации по умолчанию
+const DEFAULT_GENERATION_STEPS = 200;
+
+/**
+ * Обучает один слой стека на представлениях предыдущего слоя
+ * @param rbm - RBM слоя
+ * @param data - обучающие данные слоя
+ * @param layer - номер слоя (0 — ближайший к пикселям)
+ * @returns обученная RBM (может быть другим экземпляром, например полученным из воркера)
+ */
+export type LayerTrainer = (rbm: BernoulliRBM, data: Float32Array[], layer: number) => Promise<BernoulliRBM>;
+
+/**
+ * Глубокая сеть доверия (Deep Belief Network, Hinton, Osindero & Teh 2006):
+ * стек бинарных RBM, обучаемых жадно по одному слою. Слой l + 1 учится на
+ * вероятностях скрытого слоя l для обучающих данных, поэтому каждая RBM
+ * моделирует представления, выученные слоем ниже.
+ * Генеративная модель: верхняя пара слоёв — неориентированная RBM, нижние связи
+ * направлены вниз. Генерация (проход «вверх-вниз»): цепь Гиббса в верхней RBM,
+ * затем спуск к пикселям через p(v | h) нижних слоёв
+ */
+export class DeepBeliefNetwork {
+  private layerSizes: number[];
+  private layers: BernoulliRBM[];
+  private projections: Map<number, Float32Array>;
+
+  /**
+   * Создает глубокую сеть доверия
+   * @param params - параметры сети
+   * @param params.layerSizes - размеры слоёв от пикселей к верхнему, например [784, 500, 250, 64]
+   * @param params.seed - seed первого слоя; seed остальных выводится из него
+   * Остальные параметры (метод обучения, оптимизатор, регуляризация) общие для всех RBM стека
+   */
+  constructor({ layerSizes, ...params }: DBNParams) {
+    if (layerSizes.length < 2 || layerSizes.some(size => !Number.isInteger(size) || size < 1)) {
+      throw new Error(`Некорректная архитектура DBN: ${layerSizes.join('-')}`);
+    }
+
+    this.layerSizes = layerSizes.slice();
+    this.layers = layerSizes.slice(1).map((nHidden, l) => new BernoulliRBM({
+      ...params,
+      nVisible: layerSizes[l],
+      nHidden,
+      seed: params.seed === undefined || l === 0 ? params.seed : Random.deriveSeed(params.seed, LAYER_SEED_STREAM + l)
+    }));
+    this.projections = new Map();
+  }
+
+  /**
+   * Жадное послойное обучение: каждый слой обучается на вероятностях
+   * скрытого слоя предыдущего, уже обученного
+   * @param data - обучающие образцы (пиксели) или набор данных (обучение на разделе train)
+   * @param trainLayer - функция обучения одного слоя
+   * @param signal - сигнал остановки; проверяется между слоями
+   * @returns true, если обучение было остановлено до верхнего слоя
+   */
+  async fit(data: Float32Array[] | Dataset, trainLayer: LayerTrainer, signal?: AbortSignal): Promise<boolean> {
+    let layerData = isDataset(data) ? getSplit(data, 'train').images : data;
+
+    for (let l = 0; l < this.layers.length; l++) {
+      if (signal?.aborted) return true;
+      console.log(`🧱 DBN: обучение слоя ${l + 1}/${this.layers.length} (${this.layerSizes[l]} → ${this.layerSizes[l + 1]})`);
+      this.layers[l] = await trainLayer(this.layers[l], layerData, l);
+      this.projections.clear();
+      if (signal?.aborted) return true;
+
+      if (l < this.layers.length - 1) {
+        layerData = this.layers[l].hiddenProbabilities(layerData);
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Проход вверх: вероятности скрытого слоя на заданной глубине
+   * @param sample - образец (пиксели)
+   * @param depth - количество слоёв, через которые проходит образец (от 0 до getNLayers())
+   * @returns представление образца на глубине depth
+   */
+  up(sample: Float32Array, depth: number = this.layers.length): Float32Array {
+    let state = sample;
+    for (let l = 0; l < depth; l++) {
+      state = this.layers[l].hiddenProbabilities([state])[0];
+    }
+    return state;
+  }
+
+  /**
+   * Проход вниз: вероятности пикселей для состояния на заданной глубине
+   * (средние поля p(v | h) каждого нижележащего слоя)
+   * @param state - состояние слоя на глубине depth
+   * @param depth - глубина слоя, с которого начинается спуск
+   * @returns вероятности пикселей
+   */
+  down(state: Float32Array, depth: number = this.layers.length): Float32Array {
+    let current = state;
+    for (let l = depth - 1; l >= 0; l--) {
+      current = this.layers[l].visibleProbabilities([current])[0];
+    }
+    return current;
+  }
+
+  /**
+   * Реконструкция через заданную глубину: вверх до слоя depth и обратно к пикселям
+   * @param sample - образец (пиксели)
+   * @param depth - глубина скрытого представления (по умолчанию верхний слой)
+   * @returns реконструкция и представление на глубине depth
+   */
+  reconstruct(sample: Float32Array, depth: number = this.layers.length): ReconstructionResult {
+    const hidden = this.up(sample, depth);
+    return { reconstruction: this.down(hidden, depth), hidden };
+  }
+
+  /**
+   * Генерация образца из верхнего слоя: цепь Гиббса в верхней RBM,
+   * затем спуск к пикселям
+   * @param steps - количество шагов Гиббса в верхней RBM
+   * @param start - образец, с представления которого начинается цепь
+   *   (по умолчанию — нулевое состояние предпоследнего слоя)
+   * @returns вероятности пикселей сгенерированного образца
+   */
+  generate(steps: number = DEFAULT_GENERATION_STEPS, start?: Float32Array): Float32Array {
+    const top = this.layers.length - 1;
+    const initial = start
+      ? this.up(start, top)
+      : new Float32Array(this.layerSizes[top]);
+    return this.down(this.layers[top].sampleChain(initial, steps), top);
+  }
+
+  /**
+   * Фильтры нейронов слоя в пространстве пикселей. Для первого слоя — его веса,
+   * для слоя l — линейная проекция Wₗ · Wₗ₋₁ · … · W₁: взвешенная сумма фильтров
+   * нижнего слоя (Lee et al. 2009). Результат кешируется до следующего обучения
+   * @param layer - номер слоя (0 — ближайший к пикселям)
+   * @returns матрица nHidden × nPixels построчно
+   */
+  projectedFilters(layer: number): Float32Array {
+    const cached = this.projections.get(layer);
+    if (cached) return cached;
+
+    const nVisible = this.layerSizes[layer];
+    const nHidden = this.layerSizes[layer + 1];
+    let projection: Float32Array;
+    if (layer === 0) {
+      projection = this.layers[0].getWeights();
+    } else {
+      const below = this.projectedFilters(layer - 1);
+      const nPixels = this.layerSizes[0];
+      const belowT = new Float32Array(below.length);
+      transposeInto(below, nVisible, nPixels, belowT);
+      projection = new Float32Array(nHidden * nPixels);
+      matMulTransposed(this.layers[layer].getWeights(), nHidden, belowT, nPixels, nVisible, projection);
+    }
+
+    this.projections.set(layer, projection);
+    return projection;
+  }
+
+  /**
+   * Фильтр нейрона слоя в пространстве пикселей без копирования
+   * @param layer - номер слоя
+   * @param hiddenIndex - индекс нейрона в слое
+   * @returns проекция фильтра на пиксели
+   */
+  getProjectedFilter(layer: number, hiddenIndex: number): Float32Array {
+    const projection = this.projectedFilters(layer);
+    const nPixels = this.layerSizes[0];
+    return projection.subarray(hiddenIndex * nPixels, (hiddenIndex + 1) * nPixels);
+  }
+
+  /**
+   * Возвращает RBM слоя
+   * @param layer - номер слоя (0 — ближайший к пикселям)
+   * @returns RBM слоя
+   */
+  getLayer(layer: number): BernoulliRBM {
+    return this.layers[layer];
+  }
+
+  /**
+   * Возвращает количество RBM в стеке
+   * @returns количество слоёв скрытых нейронов
+   */
+  getNLayers(): number {
+    return this.layers.length;
+  }
+
+  /**
+   * Возвращает размеры слоёв от пикселей к верхнему
+   * @returns массив размеров, например [784, 500, 250, 64]
+   */
+  getLayerSizes(): number[] {
+    return this.layerSizes;
+  }
+}
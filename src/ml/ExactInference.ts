@@ -0,0 +1,270 @@
+import type { BernoulliRBM } from './BernoulliRBM';
+import { matMulTransposed, sigmoidInPlace, softplus } from './kernels';
+import type { GradientBias, GradientEstimator, RBMGradient } from '../types';
+
+/**
+ * Наибольшее число скрытых нейронов для перебора: 2^20 ≈ 10⁶ состояний
+ * (секунды при десятках видимых нейронов, десятки секунд при 784)
+ */
+export const EXACT_MAX_HIDDEN = 20;
+
+/**
+ * Точный вывод для маленьких RBM: статистическая сумма, правдоподобие и градиент
+ * считаются полным перебором состояний скрытого слоя. Видимый слой при фиксированном h
+ * суммируется аналитически: Σ_v exp(−E(v, h)) = exp(c·h + Σᵢ softplus(bᵢ + (Wᵀh)ᵢ)),
+ * поэтому стоимость — O(2^nHidden · nVisible) при любом числе видимых нейронов.
+ * Служит эталоном для приближённых методов (CD-k, сэмплирование из равновесия, AIS)
+ * и проверкой базовых формул модели (энергия, свободная энергия, сэмплеры).
+ * Параметры модели читаются при каждом вызове, так что оценщик можно держать
+ * рядом с обучаемой моделью
+ */
+export class ExactInference {
+  private rbm: BernoulliRBM;
+  private nVisible: number;
+  private nHidden: number;
+
+  /**
+   * Создает точный оценщик для модели
+   * @param rbm - модель с не более чем EXACT_MAX_HIDDEN скрытыми нейронами
+   * @throws Error, если скрытых нейронов слишком много для перебора или видимые нейроны гауссовские (либо есть нейроны метки)
+   */
+  constructor(rbm: BernoulliRBM) {
+    const { nVisible, nHidden, visibleUnits, nClasses } = rbm.getParams();
+    if (visibleUnits === 'gaussian' || nClasses) {
+      throw new Error('Точный вывод реализован для RBM с бинарными видимыми нейронами без меток');
+    }
+    if (nHidden > EXACT_MAX_HIDDEN) {
+      throw new Error(`Точный вывод доступен для RBM не более чем с ${EXACT_MAX_HIDDEN} скрытыми нейронами (у модели ${nHidden})`);
+    }
+
+    this.rbm = rbm;
+    this.nVisible = nVisible;
+    this.nHidden = nHidden;
+  }
+
+  /**
+   * Перебирает все состояния скрытого слоя в порядке кода Грея: соседние состояния
+   * отличаются одним нейроном, поэтому поле видимого слоя b + Wᵀh обновляется за O(nVisible)
+   * @param visit - получает состояние h, поле b + Wᵀh и log Σ_v exp(−E(v, h))
+   */
+  private forEachHiddenState(visit: (hidden: Float32Array, visibleField: Float64Array, logWeight: number) => void): void {
+    const weights = this.rbm.getWeights();
+    const hiddenBias = this.rbm.getHiddenBias();
+    const hidden = new Float32Array(this.nHidden);
+    const visibleField = Float64Array.from(this.rbm.getVisibleBias());
+    let hiddenTerm = 0;
+
+    const nStates = 2 ** this.nHidden;
+    for (let k = 0; k < nStates; k++) {
+      if (k > 0) {
+        // Между k−1 и k в коде Грея меняется бит, равный младшему единичному биту k
+        const j = 31 - Math.clz32(k & -k);
+        const sign = hidden[j] === 0 ? 1 : -1;
+        hidden[j] += sign;
+        hiddenTerm += sign * hiddenBias[j];
+        const offset = j * this.nVisible;
+        for (let i = 0; i < this.nVisible; i++) {
+          visibleField[i] += sign * weights[offset + i];
+        }
+      }
+
+      let logWeight = hiddenTerm;
+      for (let i = 0; i < this.nVisible; i++) {
+        logWeight += softplus(visibleField[i]);
+      }
+      visit(hidden, visibleField, logWeight);
+    }
+  }
+
+  /**
+   * Точный логарифм статистической суммы
+   * @returns log Z = log Σ_{v,h} exp(−E(v, h))
+   */
+  logPartition(): number {
+    // Онлайн-логсумэксп: сумма хранится относительно текущего максимума
+    let max = -Infinity;
+    let sum = 0;
+    this.forEachHiddenState((_hidden, _field, logWeight) => {
+      if (logWeight > max) {
+        sum = sum * Math.exp(max - logWeight) + 1;
+        max = logWeight;
+      } else {
+        sum += Math.exp(logWeight - max);
+      }
+    });
+    return max + Math.log(sum);
+  }
+
+  /**
+   * Точный средний логарифм правдоподобия: log p(v) = −F(v) − log Z.
+   * p(v) определена для бинарных состояний, поэтому образцы бинаризуются (порог 0.5)
+   * @param data - образцы
+   * @returns средний log p(v) на образец (нат)
+   */
+  logLikelihood(data: Float32Array[]): number {
+    const logZ = this.logPartition();
+    let total = 0;
+    for (const sample of data) {
+      total -= this.rbm.freeEnergy(sample.map(x => (x > 0.5 ? 1 : 0)));
+    }
+    return total / Math.max(1, data.length) - logZ;
+  }
+
+  /**
+   * Точный градиент среднего логарифма правдоподобия: ⟨·⟩_данные − ⟨·⟩_модель.
+   * Положительная фаза считается, как при обучении, по p(h | v) для образцов как есть;
+   * отрицательная — точным усреднением по распределению модели
+   * @param data - образцы (для бинарных данных это истинный градиент правдоподобия)
+   * @returns градиент в той же раскладке, что и параметры модели
+   */
+  gradient(data: Float32Array[]): RBMGradient {
+    const { nVisible, nHidden } = this;
+    const rows = data.length;
+    const weights = new Float32Array(nHidden * nVisible);
+    const hiddenBias = new Float32Array(nHidden);
+    const visibleBias = new Float32Array(nVisible);
+
+    // Положительная фаза: средние vᵢ·p(hⱼ = 1 | v), p(hⱼ = 1 | v) и vᵢ по данным
+    const visible = new Float32Array(rows * nVisible);
+    data.forEach((sample, r) => visible.set(sample, r * nVisible));
+    const hiddenProb = new Float32Array(rows * nHidden);
+    matMulTransposed(visible, rows, this.rbm.getWeights(), nHidden, nVisible, hiddenProb, this.rbm.getHiddenBias());
+    sigmoidInPlace(hiddenProb, rows * nHidden);
+
+    for (let r = 0; r < rows; r++) {
+      for (let j = 0; j < nHidden; j++) {
+        const p = hiddenProb[r * nHidden + j] / rows;
+        hiddenBias[j] += p;
+        const offset = j * nVisible;
+        for (let i = 0; i < nVisible; i++) {
+          weights[offset + i] += p * visible[r * nVisible + i];
+        }
+      }
+      for (let i = 0; i < nVisible; i++) {
+        visibleBias[i] += visible[r * nVisible + i] / rows;
+      }
+    }
+
+    // Отрицательная фаза: p(h) = exp(logWeight) / Z, E[vᵢ | h] = σ(bᵢ + (Wᵀh)ᵢ)
+    const logZ = this.logPartition();
+    const visibleMean = new Float64Array(nVisible);
+    this.forEachHiddenState((hidden, visibleField, logWeight) => {
+      const p = Math.exp(logWeight - logZ);
+      for (let i = 0; i < nVisible; i++) {
+        visibleMean[i] = p / (1 + Math.exp(-visibleField[i]));
+        visibleBias[i] -= visibleMean[i];
+      }
+      for (let j = 0; j < nHidden; j++) {
+        if (hidden[j] === 0) continue;
+        hiddenBias[j] -= p;
+        const offset = j * nVisible;
+        for (let i = 0; i < nVisible; i++) {
+          weights[offset + i] -= visibleMean[i];
+        }
+      }
+    });
+
+    return { weights, hiddenBias, visibleBias };
+  }
+
+  /**
+   * Сравнивает приближённый градиент с точным: trials независимых оценок методом
+   * BernoulliRBM.estimateGradient на одном и том же батче. Оценки используют генератор модели
+   * @param data - батч данных (положительная фаза у обоих градиентов одна и та же)
+   * @param method - приближённый метод
+   * @param trials - количество независимых оценок (по умолчанию 20)
+   * @param gibbsSteps - шагов burn-in для сэмплирования из равновесия (по умолчанию 3000)
+   * @param negPhaseSamples - сэмплов отрицательной фазы для сэмплирования из равновесия (по умолчанию 500)
+   * @returns систематическое отклонение, шум и косинус угла с точным градиентом
+   */
+  gradientBias(
+    data: Float32Array[],
+    method: GradientEstimator,
+    trials: number = 20,
+    gibbsSteps: number = 3000,
+    negPhaseSamples: number = 500
+  ): GradientBias {
+    const exact = flattenGradient(this.gradient(data));
+    const estimates = Array.from({ length: trials }, () =>
+      flattenGradient(this.rbm.estimateGradient(data, method, gibbsSteps, negPhaseSamples))
+    );
+
+    const mean = new Float64Array(exact.length);
+    for (const estimate of estimates) {
+      for (let k = 0; k < mean.length; k++) {
+        mean[k] += estimate[k] / trials;
+      }
+    }
+
+    const exactNorm = norm(exact) || 1;
+    let noise = 0;
+    for (const estimate of estimates) {
+      noise += distance(estimate, mean) / trials;
+    }
+
+    let dot = 0;
+    for (let k = 0; k < exact.length; k++) {
+      dot += exact[k] * mean[k];
+    }
+
+    return {
+      method,
+      bias: distance(mean, exact) / exactNorm,
+      noise: noise / exactNorm,
+      cosine: dot / (exactNorm * (norm(mean) || 1)),
+      trials
+    };
+  }
+
+  /**
+   * Проверка энергии: свободная энергия F(v) должна совпадать с
+   * −log Σ_h exp(−E(v, h)), посчитанной перебором через BernoulliRBM.energy
+   * @param data - образцы (бинаризуются по порогу 0.5)
+   * @param maxSamples - максимальное количество образцов (по умолчанию 20)
+   * @returns наибольшее абсолютное расхождение
+   */
+  freeEnergyError(data: Float32Array[], maxSamples: number = 20): number {
+    const hidden = new Float32Array(this.nHidden);
+    let maxError = 0;
+
+    for (const sample of data.slice(0, maxSamples)) {
+      const visible = sample.map(x => (x > 0.5 ? 1 : 0));
+      const negEnergies: number[] = [];
+      for (let m = 0; m < 2 ** this.nHidden; m++) {
+        for (let j = 0; j < this.nHidden; j++) {
+          hidden[j] = (m >> j) & 1;
+        }
+        negEnergies.push(-this.rbm.energy(visible, hidden));
+      }
+
+      const max = Math.max(...negEnergies);
+      const bruteForce = -(max + Math.log(negEnergies.reduce((sum, e) => sum + Math.exp(e - max), 0)));
+      maxError = Math.max(maxError, Math.abs(bruteForce - this.rbm.freeEnergy(visible)));
+    }
+
+    return maxError;
+  }
+}
+
+/**
+ * Склеивает градиенты весов и смещений в один вектор
+ */
+function flattenGradient({ weights, hiddenBias, visibleBias }: RBMGradient): Float64Array {
+  const flat = new Float64Array(weights.length + hiddenBias.length + visibleBias.length);
+  flat.set(weights);
+  flat.set(hiddenBias, weights.length);
+  flat.set(visibleBias, weights.length + hiddenBias.length);
+  return flat;
+}
+
+function norm(vector: Float64Array): number {
+  return Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+}
+
+function distance(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let k = 0; k < a.length; k++) {
+    sum += (a[k] - b[k]) ** 2;
+  }
+  return Math.sqrt(sum);
+}
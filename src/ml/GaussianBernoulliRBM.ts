@@ -0,0 +1,333 @@
+import { BernoulliRBM, type PhaseStatistics } from './BernoulliRBM';
+import { matMulTransposed } from './kernels';
+import type {
+  EpochMetrics,
+  RBMParams,
+  SerializedRBM,
+  TransferableRBM
+} from '../types';
+
+// Начальная дисперсия видимых нейронов (и постоянная, если дисперсии не обучаются)
+const DEFAULT_VISIBLE_VARIANCE = 1;
+
+// Нижняя граница обучаемой дисперсии: у пикселей, которые в данных почти не меняются
+// (поля изображения), дисперсия иначе стремится к нулю, и v/σ в энергии взрывается
+const MIN_VISIBLE_VARIANCE = 0.01;
+
+/**
+ * Гауссово-бернуллиевская RBM для вещественных значений пикселей:
+ * видимые нейроны гауссовские, скрытые — бинарные.
+ * Энергия: E(v, h) = Σᵢ (vᵢ − bᵢ)² / 2σᵢ² − c·h − Σᵢⱼ hⱼ Wⱼᵢ vᵢ / σᵢ, откуда
+ * p(hⱼ = 1 | v) = σ(cⱼ + Wⱼ·(v/σ)) и p(vᵢ | h) = N(bᵢ + σᵢ (Wᵀh)ᵢ, σᵢ²).
+ * Дисперсии хранятся логарифмами zᵢ = log σᵢ² и либо обучаются вместе с весами,
+ * либо остаются постоянными. Интерфейс совпадает с BernoulliRBM: «вероятности»
+ * видимого слоя здесь — средние p(v | h), а бинарная выборка — гауссовский сэмпл
+ */
+export class GaussianBernoulliRBM extends BernoulliRBM {
+  private learnVariance: boolean;
+  private visibleVariance: number;
+  private logVariance: Float32Array;
+  private logVarianceGrad: Float32Array;
+  private visibleStd: Float32Array;
+
+  /**
+   * Создает гауссово-бернуллиевскую машину Больцмана
+   * @param params - параметры инициализации RBM (см. BernoulliRBM)
+   * @param params.learnVariance - обучать ли дисперсии видимых нейронов (по умолчанию true)
+   * @param params.visibleVariance - начальная дисперсия видимых нейронов (по умолчанию 1)
+   */
+  constructor(params: RBMParams) {
+    super(params);
+    const { learnVariance = true, visibleVariance = DEFAULT_VISIBLE_VARIANCE } = params;
+
+    this.learnVariance = learnVariance;
+    this.visibleVariance = visibleVariance;
+    this.logVariance = new Float32Array(this.nVisible).fill(Math.log(visibleVariance));
+    this.logVarianceGrad = new Float32Array(this.nVisible);
+    this.visibleStd = new Float32Array(this.nVisible);
+    this.syncTransposedWeights();
+  }
+
+  /**
+   * Обновляет транспонированную копию весов и стандартные отклонения σᵢ = exp(zᵢ / 2),
+   * ограничивая дисперсии снизу
+   */
+  protected syncTransposedWeights(): void {
+    super.syncTransposedWeights();
+    const minLogVariance = Math.log(MIN_VISIBLE_VARIANCE);
+    for (let i = 0; i < this.nVisible; i++) {
+      this.logVariance[i] = Math.max(minLogVariance, this.logVariance[i]);
+      this.visibleStd[i] = Math.exp(this.logVariance[i] / 2);
+    }
+  }
+
+  /**
+   * Делит образцы на стандартные отклонения: все члены энергии, связывающие слои,
+   * зависят от v только через v/σ
+   * @param visible - матрица rows × nVisible
+   * @param rows - количество образцов
+   * @param name - имя буфера рабочей памяти для результата
+   * @returns матрица rows × nVisible со значениями vᵢ / σᵢ
+   */
+  private scaleVisible(visible: Float32Array, rows: number, name: string): Float32Array {
+    const scaled = this.buffer(name, rows * this.nVisible);
+    for (let r = 0; r < rows; r++) {
+      const offset = r * this.nVisible;
+      for (let i = 0; i < this.nVisible; i++) {
+        scaled[offset + i] = visible[offset + i] / this.visibleStd[i];
+      }
+    }
+    return scaled;
+  }
+
+  /**
+   * Пре-активации скрытого слоя для батча: c + W·(v/σ)
+   */
+  protected hiddenInput(visible: Float32Array, rows: number, output: Float32Array): void {
+    const scaled = this.scaleVisible(visible, rows, 'scaledVisibleInput');
+    matMulTransposed(scaled, rows, this.weights, this.nHidden, this.nVisible, output, this.hiddenBias);
+  }
+
+  /**
+   * Средние видимого слоя для батча: E[vᵢ | h] = bᵢ + σᵢ (Wᵀh)ᵢ.
+   * Температура меняет только дисперсию (T·σᵢ²), а не среднее
+   */
+  protected sampleVisible(
+    hidden: Float32Array,
+    rows: number = 1,
+    output: Float32Array = new Float32Array(rows * this.nVisible)
+  ): Float32Array {
+    matMulTransposed(hidden, rows, this.weightsT, this.nVisible, this.nHidden, output);
+    for (let r = 0; r < rows; r++) {
+      const offset = r * this.nVisible;
+      for (let i = 0; i < this.nVisible; i++) {
+        output[offset + i] = this.visibleBias[i] + this.visibleStd[i] * output[offset + i];
+      }
+    }
+    return output;
+  }
+
+  /**
+   * Выборка видимого слоя: vᵢ ~ N(bᵢ + σᵢ (Wᵀh)ᵢ, T·σᵢ²)
+   */
+  protected sampleVisibleBinary(
+    hidden: Float32Array,
+    rows: number = 1,
+    output: Float32Array = new Float32Array(rows * this.nVisible),
+    temperature: number = 1
+  ): Float32Array {
+    this.sampleVisible(hidden, rows, output);
+    const noiseScale = Math.sqrt(temperature);
+    for (let r = 0; r < rows; r++) {
+      const offset = r * this.nVisible;
+      for (let i = 0; i < this.nVisible; i++) {
+        output[offset + i] += noiseScale * this.visibleStd[i] * this.random.gaussian();
+      }
+    }
+    return output;
+  }
+
+  /**
+   * Энергия: E(v, h) = Σᵢ (vᵢ − bᵢ)² / 2σᵢ² − c·h − Σⱼ hⱼ Wⱼ·(v/σ)
+   */
+  protected computeEnergy(visible: Float32Array, hidden: Float32Array): number {
+    let energy = this.visibleEnergy(visible, 0);
+
+    for (let j = 0; j < this.nHidden; j++) {
+      if (hidden[j] === 0) continue;
+      const offset = j * this.nVisible;
+      let field = this.hiddenBias[j];
+      for (let i = 0; i < this.nVisible; i++) {
+        field += this.weights[offset + i] * visible[i] / this.visibleStd[i];
+      }
+      energy -= hidden[j] * field;
+    }
+
+    return energy;
+  }
+
+  /**
+   * Квадратичный член энергии видимого слоя: Σᵢ (vᵢ − bᵢ)² / 2σᵢ²
+   */
+  protected visibleEnergy(visible: Float32Array, offset: number): number {
+    let energy = 0;
+    for (let i = 0; i < this.nVisible; i++) {
+      const deviation = (visible[offset + i] - this.visibleBias[i]) / this.visibleStd[i];
+      energy += deviation * deviation / 2;
+    }
+    return energy;
+  }
+
+  /**
+   * Видимый полушаг параллельного темперирования: vᵢ ~ N(bᵢ + σᵢ (Wᵀh)ᵢ, σᵢ² / β)
+   */
+  protected sampleTemperedVisible(
+    hidden: Float32Array,
+    nRows: number,
+    rowBeta: Float32Array,
+    visible: Float32Array,
+    energies: Float64Array
+  ): void {
+    const topDown = this.buffer('temperedVisibleField', nRows * this.nVisible);
+    matMulTransposed(hidden, nRows, this.weightsT, this.nVisible, this.nHidden, topDown);
+    for (let r = 0; r < nRows; r++) {
+      const offset = r * this.nVisible;
+      const noiseScale = 1 / Math.sqrt(rowBeta[r]);
+      let energy = 0;
+      for (let i = 0; i < this.nVisible; i++) {
+        const std = this.visibleStd[i];
+        const state = this.visibleBias[i] + std * (topDown[offset + i] + noiseScale * this.random.gaussian());
+        visible[offset + i] = state;
+        const deviation = (state - this.visibleBias[i]) / std;
+        energy += deviation * deviation / 2 - state / std * topDown[offset + i];
+      }
+      energies[r] = energy;
+    }
+  }
+
+  /**
+   * Градиенты гауссовской модели. Веса и смещения скрытого слоя получаются из
+   * бернуллиевских формул для v/σ, градиент смещений видимого слоя дополнительно
+   * делится на σ. Градиент логарифмов дисперсий:
+   * ⟨(vᵢ − bᵢ)² / 2σᵢ² − vᵢ (Wᵀh)ᵢ / 2σᵢ⟩_данные − ⟨·⟩_модель
+   */
+  protected computeGradients(positive: PhaseStatistics, negative: PhaseStatistics): void {
+    if (this.learnVariance) {
+      this.logVarianceGrad.fill(0);
+      this.accumulateVarianceGradient(positive, 1);
+      this.accumulateVarianceGradient(negative, -1);
+    }
+
+    super.computeGradients(
+      { ...positive, visible: this.scaleVisible(positive.visible, positive.rows, 'gradScaledPositive') },
+      { ...negative, visible: this.scaleVisible(negative.visible, negative.rows, 'gradScaledNegative') }
+    );
+    for (let i = 0; i < this.nVisible; i++) {
+      this.visibleGrad[i] /= this.visibleStd[i];
+    }
+  }
+
+  /**
+   * Добавляет к градиенту логарифмов дисперсий среднее −∂E/∂zᵢ по фазе
+   * @param phase - статистики фазы
+   * @param sign - +1 для данных, −1 для модели
+   */
+  private accumulateVarianceGradient(phase: PhaseStatistics, sign: number): void {
+    const { visible, hidden, rows } = phase;
+    const topDown = this.buffer('varianceTopDown', rows * this.nVisible);
+    matMulTransposed(hidden, rows, this.weightsT, this.nVisible, this.nHidden, topDown);
+
+    const scale = sign / rows;
+    for (let r = 0; r < rows; r++) {
+      const offset = r * this.nVisible;
+      for (let i = 0; i < this.nVisible; i++) {
+        const std = this.visibleStd[i];
+        const deviation = (visible[offset + i] - this.visibleBias[i]) / std;
+        this.logVarianceGrad[i] += scale * (deviation * deviation - visible[offset + i] / std * topDown[offset + i]) / 2;
+      }
+    }
+  }
+
+  /**
+   * Применяет градиенты через оптимизатор; логарифмы дисперсий — отдельный
+   * параметр оптимизатора со своими моментами
+   */
+  protected optimizerStep(): void {
+    if (!this.learnVariance) {
+      super.optimizerStep();
+      return;
+    }
+
+    this.optimizer.apply(
+      [this.weights, this.hiddenBias, this.visibleBias, this.logVariance],
+      [this.weightGrad, this.hiddenGrad, this.visibleGrad, this.logVarianceGrad],
+      this.learningRate
+    );
+    this.syncTransposedWeights();
+  }
+
+  /**
+   * Псевдо-правдоподобие по инверсии пикселей определено только для бинарных
+   * видимых нейронов; evaluate() его не сообщает
+   * @returns NaN
+   */
+  pseudoLogLikelihood(): number {
+    return NaN;
+  }
+
+  /**
+   * Метрики качества по (части) набора данных: ошибки реконструкции
+   * и средняя свободная энергия F(v) = Σᵢ (vᵢ − bᵢ)² / 2σᵢ² − Σⱼ softplus(cⱼ + Wⱼ·(v/σ)).
+   * Перекрёстная энтропия считается по средним реконструкции, обрезанным до (0, 1)
+   * @param data - образцы для оценки
+   * @param maxSamples - максимальное количество образцов (по умолчанию 200)
+   * @returns метрики без псевдо-правдоподобия
+   */
+  evaluate(data: Float32Array[], maxSamples: number = 200): EpochMetrics {
+    return {
+      ...this.reconstructionErrors(data, maxSamples),
+      freeEnergy: this.meanFreeEnergy(data, maxSamples)
+    };
+  }
+
+  /**
+   * Возвращает дисперсии видимых нейронов σᵢ²
+   * @returns новый массив дисперсий
+   */
+  getVisibleVariance(): Float32Array {
+    return this.logVariance.map(Math.exp);
+  }
+
+  /**
+   * Возвращает параметры, с которыми была создана модель, вместе с типом видимого слоя
+   * @returns параметры RBM, пригодные для передачи в конструктор
+   */
+  getParams(): RBMParams {
+    return {
+      ...super.getParams(),
+      visibleUnits: 'gaussian',
+      learnVariance: this.learnVariance,
+      visibleVariance: this.visibleVariance
+    };
+  }
+
+  /**
+   * Сериализует модель вместе с логарифмами дисперсий
+   * @returns объект, пригодный для JSON.stringify
+   */
+  toJSON(): SerializedRBM {
+    return { ...super.toJSON(), logVariance: Array.from(this.logVariance) };
+  }
+
+  /**
+   * Переносит параметры и логарифмы дисперсий сериализованной модели в этот экземпляр
+   * @param data - результат toJSON()
+   */
+  protected restoreFromJSON(data: SerializedRBM): void {
+    super.restoreFromJSON(data);
+    if (data.logVariance) {
+      this.logVariance.set(data.logVariance);
+      this.syncTransposedWeights();
+    }
+  }
+
+  /**
+   * Возвращает модель для передачи в другой поток (логарифмы дисперсий копируются при передаче)
+   * @returns параметры, буферы весов и дисперсий, состояние оптимизатора и генератора
+   */
+  toTransferable(): TransferableRBM {
+    return { ...super.toTransferable(), logVariance: this.logVariance };
+  }
+
+  /**
+   * Забирает буферы, логарифмы дисперсий и состояние модели из другого потока
+   * @param model - результат toTransferable()
+   */
+  protected restoreFromTransferable(model: TransferableRBM): void {
+    super.restoreFromTransferable(model);
+    if (model.logVariance) {
+      this.logVariance = model.logVariance;
+      this.syncTransposedWeights();
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import type { OptimizerSettings, OptimizerState, OptimizerType } from '../types';
+
+// Коэффициенты затухания моментов RMSProp и Adam
+const RMSPROP_DECAY = 0.9;
+const ADAM_BETA1 = 0.9;
+const ADAM_BETA2 = 0.999;
+const EPSILON = 1e-8;
+
+// Разгон момента по Хинтону: 0.5 в первые эпохи, затем целевое значение
+const MOMENTUM_RAMP_START = 0.5;
+const MOMENTUM_RAMP_EPOCHS = 5;
+
+/**
+ * Оптимизатор параметров RBM, общий для всех методов обучения.
+ * Принимает градиент логарифма правдоподобия (направление подъёма) и
+ * обновляет параметры на месте. Параметры передаются списком тензоров
+ * в фиксированном порядке — по этому порядку хранится состояние (скорости, моменты)
+ */
+export class Optimizer {
+  private type: OptimizerType;
+  private momentum: number;
+  private momentumRamp: boolean;
+  private step: number;
+  private epoch: number;
+  private firstMoments: Float32Array[];
+  private secondMoments: Float32Array[];
+
+  /**
+   * Создает оптимизатор
+   * @param settings - тип оптимизатора и параметры момента
+   * @param settings.optimizer - 'sgd', 'momentum', 'nesterov', 'rmsprop' или 'adam'
+   * @param settings.momentum - целевой коэффициент момента (для momentum и nesterov)
+   * @param settings.momentumRamp - включить разгон момента 0.5 → momentum за первые эпохи
+   */
+  constructor({ optimizer, momentum, momentumRamp }: OptimizerSettings) {
+    this.type = optimizer;
+    this.momentum = momentum;
+    this.momentumRamp = momentumRamp;
+    this.step = 0;
+    this.epoch = 0;
+    this.firstMoments = [];
+    this.secondMoments = [];
+  }
+
+  /**
+   * Отмечает начало новой эпохи (используется для разгона момента)
+   */
+  startEpoch(): void {
+    this.epoch++;
+  }
+
+  /**
+   * Текущий коэффициент момента с учётом разгона
+   * @returns коэффициент момента
+   */
+  private currentMomentum(): number {
+    if (this.momentumRamp && this.epoch <= MOMENTUM_RAMP_EPOCHS) {
+      return Math.min(MOMENTUM_RAMP_START, this.momentum);
+    }
+    return this.momentum;
+  }
+
+  /**
+   * Создает буферы состояния при первом шаге
+   * @param params - тензоры параметров
+   */
+  private ensureState(params: Float32Array[]): void {
+    if (this.firstMoments.length === params.length) return;
+    this.firstMoments = params.map(p => new Float32Array(p.length));
+    this.secondMoments = this.type === 'rmsprop' || this.type === 'adam'
+      ? params.map(p => new Float32Array(p.length))
+      : [];
+  }
+
+  /**
+   * Выполняет один шаг оптимизации
+   * @param params - тензоры параметров (обновляются на месте)
+   * @param grads - градиенты в направлении подъёма, той же формы что params
+   * @param learningRate - скорость обучения
+   */
+  apply(params: Float32Array[], grads: Float32Array[], learningRate: number): void {
+    this.ensureState(params);
+    this.step++;
+
+    const mu = this.currentMomentum();
+    const adamCorrection1 = 1 - Math.pow(ADAM_BETA1, this.step);
+    const adamCorrection2 = 1 - Math.pow(ADAM_BETA2, this.step);
+
+    for (let t = 0; t < params.length; t++) {
+      const param = params[t];
+      const grad = grads[t];
+      const first = this.firstMoments[t];
+      const second = this.secondMoments[t];
+
+      for (let i = 0; i < param.length; i++) {
+        const g = grad[i];
+
+        switch (this.type) {
+          case 'momentum':
+            first[i] = mu * first[i] + learningRate * g;
+            param[i] += first[i];
+            break;
+          case 'nesterov': {
+            // Формулировка Сутскевера: шаг делается из «заглядывающей вперёд» точки
+            const previous = first[i];
+            first[i] = mu * previous + learningRate * g;
+            param[i] += -mu * previous + (1 + mu) * first[i];
+            break;
+          }
+          case 'rmsprop':
+            second[i] = RMSPROP_DECAY * second[i] + (1 - RMSPROP_DECAY) * g * g;
+            param[i] += learningRate * g / (Math.sqrt(second[i]) + EPSILON);
+            break;
+          case 'adam': {
+            first[i] = ADAM_BETA1 * first[i] + (1 - ADAM_BETA1) * g;
+            second[i] = ADAM_BETA2 * second[i] + (1 - ADAM_BETA2) * g * g;
+            const mHat = first[i] / adamCorrection1;
+            const vHat = second[i] / adamCorrection2;
+            param[i] += learningRate * mHat / (Math.sqrt(vHat) + EPSILON);
+            break;
+          }
+          case 'sgd':
+          default:
+            param[i] += learningRate * g;
+        }
+      }
+    }
+  }
+
+  /**
+   * Возвращает настройки оптимизатора
+   * @returns тип и параметры момента
+   */
+  getSettings(): OptimizerSettings {
+    return { optimizer: this.type, momentum: this.momentum, momentumRamp: this.momentumRamp };
+  }
+
+  /**
+   * Сериализует состояние оптимизатора для сохранения модели
+   * @returns состояние, пригодное для JSON
+   */
+  getState(): OptimizerState {
+    return {
+      step: this.step,
+      epoch: this.epoch,
+      firstMoments: this.firstMoments.map(m => Array.from(m)),
+      secondMoments: this.secondMoments.map(m => Array.from(m))
+    };
+  }
+
+  /**
+   * Восстанавливает состояние оптимизатора для продолжения обучения
+   * @param state - ранее сохранённое состояние
+   */
+  setState(state: OptimizerState): void {
+    this.step = state.step;
+    this.epoch = state.epoch;
+    this.firstMoments = state.firstMoments.map(m => new Float32Array(m));
+    this.secondMoments = state.secondMoments.map(m => new Float32Array(m));
+  }
+}
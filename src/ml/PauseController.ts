@@ -0,0 +1,54 @@
+/**
+ * Управление паузой обучения. По аналогии с AbortController объект передаётся
+ * в fit(), а пауза ставится и снимается извне: fit() ждёт перед каждым батчем
+ */
+export class PauseController {
+  private gate: Promise<void> | null;
+  private release: (() => void) | null;
+
+  constructor() {
+    this.gate = null;
+    this.release = null;
+  }
+
+  /**
+   * Ставит обучение на паузу (вступает в силу перед следующим батчем)
+   */
+  pause(): void {
+    if (this.gate) return;
+    this.gate = new Promise(resolve => {
+      this.release = resolve;
+    });
+  }
+
+  /**
+   * Снимает паузу
+   */
+  resume(): void {
+    this.release?.();
+    this.gate = null;
+    this.release = null;
+  }
+
+  /**
+   * Проверяет, стоит ли обучение на паузе
+   * @returns true во время паузы
+   */
+  isPaused(): boolean {
+    return this.gate !== null;
+  }
+
+  /**
+   * Ждёт снятия паузы; без паузы разрешается сразу
+   * @param signal - сигнал остановки: остановка во время паузы тоже завершает ожидание
+   * @returns Promise, разрешающийся при снятии паузы или остановке
+   */
+  async wait(signal?: AbortSignal): Promise<void> {
+    if (!this.gate || signal?.aborted) return;
+
+    const aborted = new Promise<void>(resolve => {
+      signal?.addEventListener('abort', () => resolve(), { once: true });
+    });
+    await Promise.race([this.gate, aborted]);
+  }
+}
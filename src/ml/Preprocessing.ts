@@ -0,0 +1,253 @@
+import type {
+  Dataset,
+  ImageShape,
+  PixelTransform,
+  PreprocessingSettings,
+  PreprocessingStage,
+  SerializedPreprocessing
+} from '../types';
+import { centerByMass, deskewImage } from '../utils/imageProcessing';
+import { Random } from '../utils/random';
+import { MNIST_SHAPE, PIXEL_TRANSFORM_LABELS } from '../constants';
+
+// Нижняя граница стандартного отклонения пикселя: почти постоянные пиксели на полях
+// изображения не раздуваются делением на почти ноль
+const MIN_PIXEL_STD = 0.1;
+
+// Ключ конвейера в Local Storage (рядом с весами модели)
+const STORAGE_KEY = 'rbm_preprocessing';
+
+// Короткие подписи шага обработки пикселей в превью
+const STAGE_LABELS: Record<Exclude<PixelTransform, 'raw'>, string> = {
+  binarize: 'порог',
+  'stochastic-binarize': 'образец',
+  standardize: 'стандартизация'
+};
+
+/**
+ * Конвейер предобработки изображений: выпрямление наклона, центрирование
+ * по центру масс, затем обработка значений пикселей (порог, стохастическая
+ * бинаризация или стандартизация). Один и тот же конвейер применяется к данным
+ * при обучении и к образцам при реконструкции и оценке модели.
+ * Средние и отклонения для стандартизации находятся по обучающим данным (fit)
+ */
+export class PreprocessingPipeline {
+  private settings: PreprocessingSettings;
+  private shape: ImageShape;
+  private mean: Float32Array | null = null;
+  private std: Float32Array | null = null;
+  private random: Random;
+
+  /**
+   * Создает конвейер предобработки
+   * @param settings - включённые шаги и порог бинаризации
+   * @param shape - форма изображений (по умолчанию 28 × 28)
+   * @param seed - seed генератора стохастической бинаризации
+   */
+  constructor(settings: PreprocessingSettings, shape: ImageShape = MNIST_SHAPE, seed?: number) {
+    this.settings = { ...settings };
+    this.shape = shape;
+    this.random = new Random(seed);
+  }
+
+  /**
+   * Конвейер не меняет изображения
+   * @returns true, если ни один шаг не включён
+   */
+  isIdentity(): boolean {
+    return !this.settings.center && !this.settings.deskew && this.settings.pixelTransform === 'raw';
+  }
+
+  /**
+   * Бинарный вход сэмплируется заново в каждой эпохе (см. TrainingMonitor.resampleBinarized)
+   * @returns true для стохастической бинаризации
+   */
+  resamplesEachEpoch(): boolean {
+    return this.settings.pixelTransform === 'stochastic-binarize';
+  }
+
+  /**
+   * Возвращает настройки конвейера
+   * @returns копия настроек
+   */
+  getSettings(): PreprocessingSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Краткое описание включённых шагов
+   * @returns шаги через запятую
+   */
+  describe(): string {
+    const steps: string[] = [];
+    if (this.settings.deskew) steps.push('выпрямление');
+    if (this.settings.center) steps.push('центрирование');
+    if (this.settings.pixelTransform === 'binarize') {
+      steps.push(`порог ${this.settings.threshold}`);
+    } else if (this.settings.pixelTransform !== 'raw') {
+      steps.push(PIXEL_TRANSFORM_LABELS[this.settings.pixelTransform]);
+    }
+    return steps.length > 0 ? steps.join(', ') : 'без предобработки';
+  }
+
+  /**
+   * Находит средние и стандартные отклонения пикселей (после геометрических
+   * шагов) по обучающим изображениям; без стандартизации ничего не делает
+   * @param images - обучающие изображения
+   * @returns этот же конвейер
+   */
+  fit(images: Float32Array[]): this {
+    if (this.settings.pixelTransform !== 'standardize' || images.length === 0) return this;
+
+    const size = this.shape.width * this.shape.height;
+    const sum = new Float64Array(size);
+    const sumSquares = new Float64Array(size);
+    for (const image of images) {
+      const aligned = this.stages(image).pop()!.image;
+      for (let i = 0; i < size; i++) {
+        sum[i] += aligned[i];
+        sumSquares[i] += aligned[i] * aligned[i];
+      }
+    }
+
+    this.mean = new Float32Array(size);
+    this.std = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      const mean = sum[i] / images.length;
+      this.mean[i] = mean;
+      this.std[i] = Math.max(MIN_PIXEL_STD, Math.sqrt(Math.max(0, sumSquares[i] / images.length - mean * mean)));
+    }
+    return this;
+  }
+
+  /**
+   * Изображение после каждого шага конвейера — для превью «до и после»
+   * @param image - исходное изображение
+   * @param includePixelTransform - применять ли обработку значений пикселей
+   *   (без неё — только геометрические шаги)
+   * @param sample - сэмплировать стохастическую бинаризацию (иначе остаются вероятности)
+   * @returns исходное изображение и результат каждого включённого шага
+   */
+  stages(image: Float32Array, includePixelTransform: boolean = false, sample: boolean = true): PreprocessingStage[] {
+    const { width, height } = this.shape;
+    const stages: PreprocessingStage[] = [{ label: 'исходное', image }];
+    let current = image;
+
+    if (this.settings.deskew) {
+      current = deskewImage(current, width, height);
+      stages.push({ label: 'выпрямление', image: current });
+    }
+    if (this.settings.center) {
+      current = centerByMass(current, width, height);
+      stages.push({ label: 'центрирование', image: current });
+    }
+    if (includePixelTransform && this.settings.pixelTransform !== 'raw') {
+      current = this.transformPixels(current, sample);
+      stages.push({ label: STAGE_LABELS[this.settings.pixelTransform], image: current });
+    }
+    return stages;
+  }
+
+  /**
+   * Обработка значений пикселей
+   * @param image - изображение после геометрических шагов
+   * @param sample - сэмплировать стохастическую бинаризацию
+   * @returns новое изображение
+   */
+  private transformPixels(image: Float32Array, sample: boolean): Float32Array {
+    switch (this.settings.pixelTransform) {
+      case 'binarize':
+        return image.map(value => value > this.settings.threshold ? 1 : 0);
+      case 'stochastic-binarize':
+        return sample ? image.map(value => this.random.next() < value ? 1 : 0) : image.slice();
+      case 'standardize': {
+        const { mean, std } = this;
+        if (!mean || !std) {
+          throw new Error('Стандартизация требует fit() на обучающих данных');
+        }
+        return image.map((value, i) => (value - mean[i]) / std[i]);
+      }
+      default:
+        return image.slice();
+    }
+  }
+
+  /**
+   * Применяет весь конвейер к изображению
+   * @param image - исходное изображение
+   * @param sample - сэмплировать стохастическую бинаризацию (иначе остаются вероятности)
+   * @returns вход модели
+   */
+  transform(image: Float32Array, sample: boolean = true): Float32Array {
+    return this.stages(image, true, sample).pop()!.image;
+  }
+
+  /**
+   * Применяет конвейер ко всем изображениям набора; разделы и метки не меняются
+   * @param dataset - исходный набор
+   * @param sample - сэмплировать стохастическую бинаризацию (иначе остаются вероятности)
+   * @returns новый набор (тот же, если конвейер пустой)
+   */
+  transformDataset(dataset: Dataset, sample: boolean = true): Dataset {
+    if (this.isIdentity()) return dataset;
+    return {
+      ...dataset,
+      images: dataset.images.map(image => this.transform(image, sample)),
+      source: { ...dataset.source, description: `${dataset.source.description}; ${this.describe()}` }
+    };
+  }
+
+  /**
+   * Сериализует конвейер вместе с найденными средними и отклонениями
+   * @returns данные для JSON
+   */
+  toJSON(): SerializedPreprocessing {
+    return {
+      settings: this.getSettings(),
+      mean: this.mean ? Array.from(this.mean) : null,
+      std: this.std ? Array.from(this.std) : null
+    };
+  }
+
+  /**
+   * Восстанавливает конвейер из сериализованных данных
+   * @param data - результат toJSON()
+   * @param shape - форма изображений
+   * @returns конвейер
+   */
+  static fromJSON(data: SerializedPreprocessing, shape: ImageShape = MNIST_SHAPE): PreprocessingPipeline {
+    const pipeline = new PreprocessingPipeline(data.settings, shape);
+    pipeline.mean = data.mean ? new Float32Array(data.mean) : null;
+    pipeline.std = data.std ? new Float32Array(data.std) : null;
+    return pipeline;
+  }
+
+  /**
+   * Сохраняет конвейер в Local Storage рядом с весами модели
+   * @returns true при успехе
+   */
+  saveToLocalStorage(): boolean {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.toJSON()));
+      return true;
+    } catch (e) {
+      console.error('❌ Ошибка сохранения предобработки:', e);
+      return false;
+    }
+  }
+
+  /**
+   * Загружает конвейер, сохранённый вместе с весами модели
+   * @returns конвейер или null, если его нет
+   */
+  static loadFromLocalStorage(): PreprocessingPipeline | null {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? PreprocessingPipeline.fromJSON(JSON.parse(saved)) : null;
+    } catch (e) {
+      console.error('❌ Ошибка загрузки предобработки:', e);
+      return null;
+    }
+  }
+
+}
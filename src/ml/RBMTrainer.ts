@@ -0,0 +1,226 @@
+import type { BernoulliRBM } from './BernoulliRBM';
+import { PauseController } from './PauseController';
+import { rbmFromTransferable } from './rbmFactory';
+import { getSplit, isDataset } from '../utils/dataset';
+import type { Dataset, EpochStats, TrainerRequest, TrainerResponse, TrainingMonitor } from '../types';
+
+type ProgressCallback = (epoch: number, totalEpochs: number, stats?: EpochStats) => void;
+
+/**
+ * Результат запуска обучения
+ */
+export interface TrainingOutcome {
+  rbm: BernoulliRBM;
+  stopped: boolean;
+}
+
+/**
+ * Запускает обучение RBM в Web Worker, чтобы вычисления не блокировали интерфейс.
+ * Если воркеры недоступны, отключены (rbm_use_worker = 'false' в Local Storage)
+ * или воркер не загрузился, обучение идёт в основном потоке с тем же интерфейсом.
+ * Один экземпляр обслуживает один запуск обучения
+ */
+export class RBMTrainer {
+  private worker: Worker | null;
+  private pauseController: PauseController;
+
+  constructor() {
+    this.worker = null;
+    this.pauseController = new PauseController();
+  }
+
+  /**
+   * Проверяет, можно ли обучать в воркере
+   * @returns true, если Web Worker поддерживается и не отключен пользователем
+   */
+  static isWorkerAvailable(): boolean {
+    return typeof Worker !== 'undefined' && localStorage.getItem('rbm_use_worker') !== 'false';
+  }
+
+  /**
+   * Обучает модель. В режиме воркера буферы rbm передаются в воркер без копирования,
+   * поэтому после вызова использовать переданный экземпляр нельзя
+   * @param rbm - модель для обучения (новая или копия для продолжения обучения)
+   * @param data - обучающие образцы или набор данных (раздел train для обучения,
+   *   validation — для отложенных метрик, см. BernoulliRBM.fit)
+   * @param epochs - количество эпох
+   * @param onProgress - вызывается после каждой эпохи
+   * @param signal - сигнал остановки: обучение прерывается перед следующим батчем
+   * @param monitor - отложенные данные и снимки весов (см. BernoulliRBM.fit)
+   * @returns обученная (при остановке — частично обученная) модель
+   */
+  async train(
+    rbm: BernoulliRBM,
+    data: Float32Array[] | Dataset,
+    epochs: number,
+    onProgress: ProgressCallback,
+    signal?: AbortSignal,
+    monitor?: TrainingMonitor
+  ): Promise<TrainingOutcome> {
+    // В воркер передаются готовые образцы: разделы набора разворачиваются здесь
+    if (isDataset(data)) {
+      monitor = { ...monitor, validationData: monitor?.validationData ?? rbm.encodeData(getSplit(data, 'validation')) };
+      data = rbm.encodeData(getSplit(data, 'train'));
+    }
+
+    if (RBMTrainer.isWorkerAvailable()) {
+      try {
+        this.worker = new Worker(new URL('../workers/rbmTrainer.worker.ts', import.meta.url), { type: 'module' });
+      } catch (error) {
+        console.warn('⚠️ Не удалось запустить воркер, обучаем в основном потоке:', error);
+      }
+    }
+
+    // Ошибка загрузки модульного воркера приходит асинхронно — данные и буферы модели
+    // передаются только после сигнала готовности, иначе обучаем в основном потоке
+    if (this.worker && !(await this.waitForReady(this.worker))) {
+      this.terminate();
+    }
+
+    if (this.worker) {
+      console.log('🧵 Обучение в Web Worker');
+      return this.trainInWorker(this.worker, rbm, data, epochs, onProgress, signal, monitor);
+    }
+
+    console.log('🧵 Обучение в основном потоке');
+    await rbm.fit(data, epochs, onProgress, signal, this.pauseController, monitor);
+    return { rbm, stopped: signal?.aborted ?? false };
+  }
+
+  /**
+   * Приостанавливает обучение перед следующим батчем
+   */
+  pause(): void {
+    // Состояние паузы запоминается и здесь: если воркер не запустится, его подхватит обучение в основном потоке
+    this.pauseController.pause();
+    this.post({ type: 'pause' });
+  }
+
+  /**
+   * Продолжает приостановленное обучение
+   */
+  resume(): void {
+    this.pauseController.resume();
+    this.post({ type: 'resume' });
+  }
+
+  private post(message: TrainerRequest, transfer: Transferable[] = []): void {
+    this.worker?.postMessage(message, transfer);
+  }
+
+  /**
+   * Упаковывает образцы в одну матрицу, чтобы передать её одним буфером
+   * @param data - образцы
+   * @param nVisible - размер образца
+   * @returns матрица data.length × nVisible
+   */
+  private pack(data: Float32Array[], nVisible: number): Float32Array {
+    const packed = new Float32Array(data.length * nVisible);
+    data.forEach((sample, s) => packed.set(sample, s * nVisible));
+    return packed;
+  }
+
+  private terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  /**
+   * Ждёт, пока воркер загрузит скрипт и пришлёт 'ready'
+   * @param worker - только что созданный воркер
+   * @returns true, если воркер готов; false, если он завершился ошибкой до первого сообщения
+   */
+  private waitForReady(worker: Worker): Promise<boolean> {
+    return new Promise(resolve => {
+      worker.onmessage = (event: MessageEvent<TrainerResponse>) => {
+        if (event.data.type === 'ready') {
+          resolve(true);
+        }
+      };
+      worker.onerror = (event: ErrorEvent) => {
+        // Без этого ошибка загрузки попадёт в консоль как необработанная
+        event.preventDefault();
+        console.warn('⚠️ Воркер не запустился, обучаем в основном потоке:', event.message);
+        resolve(false);
+      };
+    });
+  }
+
+  private trainInWorker(
+    worker: Worker,
+    rbm: BernoulliRBM,
+    data: Float32Array[],
+    epochs: number,
+    onProgress: ProgressCallback,
+    signal?: AbortSignal,
+    monitor?: TrainingMonitor
+  ): Promise<TrainingOutcome> {
+    // Образец классификационной RBM — пиксели вместе с one-hot меткой
+    const { nVisible, nClasses = 0 } = rbm.getParams();
+    const sampleLength = nVisible + nClasses;
+    const packed = this.pack(data, sampleLength);
+    const validationData = monitor?.validationData ?? [];
+    const validation = this.pack(validationData, sampleLength);
+    const model = rbm.toTransferable();
+
+    return new Promise((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<TrainerResponse>) => {
+        const response = event.data;
+
+        switch (response.type) {
+          case 'progress':
+            onProgress(response.epoch, response.totalEpochs, response.stats);
+            break;
+          case 'snapshot':
+            monitor?.onSnapshot?.(response.snapshot);
+            break;
+          case 'paused':
+            console.log('⏸️ Обучение приостановлено');
+            break;
+          case 'resumed':
+            console.log('▶️ Обучение продолжено');
+            break;
+          case 'done':
+          case 'cancelled':
+            this.terminate();
+            resolve({ rbm: rbmFromTransferable(response.model), stopped: response.type === 'cancelled' });
+            break;
+          case 'error':
+            this.terminate();
+            reject(new Error(response.message));
+            break;
+          case 'ready':
+            break;
+        }
+      };
+
+      worker.onerror = (event: ErrorEvent) => {
+        this.terminate();
+        reject(new Error(event.message));
+      };
+
+      // Без onSnapshot воркер не присылает снимков (интервал 0)
+      this.post(
+        {
+          type: 'start',
+          model,
+          data: packed,
+          nSamples: data.length,
+          validation,
+          nValidation: validationData.length,
+          epochs,
+          snapshotInterval: monitor?.onSnapshot ? monitor.snapshotInterval ?? 10 : 0,
+          resampleBinarized: monitor?.resampleBinarized ?? false
+        },
+        [packed.buffer, validation.buffer, model.weights.buffer, model.hiddenBias.buffer, model.visibleBias.buffer] as ArrayBuffer[]
+      );
+
+      // Остановка передаётся воркеру сообщением; воркер вернёт частично обученную модель
+      if (signal?.aborted) {
+        this.post({ type: 'cancel' });
+      } else {
+        signal?.addEventListener('abort', () => this.post({ type: 'cancel' }), { once: true });
+      }
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import type { AnnealingSchedule } from '../types';
+
+/**
+ * Температура на заданном этапе отжига
+ * @param start - начальная температура
+ * @param end - конечная температура
+ * @param schedule - форма расписания
+ * @param progress - доля пройденных шагов burn-in от 0 до 1
+ * @returns температура согласно расписанию отжига
+ */
+export function annealingTemperature(start: number, end: number, schedule: AnnealingSchedule, progress: number): number {
+  switch (schedule) {
+    case 'linear':
+      return start + (end - start) * progress;
+    case 'stepwise': {
+      // Ступенчатое охлаждение, как в работе Ackley, Hinton & Sejnowski (1985):
+      // несколько плато, температура между которыми убывает геометрически
+      const nPlateaus = 5;
+      const plateau = Math.min(nPlateaus - 1, Math.floor(progress * nPlateaus));
+      return start * Math.pow(end / start, plateau / (nPlateaus - 1));
+    }
+    case 'geometric':
+    default:
+      return start * Math.pow(end / start, progress);
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Пакетные вычислительные ядра RBM.
+ * Все матрицы хранятся в одном непрерывном Float32Array построчно (row-major):
+ * элемент (r, c) матрицы с cols столбцами лежит по индексу r * cols + c.
+ * Основное ядро — произведение A · Bᵀ: каждый элемент результата есть скалярное
+ * произведение двух непрерывных строк, поэтому все три операции обучения
+ * (видимый → скрытый, скрытый → видимый, градиент весов) сводятся к нему,
+ * если держать нужные матрицы в транспонированном виде
+ */
+
+/**
+ * Произведение out = A · Bᵀ (+ bias по столбцам).
+ * Считается блоками 2 × 2: четыре суммы на каждые четыре загрузки из памяти
+ * @param a - матрица rows × inner
+ * @param rows - количество строк A (например, размер батча)
+ * @param b - матрица cols × inner
+ * @param cols - количество строк B (столбцов результата)
+ * @param inner - общая размерность
+ * @param out - матрица rows × cols для результата
+ * @param bias - смещения, прибавляемые к каждому столбцу результата (null — без смещений)
+ */
+export function matMulTransposed(
+  a: Float32Array,
+  rows: number,
+  b: Float32Array,
+  cols: number,
+  inner: number,
+  out: Float32Array,
+  bias: Float32Array | null = null
+): void {
+  let r = 0;
+  for (; r + 1 < rows; r += 2) {
+    const a0 = r * inner;
+    const a1 = a0 + inner;
+    const out0 = r * cols;
+    const out1 = out0 + cols;
+
+    let c = 0;
+    for (; c + 1 < cols; c += 2) {
+      const b0 = c * inner;
+      const b1 = b0 + inner;
+      let s00 = 0, s01 = 0, s10 = 0, s11 = 0;
+      for (let k = 0; k < inner; k++) {
+        const x0 = a[a0 + k];
+        const x1 = a[a1 + k];
+        const y0 = b[b0 + k];
+        const y1 = b[b1 + k];
+        s00 += x0 * y0;
+        s01 += x0 * y1;
+        s10 += x1 * y0;
+        s11 += x1 * y1;
+      }
+      const bias0 = bias ? bias[c] : 0;
+      const bias1 = bias ? bias[c + 1] : 0;
+      out[out0 + c] = bias0 + s00;
+      out[out0 + c + 1] = bias1 + s01;
+      out[out1 + c] = bias0 + s10;
+      out[out1 + c + 1] = bias1 + s11;
+    }
+
+    if (c < cols) {
+      const b0 = c * inner;
+      let s0 = 0, s1 = 0;
+      for (let k = 0; k < inner; k++) {
+        const y = b[b0 + k];
+        s0 += a[a0 + k] * y;
+        s1 += a[a1 + k] * y;
+      }
+      const bias0 = bias ? bias[c] : 0;
+      out[out0 + c] = bias0 + s0;
+      out[out1 + c] = bias0 + s1;
+    }
+  }
+
+  // Последняя строка при нечётном rows (в том числе одиночный образец)
+  if (r < rows) {
+    const a0 = r * inner;
+    const out0 = r * cols;
+
+    let c = 0;
+    for (; c + 1 < cols; c += 2) {
+      const b0 = c * inner;
+      const b1 = b0 + inner;
+      let s0 = 0, s1 = 0;
+      for (let k = 0; k < inner; k++) {
+        const x = a[a0 + k];
+        s0 += x * b[b0 + k];
+        s1 += x * b[b1 + k];
+      }
+      out[out0 + c] = (bias ? bias[c] : 0) + s0;
+      out[out0 + c + 1] = (bias ? bias[c + 1] : 0) + s1;
+    }
+
+    if (c < cols) {
+      const b0 = c * inner;
+      let s = 0;
+      for (let k = 0; k < inner; k++) {
+        s += a[a0 + k] * b[b0 + k];
+      }
+      out[out0 + c] = (bias ? bias[c] : 0) + s;
+    }
+  }
+}
+
+/**
+ * Транспонирует матрицу rows × cols в столбцы [colOffset, colOffset + rows)
+ * матрицы с outStride столбцами, умножая элементы на scale.
+ * Позволяет склеить несколько батчей в одну транспонированную матрицу
+ * @param src - исходная матрица rows × cols
+ * @param rows - количество строк исходной матрицы
+ * @param cols - количество столбцов исходной матрицы
+ * @param out - матрица cols × outStride для результата
+ * @param outStride - количество столбцов результата
+ * @param colOffset - первый столбец результата для записи (по умолчанию 0)
+ * @param scale - множитель (по умолчанию 1)
+ */
+export function transposeInto(
+  src: Float32Array,
+  rows: number,
+  cols: number,
+  out: Float32Array,
+  outStride: number = rows,
+  colOffset: number = 0,
+  scale: number = 1
+): void {
+  for (let r = 0; r < rows; r++) {
+    const srcOffset = r * cols;
+    const outColumn = colOffset + r;
+    for (let c = 0; c < cols; c++) {
+      out[c * outStride + outColumn] = scale * src[srcOffset + c];
+    }
+  }
+}
+
+/**
+ * Накапливает взвешенную сумму строк: out[c] += scale · Σ_r input[r][c]
+ * @param out - вектор длины cols (изменяется на месте)
+ * @param input - матрица rows × cols
+ * @param rows - количество строк
+ * @param cols - количество столбцов
+ * @param scale - множитель (обычно ±1 / rows)
+ */
+export function accumulateColumnSums(
+  out: Float32Array,
+  input: Float32Array,
+  rows: number,
+  cols: number,
+  scale: number
+): void {
+  for (let r = 0; r < rows; r++) {
+    const offset = r * cols;
+    for (let c = 0; c < cols; c++) {
+      out[c] += scale * input[offset + c];
+    }
+  }
+}
+
+/**
+ * Применяет сигмоиду к пре-активациям на месте
+ * @param values - пре-активации (любая форма)
+ * @param length - количество элементов для обработки
+ * @param temperature - температура T: пре-активация делится на T (по умолчанию 1)
+ */
+export function sigmoidInPlace(values: Float32Array, length: number, temperature: number = 1): void {
+  const beta = 1 / temperature;
+  for (let i = 0; i < length; i++) {
+    values[i] = 1 / (1 + Math.exp(-values[i] * beta));
+  }
+}
+
+/**
+ * Численно устойчивая функция softplus: log(1 + exp(x))
+ * @param x - аргумент
+ * @returns log(1 + exp(x)) без переполнения при больших |x|
+ */
+export function softplus(x: number): number {
+  return x > 0 ? x + Math.log1p(Math.exp(-x)) : Math.log1p(Math.exp(x));
+}
@@ -0,0 +1,56 @@
+import { BernoulliRBM } from './BernoulliRBM';
+import { ClassificationRBM } from './ClassificationRBM';
+import { GaussianBernoulliRBM } from './GaussianBernoulliRBM';
+import type { RBMParams, SerializedRBM, TransferableRBM } from '../types';
+
+/**
+ * Создает RBM с нужным типом видимых нейронов
+ * @param params - параметры модели; nClasses > 0 выбирает классификационную RBM,
+ *   иначе visibleUnits выбирает класс (по умолчанию 'binary')
+ * @returns BernoulliRBM, GaussianBernoulliRBM или ClassificationRBM
+ */
+export function createRBM(params: RBMParams): BernoulliRBM {
+  if (params.nClasses) return new ClassificationRBM(params);
+  return params.visibleUnits === 'gaussian' ? new GaussianBernoulliRBM(params) : new BernoulliRBM(params);
+}
+
+/**
+ * Восстанавливает модель из сериализованного вида тем классом, которым она была сохранена
+ * @param data - результат toJSON()
+ * @returns экземпляр модели
+ */
+export function rbmFromJSON(data: SerializedRBM): BernoulliRBM {
+  if (data.nClasses) return ClassificationRBM.fromJSON(data);
+  return data.visibleUnits === 'gaussian' ? GaussianBernoulliRBM.fromJSON(data) : BernoulliRBM.fromJSON(data);
+}
+
+/**
+ * Восстанавливает модель, полученную из другого потока, тем классом, которым она была отправлена
+ * @param model - результат toTransferable()
+ * @returns экземпляр модели
+ */
+export function rbmFromTransferable(model: TransferableRBM): BernoulliRBM {
+  if (model.params.nClasses) return ClassificationRBM.fromTransferable(model);
+  return model.params.visibleUnits === 'gaussian'
+    ? GaussianBernoulliRBM.fromTransferable(model)
+    : BernoulliRBM.fromTransferable(model);
+}
+
+/**
+ * Загружает обученные веса из Local Storage браузера
+ * @returns модель с загруженными весами или null при ошибке
+ */
+export function loadRBMFromLocalStorage(): BernoulliRBM | null {
+  try {
+    const compressed = localStorage.getItem('rbm_weights');
+    if (!compressed) return null;
+
+    const rbm = rbmFromJSON(JSON.parse(compressed));
+
+    console.log('✅ Веса успешно загружены из Local Storage');
+    return rbm;
+  } catch (e) {
+    console.error('❌ Ошибка загрузки весов:', e);
+    return null;
+  }
+}
@@ -1,11 +1,356 @@
-export type TrainingMethod = 'contrastive-divergence' | 'equilibrium';
+export type TrainingMethod = 'contrastive-divergence' | 'persistent-cd' | 'parallel-tempering' | 'equilibrium';
 
-export interface RBMParams {
+/**
+ * Состояния слоя на полушаге цепи Гиббса:
+ * 'sampled' — бинарные сэмплы, 'mean-field' — вероятности активации
+ */
+export type SamplingMode = 'sampled' | 'mean-field';
+
+export interface CDSettings {
+  cdSteps: number;
+  hiddenSampling: SamplingMode;
+  visibleSampling: SamplingMode;
+}
+
+export interface PTSettings {
+  ptReplicas: number;
+  ptMaxTemperature: number;
+  ptChains: number;
+}
+
+/**
+ * Форма расписания отжига: линейная, геометрическая или ступенчатая (как в 1985 году)
+ */
+export type AnnealingSchedule = 'linear' | 'geometric' | 'stepwise';
+
+export interface AnnealingSettings {
+  annealStartTemperature: number;
+  annealEndTemperature: number;
+  annealSchedule: AnnealingSchedule;
+}
+
+/**
+ * Трасса имитации отжига одного батча: энергия системы на каждой записанной температуре
+ */
+export interface AnnealingTrace {
+  temperatures: number[];
+  energies: number[];
+}
+
+/**
+ * Оптимизатор, общий для всех методов обучения
+ */
+export type OptimizerType = 'sgd' | 'momentum' | 'nesterov' | 'rmsprop' | 'adam';
+
+export interface OptimizerSettings {
+  optimizer: OptimizerType;
+  momentum: number;
+  momentumRamp: boolean;
+}
+
+/**
+ * Сериализованное состояние оптимизатора: номер шага, эпохи и буферы моментов
+ * (скорости для momentum/nesterov, первый и второй моменты для RMSProp/Adam)
+ */
+export interface OptimizerState {
+  step: number;
+  epoch: number;
+  firstMoments: number[][];
+  secondMoments: number[][];
+}
+
+/**
+ * Регуляризация: L1/L2-затухание весов и целевая разреженность скрытого слоя
+ */
+export interface RegularizationSettings {
+  weightDecayL1: number;
+  weightDecayL2: number;
+  sparsityTarget: number;
+  sparsityDecay: number;
+  sparsityCost: number;
+}
+
+/**
+ * Тип видимых нейронов: бинарные (бернуллиевские) или гауссовские
+ * для вещественных значений пикселей
+ */
+export type VisibleUnits = 'binary' | 'gaussian';
+
+/**
+ * Видимый слой модели. Для гауссовских нейронов дисперсии либо обучаются
+ * (по одной на пиксель), либо остаются равными visibleVariance
+ */
+export interface VisibleUnitsSettings {
+  visibleUnits: VisibleUnits;
+  learnVariance: boolean;
+  visibleVariance: number;
+}
+
+/**
+ * Метки классов как часть видимого слоя (классификационная RBM):
+ * nClasses = 0 — обычная модель без меток; discriminativeWeight — вес
+ * дискриминативного члена log p(y | x) в гибридном градиенте
+ */
+export interface ClassificationSettings {
+  nClasses: number;
+  discriminativeWeight: number;
+}
+
+export interface RBMParams
+  extends Partial<VisibleUnitsSettings>,
+    Partial<ClassificationSettings>,
+    Partial<CDSettings>,
+    Partial<PTSettings>,
+    Partial<AnnealingSettings>,
+    Partial<OptimizerSettings>,
+    Partial<RegularizationSettings> {
   nVisible: number;
   nHidden: number;
   learningRate: number;
   batchSize: number;
   trainingMethod?: TrainingMethod;
+  seed?: number;
+}
+
+/**
+ * Размер сети и шаг обучения, задаваемые пользователем;
+ * learningRate null — скорость по умолчанию для выбранного оптимизатора
+ */
+export interface NetworkSettings {
+  nHidden: number;
+  learningRate: number | null;
+  batchSize: number;
+}
+
+/**
+ * Настройки глубокой сети доверия (DBN): размеры слоёв от пикселей к верхнему слою
+ */
+export interface DBNSettings {
+  enabled: boolean;
+  layerSizes: number[];
+}
+
+/**
+ * Параметры DBN: размеры слоёв и общие для всех RBM стека параметры обучения
+ * (слои — бинарные RBM без меток)
+ */
+export interface DBNParams extends Omit<RBMParams, 'nVisible' | 'nHidden' | 'visibleUnits' | 'nClasses'> {
+  layerSizes: number[];
+}
+
+/**
+ * Настройки свёрточной RBM: K общих фильтров filterSize × filterSize,
+ * блоки вероятностного max-pooling poolSize × poolSize (1 — без пулинга)
+ */
+export interface ConvolutionalSettings {
+  enabled: boolean;
+  nFilters: number;
+  filterSize: number;
+  poolSize: number;
+}
+
+/**
+ * Параметры свёрточной RBM
+ */
+export interface ConvolutionalRBMParams extends Partial<Omit<ConvolutionalSettings, 'enabled'>> {
+  imageSize: number;
+  learningRate?: number;
+  batchSize?: number;
+  sparsityTarget?: number;
+  sparsityCost?: number;
+  seed?: number;
+}
+
+/**
+ * Карты признаков свёрточной RBM для одного изображения: p(h = 1 | v) по позициям
+ * для каждого фильтра и (при пулинге) вероятности включения pooling-нейронов
+ */
+export interface FeatureMaps {
+  size: number;
+  maps: Float32Array[];
+  pooledSize: number;
+  pooled: Float32Array[] | null;
+}
+
+/**
+ * Латеральные связи внутри слоя полной машины Больцмана: нет, только соседи
+ * по квадратной решётке (для пикселей) или все пары нейронов слоя
+ */
+export type LateralConnectivity = 'none' | 'grid' | 'full';
+
+/**
+ * Порядок обновлений Гиббса: по одному нейрону в случайном порядке или
+ * «шахматный» — группами несвязанных между собой нейронов
+ */
+export type GibbsUpdateOrder = 'sequential' | 'checkerboard';
+
+/**
+ * Параметры полной (неограниченной) машины Больцмана
+ */
+export interface BoltzmannMachineParams extends Partial<AnnealingSettings> {
+  nVisible: number;
+  nHidden: number;
+  learningRate: number;
+  visibleLateral?: LateralConnectivity;
+  hiddenLateral?: LateralConnectivity;
+  updateOrder?: GibbsUpdateOrder;
+  burnInSweeps?: number;
+  sampleSweeps?: number;
+  freeChains?: number;
+  seed?: number;
+}
+
+/**
+ * Модель в виде, пригодном для JSON (Local Storage, продолжение обучения)
+ */
+export interface SerializedRBM extends RBMParams {
+  weights: number[][];
+  hiddenBias: number[];
+  visibleBias: number[];
+  logVariance?: number[];
+  optimizerState?: OptimizerState;
+  randomState?: number;
+  timestamp: number;
+}
+
+/**
+ * Модель в виде, пригодном для передачи между потоками:
+ * буферы Float32Array передаются через postMessage без копирования (transfer)
+ */
+export interface TransferableRBM {
+  params: RBMParams;
+  weights: Float32Array;
+  hiddenBias: Float32Array;
+  visibleBias: Float32Array;
+  logVariance?: Float32Array;
+  optimizerState: OptimizerState;
+  randomState: number;
+}
+
+/**
+ * Сообщения основного потока обучающему воркеру.
+ * В 'start' обучающие образцы упакованы в одну матрицу nSamples × nVisible
+ */
+export type TrainerRequest =
+  | {
+    type: 'start';
+    model: TransferableRBM;
+    data: Float32Array;
+    nSamples: number;
+    validation: Float32Array;
+    nValidation: number;
+    epochs: number;
+    snapshotInterval: number;
+    resampleBinarized: boolean;
+  }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'cancel' };
+
+/**
+ * Сообщения обучающего воркера основному потоку.
+ * 'ready' приходит сразу после загрузки скрипта воркера, до 'start'.
+ * После 'cancel' воркер возвращает частично обученную модель в 'cancelled'
+ */
+export type TrainerResponse =
+  | { type: 'ready' }
+  | { type: 'progress'; epoch: number; totalEpochs: number; stats?: EpochStats }
+  | { type: 'snapshot'; snapshot: WeightsSnapshot }
+  | { type: 'paused' }
+  | { type: 'resumed' }
+  | { type: 'done'; model: TransferableRBM }
+  | { type: 'cancelled'; model: TransferableRBM }
+  | { type: 'error'; message: string };
+
+/**
+ * Приближённые оценки градиента, которые можно сравнить с точным (см. ExactInference)
+ */
+export type GradientEstimator = 'contrastive-divergence' | 'equilibrium';
+
+/**
+ * Градиент логарифма правдоподобия по параметрам RBM (направление подъёма);
+ * weights в той же раскладке [скрытые][видимые], что и веса модели
+ */
+export interface RBMGradient {
+  weights: Float32Array;
+  hiddenBias: Float32Array;
+  visibleBias: Float32Array;
+}
+
+/**
+ * Отклонение приближённого градиента от точного по trials независимым оценкам:
+ * bias — ‖среднее оценок − точный‖ / ‖точный‖ (систематическая ошибка, с остатком шума ~1/√trials),
+ * noise — средняя ‖оценка − среднее оценок‖ / ‖точный‖, cosine — косинус угла
+ * между средней оценкой и точным градиентом
+ */
+export interface GradientBias {
+  method: GradientEstimator;
+  bias: number;
+  noise: number;
+  cosine: number;
+  trials: number;
+}
+
+/**
+ * Метрики качества модели на (части) обучающего набора:
+ * MSE и перекрёстная энтропия реконструкции, средняя свободная энергия данных
+ * и псевдо-логарифм правдоподобия (на образец; только для бинарных видимых нейронов).
+ * validationFreeEnergy — средняя свободная энергия отложенных данных: растущий разрыв
+ * с freeEnergy означает переобучение. classificationError — доля неверно
+ * классифицированных образцов (только для классификационной RBM)
+ */
+export interface EpochMetrics {
+  reconstructionError: number;
+  reconstructionCrossEntropy: number;
+  freeEnergy: number;
+  pseudoLogLikelihood?: number;
+  validationFreeEnergy?: number;
+  classificationError?: number;
+}
+
+/**
+ * Состояние параметров модели после эпохи: нормы весов и смещений
+ * и средняя активация скрытых нейронов на данных
+ */
+export interface ModelDiagnostics {
+  weightNorm: number;
+  hiddenBiasNorm: number;
+  visibleBiasNorm: number;
+  meanHiddenActivation: number;
+}
+
+/**
+ * Копия весов модели посреди обучения (для живого просмотра фильтров)
+ */
+export interface WeightsSnapshot {
+  epoch: number;
+  batch: number;
+  nHidden: number;
+  nVisible: number;
+  weights: Float32Array;
+}
+
+/**
+ * Наблюдение за обучением в fit(): отложенные данные для метрик эпохи,
+ * снимки весов каждые snapshotInterval батчей; resampleBinarized — образцы
+ * содержат вероятности пикселей, и бинарный вход сэмплируется в каждой эпохе
+ */
+export interface TrainingMonitor {
+  validationData?: Float32Array[];
+  snapshotInterval?: number;
+  onSnapshot?: (snapshot: WeightsSnapshot) => void;
+  resampleBinarized?: boolean;
+}
+
+/**
+ * Дополнительная статистика, которую fit() сообщает после каждой эпохи
+ */
+export interface EpochStats {
+  metrics?: EpochMetrics;
+  diagnostics?: ModelDiagnostics;
+  temperatures?: number[];
+  swapAcceptanceRates?: number[];
+  annealingTrace?: AnnealingTrace;
 }
 
 export interface TrainingProgress {
@@ -13,6 +358,10 @@ export interface TrainingProgress {
   totalEpochs: number;
   progress: number;
   status: string;
+  stats?: EpochStats;
+  metrics?: EpochMetrics;
+  history?: EpochStats[];
+  snapshot?: WeightsSnapshot;
 }
 
 export interface ReconstructionResult {
@@ -26,7 +375,7 @@ export interface ErrorMetrics {
   pixelsDiff: string;
 }
 
-export type ViewMode = 'sample' | 'filters';
+export type ViewMode = 'sample' | 'filters' | 'classification';
 
 export interface TermDefinition {
   term: string;
@@ -38,4 +387,230 @@ export interface MNISTSample {
   pixels: number[];
 }
 
-export type DataSource = 'generated' | 'mnist';
\ No newline at end of file
+export type DataSource = 'generated' | 'mnist' | 'idx' | 'custom';
+
+/**
+ * Наборы в бинарном формате IDX (как у оригинального MNIST)
+ */
+export type IDXDatasetKind = 'mnist' | 'fashion-mnist' | 'emnist-letters';
+
+/**
+ * Файлы набора IDX: изображения (idx3) и метки (idx1) обучающей и тестовой частей
+ */
+export interface IDXFiles {
+  trainImages: string;
+  trainLabels: string;
+  testImages: string;
+  testLabels: string;
+}
+
+/**
+ * Описание набора IDX: каталог в public/data, имена файлов, названия классов.
+ * transpose — изображения записаны по столбцам (EMNIST), labelOffset — метка
+ * первого класса в файле (у букв EMNIST метки начинаются с 1)
+ */
+export interface IDXFormat {
+  name: string;
+  directory: string;
+  files: IDXFiles;
+  classNames: string[];
+  transpose: boolean;
+  labelOffset: number;
+}
+
+/**
+ * Какой набор IDX загрузить и сколько образцов взять из обучающей и тестовой частей
+ */
+export interface IDXLoadOptions {
+  kind: IDXDatasetKind;
+  trainLimit: number;
+  testLimit: number;
+}
+
+/**
+ * Содержимое файла IDX: размерности и байты данных (тип unsigned byte)
+ */
+export interface IDXTensor {
+  dims: number[];
+  data: Uint8Array;
+}
+
+/**
+ * Прогресс загрузки данных: доля в [0, 1] и описание текущего шага
+ */
+export interface LoadProgress {
+  fraction: number;
+  status: string;
+}
+
+/**
+ * Файл изображения для импорта: путь внутри папки или архива и содержимое.
+ * Папка, в которой лежит файл, задаёт его класс
+ */
+export interface ImageEntry {
+  path: string;
+  blob: Blob;
+}
+
+/**
+ * Обработка значений пикселей после геометрических шагов предобработки:
+ * raw — как есть, binarize — порог, stochastic-binarize — бинарный образец
+ * с вероятностью пикселя (заново в каждой эпохе), standardize — вычитание
+ * среднего и деление на стандартное отклонение каждого пикселя
+ */
+export type PixelTransform = 'raw' | 'binarize' | 'stochastic-binarize' | 'standardize';
+
+/**
+ * Настройки конвейера предобработки: центрирование по центру масс,
+ * выпрямление наклона и обработка значений пикселей (порог — для binarize)
+ */
+export interface PreprocessingSettings {
+  center: boolean;
+  deskew: boolean;
+  pixelTransform: PixelTransform;
+  threshold: number;
+}
+
+/**
+ * Конвейер предобработки с параметрами, найденными на обучающих данных
+ * (средние и отклонения пикселей для standardize)
+ */
+export interface SerializedPreprocessing {
+  settings: PreprocessingSettings;
+  mean: number[] | null;
+  std: number[] | null;
+}
+
+/**
+ * Изображение после одного шага предобработки (для превью «до и после»)
+ */
+export interface PreprocessingStage {
+  label: string;
+  image: Float32Array;
+}
+
+/**
+ * Настройки генератора синтетических цифр. Искажения задаются размахом:
+ * для каждого образца поворот (градусы), масштаб (доля) и наклон берутся
+ * равномерно из [−значение, значение]; strokeWidth — средняя толщина штриха
+ * в пикселях, elastic — наибольшее смещение упругой деформации в пикселях,
+ * noise — размах равномерного шума пикселей; classCounts[d] — сколько образцов цифры d
+ */
+export interface GeneratorSettings {
+  rotation: number;
+  scale: number;
+  shear: number;
+  strokeWidth: number;
+  elastic: number;
+  noise: number;
+  classCounts: number[];
+}
+
+/**
+ * Изображения вместе с метками цифр (labels[i] — цифра изображения images[i])
+ */
+export interface LabeledData {
+  images: Float32Array[];
+  labels: number[];
+}
+
+/**
+ * Разделы набора данных: обучение, валидация (метрики по эпохам) и тест (итоговая оценка)
+ */
+export type DatasetSplit = 'train' | 'validation' | 'test';
+
+/**
+ * Форма изображений набора
+ */
+export interface ImageShape {
+  width: number;
+  height: number;
+}
+
+/**
+ * Происхождение набора данных: источник, описание для интерфейса
+ * и названия классов (classNames[метка])
+ */
+export interface DatasetSource {
+  kind: DataSource;
+  description: string;
+  classNames: string[];
+}
+
+/**
+ * Размеченный набор данных: изображения с метками, их форма, происхождение
+ * и именованные разделы (индексы образцов каждого раздела)
+ */
+export interface Dataset extends LabeledData {
+  shape: ImageShape;
+  source: DatasetSource;
+  splits: Record<DatasetSplit, number[]>;
+}
+
+/**
+ * Качество классификации на наборе: доля верных ответов и матрица ошибок,
+ * confusionMatrix[истинный класс][предсказанный класс] — количество образцов
+ */
+export interface ClassificationEvaluation {
+  accuracy: number;
+  confusionMatrix: number[][];
+  nSamples: number;
+}
+
+/**
+ * Манифест запуска обучения: всё, что нужно, чтобы повторить запуск бит в бит.
+ * seed запуска задаёт генератор данных, а для новой модели — и её генератор.
+ * При продолжении обучения исходная модель (вместе с состоянием её генератора)
+ * сохраняется в initialModel. Настройки генератора записываются для сгенерированных данных
+ */
+export interface RunManifest {
+  version: 1;
+  seed: number;
+  params: RBMParams;
+  trainingMethod: TrainingMethod;
+  epochs: number;
+  dataSource: DataSource;
+  selectedDigit: number;
+  nSamples: number;
+  datasetHash: string;
+  initialModel?: SerializedRBM;
+  preprocessing?: PreprocessingSettings;
+  generator?: GeneratorSettings;
+  weightsHash?: string;
+  stopped?: boolean;
+  createdAt: string;
+}
+
+/**
+ * Настройки оценки статистической суммы методом AIS:
+ * число независимых прогонов и число обратных температур в расписании
+ */
+export interface AISSettings {
+  aisRuns: number;
+  aisBetas: number;
+}
+
+/**
+ * Оценка log Z методом AIS. logZLow/logZHigh — log(среднее весов ∓ 3 стандартные ошибки);
+ * logZLow = −Infinity, если нижняя граница среднего весов не положительна
+ */
+export interface PartitionEstimate {
+  logZ: number;
+  logZLow: number;
+  logZHigh: number;
+  logZBase: number;
+  nRuns: number;
+  nBetas: number;
+}
+
+/**
+ * Средний логарифм правдоподобия образцов (нат на образец) с границами,
+ * полученными из границ log Z
+ */
+export interface LogLikelihoodEstimate {
+  logLikelihood: number;
+  logLikelihoodLow: number;
+  logLikelihoodHigh: number;
+  nSamples: number;
+  partition: PartitionEstimate;
+}
@@ -88,4 +88,198 @@ export function drawImageColored(
   }
   
   ctx.putImageData(imageData, 0, 0);
-}
\ No newline at end of file
+}
+export interface ChartSeries {
+  values: number[];
+  color: string;
+  label?: string;
+}
+
+export interface LineChartOptions {
+  xValues?: number[];
+  xLabel?: string;
+  yLabel?: string;
+  logX?: boolean;
+}
+
+export function drawLineChart(
+  canvas: HTMLCanvasElement,
+  series: ChartSeries[],
+  { xValues, xLabel, yLabel, logX = false }: LineChartOptions = {}
+): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const padding = { left: 48, right: 12, top: 12, bottom: 28 };
+  const plotWidth = canvas.width - padding.left - padding.right;
+  const plotHeight = canvas.height - padding.top - padding.bottom;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  const length = Math.max(0, ...series.map(s => s.values.length));
+  if (length === 0) return;
+
+  const toX = (i: number) => {
+    const x = xValues ? xValues[i] : i;
+    return logX ? Math.log(x) : x;
+  };
+  const xs = Array.from({ length }, (_, i) => toX(i));
+  const allY = series.flatMap(s => s.values).filter(Number.isFinite);
+  if (allY.length === 0) return;
+
+  const xMin = Math.min(...xs);
+  const xMax = Math.max(...xs);
+  let yMin = Math.min(...allY);
+  let yMax = Math.max(...allY);
+  if (yMax - yMin < 1e-12) {
+    yMin -= 1;
+    yMax += 1;
+  }
+  const xRange = xMax - xMin || 1;
+  const yRange = yMax - yMin;
+
+  const px = (x: number) => padding.left + ((x - xMin) / xRange) * plotWidth;
+  const py = (y: number) => padding.top + (1 - (y - yMin) / yRange) * plotHeight;
+
+  // Оси
+  ctx.strokeStyle = '#cbd5e1';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(padding.left, padding.top);
+  ctx.lineTo(padding.left, padding.top + plotHeight);
+  ctx.lineTo(padding.left + plotWidth, padding.top + plotHeight);
+  ctx.stroke();
+
+  // Подписи диапазонов
+  ctx.fillStyle = '#64748b';
+  ctx.font = '10px sans-serif';
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(formatTick(yMax), padding.left - 4, padding.top);
+  ctx.fillText(formatTick(yMin), padding.left - 4, padding.top + plotHeight);
+
+  const xStart = xValues ? xValues[xs.indexOf(xMin)] : xMin;
+  const xEnd = xValues ? xValues[xs.indexOf(xMax)] : xMax;
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+  ctx.fillText(formatTick(xStart), padding.left, padding.top + plotHeight + 4);
+  ctx.textAlign = 'right';
+  ctx.fillText(formatTick(xEnd), padding.left + plotWidth, padding.top + plotHeight + 4);
+
+  if (xLabel) {
+    ctx.textAlign = 'center';
+    ctx.fillText(xLabel, padding.left + plotWidth / 2, padding.top + plotHeight + 14);
+  }
+  if (yLabel) {
+    ctx.save();
+    ctx.translate(10, padding.top + plotHeight / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(yLabel, 0, 0);
+    ctx.restore();
+  }
+
+  // Линии серий; при малом числе точек (короткие запуски, например сэмплирование
+  // из равновесия) точки отмечаются маркерами, чтобы одна эпоха тоже была видна
+  const showMarkers = length <= 30;
+  for (const s of series) {
+    ctx.strokeStyle = s.color;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    let started = false;
+    s.values.forEach((value, i) => {
+      if (!Number.isFinite(value)) return;
+      const x = px(xs[i]);
+      const y = py(value);
+      if (started) {
+        ctx.lineTo(x, y);
+      } else {
+        ctx.moveTo(x, y);
+        started = true;
+      }
+    });
+    ctx.stroke();
+
+    if (showMarkers) {
+      ctx.fillStyle = s.color;
+      s.values.forEach((value, i) => {
+        if (!Number.isFinite(value)) return;
+        ctx.beginPath();
+        ctx.arc(px(xs[i]), py(value), 2.5, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+  }
+
+  // Легенда для подписанных серий
+  ctx.font = '10px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  let legendX = padding.left + 8;
+  for (const { label, color } of series) {
+    if (!label) continue;
+    ctx.fillStyle = color;
+    ctx.fillRect(legendX, padding.top + 4, 10, 3);
+    ctx.fillStyle = '#475569';
+    ctx.fillText(label, legendX + 14, padding.top + 6);
+    legendX += 24 + ctx.measureText(label).width;
+  }
+}
+
+/**
+ * Линейно переводит значения в диапазон [0, 1] для отображения в оттенках серого
+ * @param values - исходные значения (например, веса фильтра)
+ * @returns новый массив; если все значения почти равны — заполненный 0.5
+ */
+export function normalizeToUnitRange(values: Float32Array): Float32Array {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    min = Math.min(min, values[i]);
+    max = Math.max(max, values[i]);
+  }
+
+  const range = max - min;
+  const normalized = new Float32Array(values.length);
+  if (range > 1e-8) {
+    for (let i = 0; i < values.length; i++) {
+      normalized[i] = (values[i] - min) / range;
+    }
+  } else {
+    normalized.fill(0.5);
+  }
+  return normalized;
+}
+
+/**
+ * Раскладывает count ячеек в почти квадратную сетку: столбцов ⌈√count⌉,
+ * строк — сколько нужно (500 нейронов → 23 × 22, а не 23 × 23)
+ * @param count - количество ячеек
+ * @returns количество столбцов и строк
+ */
+export function gridShape(count: number): { cols: number; rows: number } {
+  const cols = Math.max(1, Math.ceil(Math.sqrt(count)));
+  return { cols, rows: Math.max(1, Math.ceil(count / cols)) };
+}
+
+/**
+ * Дополняет значения до полной сетки cols × rows (пустые ячейки — fill)
+ * @param values - значения ячеек построчно
+ * @param cols - столбцов сетки
+ * @param rows - строк сетки
+ * @param fill - значение пустых ячеек (по умолчанию 0)
+ * @returns values, если сетка заполнена, иначе новый дополненный массив
+ */
+export function padToGrid(values: Float32Array, cols: number, rows: number, fill: number = 0): Float32Array {
+  if (values.length >= cols * rows) return values;
+  const padded = new Float32Array(cols * rows).fill(fill);
+  padded.set(values);
+  return padded;
+}
+
+function formatTick(value: number): string {
+  const abs = Math.abs(value);
+  if (abs !== 0 && (abs >= 1e4 || abs < 1e-2)) return value.toExponential(1);
+  return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+}
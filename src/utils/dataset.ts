@@ -0,0 +1,100 @@
+import type { Dataset, DatasetSource, DatasetSplit, ImageShape, LabeledData } from '../types';
+import { HELD_OUT_FRACTION } from '../constants';
+
+/**
+ * Собирает набор данных и делит его на разделы по порядку образцов: первые
+ * (1 − HELD_OUT_FRACTION) — обучение, остальные поровну — валидация и тест.
+ * Загрузчики перемешивают образцы заранее, поэтому разделы не зависят от класса.
+ * Если у набора есть собственная тестовая часть (последние nTest образцов),
+ * тестом становится она, а валидация — половина отложенной доли из остальных
+ * @param data - изображения и метки
+ * @param shape - форма изображений
+ * @param source - происхождение набора
+ * @param nTest - размер собственной тестовой части в конце набора (0 — нет)
+ * @returns набор с разделами train / validation / test
+ */
+export function createDataset(data: LabeledData, shape: ImageShape, source: DatasetSource, nTest: number = 0): Dataset {
+  const n = data.images.length;
+  const range = (from: number, to: number) => Array.from({ length: Math.max(0, to - from) }, (_, i) => from + i);
+
+  let nTrain: number;
+  let nValidation: number;
+  if (nTest > 0) {
+    const nRest = n - nTest;
+    nValidation = nRest < 2 ? 0 : Math.max(1, Math.round(nRest * HELD_OUT_FRACTION / 2));
+    nTrain = nRest - nValidation;
+  } else {
+    // Не меньше одного образца в валидации и в тесте, если образцов хватает
+    const nHeldOut = n < 3 ? 0 : Math.max(2, Math.round(n * HELD_OUT_FRACTION));
+    nTrain = n - nHeldOut;
+    nValidation = Math.ceil(nHeldOut / 2);
+  }
+
+  return {
+    images: data.images,
+    labels: data.labels,
+    shape,
+    source,
+    splits: {
+      train: range(0, nTrain),
+      validation: range(nTrain, nTrain + nValidation),
+      test: range(nTrain + nValidation, n)
+    }
+  };
+}
+
+/**
+ * Проверяет, передан ли набор данных с разделами, а не просто массив образцов
+ * @param data - массив образцов или набор данных
+ * @returns true для набора данных
+ */
+export function isDataset(data: Float32Array[] | Dataset): data is Dataset {
+  return !Array.isArray(data);
+}
+
+/**
+ * Образцы и метки раздела набора
+ * @param dataset - набор данных
+ * @param split - имя раздела
+ * @returns изображения и метки раздела в порядке набора
+ */
+export function getSplit(dataset: Dataset, split: DatasetSplit): LabeledData {
+  const indices = dataset.splits[split];
+  return {
+    images: indices.map(i => dataset.images[i]),
+    labels: indices.map(i => dataset.labels[i])
+  };
+}
+
+/**
+ * Новый набор из образцов с заданной меткой (с новыми разделами)
+ * @param dataset - исходный набор
+ * @param label - метка (цифра)
+ * @param limit - максимальное количество образцов
+ * @returns набор из первых limit образцов класса label
+ */
+export function filterByLabel(dataset: Dataset, label: number, limit: number = Infinity): Dataset {
+  const indices = dataset.labels
+    .map((l, i) => l === label ? i : -1)
+    .filter(i => i >= 0)
+    .slice(0, limit);
+  return createDataset(
+    { images: indices.map(i => dataset.images[i]), labels: indices.map(() => label) },
+    dataset.shape,
+    { ...dataset.source, description: `${dataset.source.description}, цифра ${label}` }
+  );
+}
+
+/**
+ * Количество образцов каждого класса
+ * @param labels - метки образцов
+ * @param nClasses - количество классов
+ * @returns массив длины nClasses
+ */
+export function classCounts(labels: number[], nClasses: number): number[] {
+  const counts = new Array(nClasses).fill(0);
+  for (const label of labels) {
+    if (label >= 0 && label < nClasses) counts[label]++;
+  }
+  return counts;
+}
@@ -0,0 +1,78 @@
+import type { Dataset } from '../types';
+
+// База IndexedDB для наборов данных: изображения не помещаются в Local Storage
+const DB_NAME = 'rbm-datasets';
+const DB_VERSION = 1;
+const STORE_NAME = 'datasets';
+
+/**
+ * Превращает запрос IndexedDB в промис
+ * @param request - запрос
+ * @returns результат запроса
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Открывает базу наборов данных, создавая хранилище при первом запуске
+ * @returns открытая база
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME);
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * Выполняет операцию над хранилищем наборов в отдельной транзакции
+ * @param mode - режим транзакции
+ * @param operation - операция над хранилищем
+ * @returns результат операции
+ */
+async function withStore<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await requestToPromise(operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Сохраняет набор данных в IndexedDB (Float32Array сохраняются как есть)
+ * @param key - ключ набора
+ * @param dataset - набор данных
+ */
+export async function saveCachedDataset(key: string, dataset: Dataset): Promise<void> {
+  await withStore('readwrite', store => store.put(dataset, key));
+  console.log(`💾 Набор «${dataset.source.description}» сохранён в IndexedDB`);
+}
+
+/**
+ * Загружает сохранённый набор данных
+ * @param key - ключ набора
+ * @returns набор или null, если его нет или IndexedDB недоступна
+ */
+export async function loadCachedDataset(key: string): Promise<Dataset | null> {
+  try {
+    const dataset = await withStore<Dataset | undefined>('readonly', store => store.get(key));
+    return dataset ?? null;
+  } catch (e) {
+    console.error('❌ Ошибка чтения набора из IndexedDB:', e);
+    return null;
+  }
+}
+
+/**
+ * Удаляет сохранённый набор данных
+ * @param key - ключ набора
+ */
+export async function deleteCachedDataset(key: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(key));
+}
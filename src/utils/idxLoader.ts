@@ -0,0 +1,225 @@
+import type { Dataset, IDXFiles, IDXFormat, IDXLoadOptions, IDXTensor, LabeledData, LoadProgress } from '../types';
+import { createDataset } from './dataset';
+import { IDX_DATASETS, MNIST_SHAPE } from '../constants';
+
+// Код типа данных unsigned byte в заголовке IDX (единственный, что используют MNIST-подобные наборы)
+const IDX_UNSIGNED_BYTE = 0x08;
+
+// Первые байты gzip-архива
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+/**
+ * Разбирает файл IDX: магическое число (0, 0, тип, число размерностей),
+ * размерности — 32-битные целые big-endian, затем данные
+ * @param bytes - содержимое файла (уже распакованное)
+ * @returns размерности и байты данных
+ */
+export function parseIDX(bytes: Uint8Array): IDXTensor {
+  if (bytes.length < 4 || bytes[0] !== 0 || bytes[1] !== 0) {
+    throw new Error('Файл не в формате IDX');
+  }
+  if (bytes[2] !== IDX_UNSIGNED_BYTE) {
+    throw new Error(`Неподдерживаемый тип данных IDX: 0x${bytes[2].toString(16)}`);
+  }
+
+  const nDims = bytes[3];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const dims: number[] = [];
+  for (let d = 0; d < nDims; d++) {
+    dims.push(view.getUint32(4 + d * 4, false));
+  }
+
+  const offset = 4 + nDims * 4;
+  const size = dims.reduce((product, dim) => product * dim, 1);
+  if (bytes.length < offset + size) {
+    throw new Error('Файл IDX обрезан');
+  }
+
+  return { dims, data: bytes.subarray(offset, offset + size) };
+}
+
+/**
+ * Распаковывает gzip средствами браузера (DecompressionStream), если файл сжат
+ * @param bytes - содержимое файла
+ * @returns распакованные байты (или исходные, если файл не сжат)
+ */
+export async function gunzipIfCompressed(bytes: Uint8Array): Promise<Uint8Array> {
+  if (bytes[0] !== GZIP_MAGIC[0] || bytes[1] !== GZIP_MAGIC[1]) {
+    return bytes;
+  }
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Читает поток целиком, сообщая долю прочитанного
+ * @param stream - поток байтов
+ * @param total - ожидаемый размер (0 — неизвестен)
+ * @param onProgress - колбэк с долей в [0, 1]
+ * @returns прочитанные байты
+ */
+async function readStream(
+  stream: ReadableStream<Uint8Array>,
+  total: number,
+  onProgress: (fraction: number) => void
+): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    if (total > 0) {
+      onProgress(Math.min(1, loaded / total));
+    }
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let position = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, position);
+    position += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Загружает файл IDX из public/data или с диска пользователя
+ * @param source - адрес файла или выбранный файл
+ * @param onProgress - колбэк с долей прочитанного
+ * @returns разобранный файл
+ */
+async function readIDX(source: string | File, onProgress: (fraction: number) => void): Promise<IDXTensor> {
+  let bytes: Uint8Array;
+  if (typeof source === 'string') {
+    const response = await fetch(source);
+    if (!response.ok || !response.body) {
+      throw new Error(`Не удалось загрузить ${source}`);
+    }
+    bytes = await readStream(response.body, Number(response.headers.get('Content-Length') ?? 0), onProgress);
+  } else {
+    bytes = await readStream(source.stream(), source.size, onProgress);
+  }
+  return parseIDX(await gunzipIfCompressed(bytes));
+}
+
+/**
+ * Сопоставляет выбранные пользователем файлы частям набора по именам:
+ * «labels» / «idx1» — метки, «t10k» / «test» — тестовая часть
+ * @param files - выбранные файлы
+ * @returns найденные файлы частей набора
+ */
+export function matchIDXFiles(files: File[]): Partial<Record<keyof IDXFiles, File>> {
+  const matched: Partial<Record<keyof IDXFiles, File>> = {};
+  for (const file of files) {
+    const name = file.name.toLowerCase();
+    const isLabels = name.includes('labels') || name.includes('idx1');
+    const isTest = name.includes('t10k') || name.includes('test');
+    const key: keyof IDXFiles = isTest
+      ? (isLabels ? 'testLabels' : 'testImages')
+      : (isLabels ? 'trainLabels' : 'trainImages');
+    matched[key] = file;
+  }
+  return matched;
+}
+
+/**
+ * Превращает пару файлов изображений и меток в образцы с пикселями в [0, 1]
+ * @param images - файл изображений (n × rows × cols)
+ * @param labels - файл меток (n)
+ * @param format - описание набора (транспонирование и сдвиг меток)
+ * @param limit - сколько первых образцов взять
+ * @returns изображения и метки
+ */
+function toLabeledData(images: IDXTensor, labels: IDXTensor, format: IDXFormat, limit: number): LabeledData {
+  if (images.dims.length !== 3 || labels.dims.length !== 1) {
+    throw new Error('Ожидаются файл изображений idx3 и файл меток idx1');
+  }
+  const [count, rows, cols] = images.dims;
+  if (labels.dims[0] !== count) {
+    throw new Error(`Число изображений (${count}) и меток (${labels.dims[0]}) не совпадает`);
+  }
+  // Модели и визуализации приложения рассчитаны на изображения 28 × 28
+  if (rows !== MNIST_SHAPE.height || cols !== MNIST_SHAPE.width) {
+    throw new Error(`Поддерживаются изображения ${MNIST_SHAPE.width}×${MNIST_SHAPE.height}, а в файле ${cols}×${rows}`);
+  }
+
+  const n = Math.min(count, limit);
+  const size = rows * cols;
+  const result: LabeledData = { images: [], labels: [] };
+  for (let i = 0; i < n; i++) {
+    const pixels = images.data.subarray(i * size, (i + 1) * size);
+    const image = new Float32Array(size);
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        // EMNIST хранит изображения по столбцам
+        image[r * cols + c] = pixels[format.transpose ? c * rows + r : r * cols + c] / 255;
+      }
+    }
+    result.images.push(image);
+    result.labels.push(labels.data[i] - format.labelOffset);
+  }
+  return result;
+}
+
+/**
+ * Загружает набор IDX (MNIST, Fashion-MNIST, EMNIST Letters) целиком или подмножеством.
+ * Файлы берутся из public/data/<каталог набора> либо из выбранных пользователем;
+ * тестовая часть необязательна — без неё тест откладывается из обучающей
+ * @param options - набор и размеры подмножеств обучающей и тестовой частей
+ * @param onProgress - колбэк прогресса загрузки
+ * @param files - выбранные пользователем файлы (если не заданы — загрузка из public/data)
+ * @returns набор данных; тестовый раздел — тестовая часть набора
+ */
+export async function loadIDXDataset(
+  options: IDXLoadOptions,
+  onProgress: (progress: LoadProgress) => void,
+  files?: File[]
+): Promise<Dataset> {
+  const format = IDX_DATASETS[options.kind];
+  const sources: Partial<Record<keyof IDXFiles, string | File>> = files
+    ? matchIDXFiles(files)
+    : Object.fromEntries(
+      (Object.keys(format.files) as (keyof IDXFiles)[]).map(key => [key, `/data/${format.directory}/${format.files[key]}`])
+    );
+
+  if (!sources.trainImages || !sources.trainLabels) {
+    throw new Error('Нужны файлы обучающих изображений и меток');
+  }
+  const withTest = options.testLimit > 0 && (files ? !!sources.testImages && !!sources.testLabels : true);
+  const keys: (keyof IDXFiles)[] = withTest
+    ? ['trainImages', 'trainLabels', 'testImages', 'testLabels']
+    : ['trainImages', 'trainLabels'];
+
+  // Общий прогресс — доля прочитанного по всем файлам
+  const tensors: Partial<Record<keyof IDXFiles, IDXTensor>> = {};
+  for (let k = 0; k < keys.length; k++) {
+    const source = sources[keys[k]]!;
+    const name = typeof source === 'string' ? source.split('/').pop() : source.name;
+    console.log(`📥 Загружаем ${name}`);
+    tensors[keys[k]] = await readIDX(source, fraction => {
+      onProgress({ fraction: (k + fraction) / keys.length, status: `Загрузка ${name}` });
+    });
+  }
+
+  onProgress({ fraction: 1, status: 'Разбор изображений...' });
+  const train = toLabeledData(tensors.trainImages!, tensors.trainLabels!, format, options.trainLimit);
+  const test = withTest
+    ? toLabeledData(tensors.testImages!, tensors.testLabels!, format, options.testLimit)
+    : { images: [], labels: [] };
+
+  console.log(`✅ ${format.name}: ${train.images.length} обучающих и ${test.images.length} тестовых образцов`);
+  return createDataset(
+    { images: [...train.images, ...test.images], labels: [...train.labels, ...test.labels] },
+    MNIST_SHAPE,
+    {
+      kind: 'idx',
+      description: `${format.name} (${train.images.length} обучающих + ${test.images.length} тестовых)`,
+      classNames: format.classNames
+    },
+    test.images.length
+  );
+}
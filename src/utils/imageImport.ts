@@ -0,0 +1,233 @@
+import type { Dataset, ImageEntry, ImageShape, LoadProgress } from '../types';
+import { createDataset } from './dataset';
+import { fitToShape, toGrayscale, toInkOnBlack } from './imageProcessing';
+import { Random } from './random';
+
+// Поддерживаемые форматы изображений и архивов
+const IMAGE_PATTERN = /\.(png|jpe?g)$/i;
+const ZIP_PATTERN = /\.zip$/i;
+
+// Большие сканы уменьшаются при декодировании: символу всё равно достанется 20 × 20 пикселей
+const MAX_DECODE_SIZE = 512;
+
+// Сигнатуры записей ZIP
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+/**
+ * Файлы, выбранные через <input type="file"> (для папки — с путями внутри неё)
+ * @param files - выбранные файлы
+ * @returns записи с путями
+ */
+export function entriesFromFiles(files: File[]): ImageEntry[] {
+  return files.map(file => ({ path: file.webkitRelativePath || file.name, blob: file }));
+}
+
+/**
+ * Рекурсивно обходит перетащенную папку
+ * @param entry - элемент файловой системы из DataTransfer
+ * @returns записи всех файлов внутри
+ */
+async function walkEntry(entry: FileSystemEntry): Promise<ImageEntry[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ path: entry.fullPath.replace(/^\//, ''), blob: file }];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries отдаёт содержимое папки порциями, пока не вернёт пустой список
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+  const nested = await Promise.all(children.map(walkEntry));
+  return nested.flat();
+}
+
+/**
+ * Файлы и папки, перетащенные в окно
+ * @param dataTransfer - данные события drop
+ * @returns записи всех файлов (папки обходятся рекурсивно)
+ */
+export async function entriesFromDataTransfer(dataTransfer: DataTransfer): Promise<ImageEntry[]> {
+  const roots = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  const nested = await Promise.all(roots.map(walkEntry));
+  return nested.flat();
+}
+
+/**
+ * Распаковывает архив ZIP (без ZIP64; методы stored и deflate) средствами браузера
+ * @param blob - содержимое архива
+ * @returns записи файлов-изображений архива
+ */
+export async function readZipEntries(blob: Blob): Promise<ImageEntry[]> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  // Конец центрального каталога — в последних 22 + 65535 байтах (комментарий архива)
+  let end = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Файл не является архивом ZIP');
+  }
+
+  const nEntries = view.getUint16(end + 10, true);
+  const decoder = new TextDecoder();
+  const entries: ImageEntry[] = [];
+  let offset = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < nEntries; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Повреждён центральный каталог ZIP');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!IMAGE_PATTERN.test(path)) continue;
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error('Архивы ZIP64 не поддерживаются');
+    }
+    if (view.getUint32(localOffset, true) !== ZIP_LOCAL_FILE_HEADER) {
+      throw new Error(`Повреждена запись ZIP: ${path}`);
+    }
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = new Blob([bytes.subarray(dataStart, dataStart + compressedSize)]);
+    if (method === ZIP_STORED) {
+      entries.push({ path, blob: data });
+    } else if (method === ZIP_DEFLATED) {
+      const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      entries.push({ path, blob: await new Response(stream).blob() });
+    } else {
+      console.warn(`⚠️ Пропущен ${path}: метод сжатия ${method} не поддерживается`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Раскрывает архивы и оставляет только изображения (без служебных файлов macOS)
+ * @param entries - выбранные или перетащенные файлы
+ * @returns записи изображений
+ */
+export async function collectImageEntries(entries: ImageEntry[]): Promise<ImageEntry[]> {
+  const expanded: ImageEntry[] = [];
+  for (const entry of entries) {
+    if (ZIP_PATTERN.test(entry.path)) {
+      expanded.push(...await readZipEntries(entry.blob));
+    } else {
+      expanded.push(entry);
+    }
+  }
+  return expanded.filter(({ path }) => {
+    const name = path.split('/').pop() ?? '';
+    return IMAGE_PATTERN.test(name) && !name.startsWith('.') && !path.includes('__MACOSX/');
+  });
+}
+
+/**
+ * Класс изображения — папка, в которой оно лежит
+ * @param path - путь файла
+ * @returns имя папки (пустая строка для файла без папки)
+ */
+function classOf(path: string): string {
+  const parts = path.split('/').filter(Boolean);
+  return parts.length > 1 ? parts[parts.length - 2] : '';
+}
+
+/**
+ * Декодирует PNG/JPEG в оттенки серого (большие изображения уменьшаются)
+ * @param blob - содержимое файла
+ * @returns яркости в [0, 1] и размеры
+ */
+async function decodeImage(blob: Blob): Promise<{ pixels: Float32Array; width: number; height: number }> {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas 2D недоступен');
+  }
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return { pixels: toGrayscale(ctx.getImageData(0, 0, width, height).data), width, height };
+}
+
+/**
+ * Строит набор данных из своих изображений: каждое переводится в оттенки серого,
+ * приводится к светлому символу на тёмном фоне, обрезается, вписывается в кадр
+ * и центрируется по центру масс. Подпапки задают классы (без подпапок — один класс)
+ * @param entries - записи изображений (см. collectImageEntries)
+ * @param shape - форма входа модели
+ * @param onProgress - колбэк прогресса обработки
+ * @param random - генератор для перемешивания образцов перед разбиением на разделы
+ * @returns набор данных с классами по папкам
+ */
+export async function importImageDataset(
+  entries: ImageEntry[],
+  shape: ImageShape,
+  onProgress: (progress: LoadProgress) => void,
+  random: Random = new Random()
+): Promise<Dataset> {
+  if (entries.length === 0) {
+    throw new Error('Не найдено ни одного изображения PNG или JPEG');
+  }
+
+  const classNames = Array.from(new Set(entries.map(entry => classOf(entry.path))))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const images: Float32Array[] = [];
+  const labels: number[] = [];
+  let nFailed = 0;
+
+  for (let i = 0; i < entries.length; i++) {
+    onProgress({ fraction: i / entries.length, status: `Обработка изображений ${i + 1}/${entries.length}` });
+    try {
+      const { pixels, width, height } = await decodeImage(entries[i].blob);
+      images.push(fitToShape(toInkOnBlack(pixels, width, height), width, height, shape));
+      labels.push(classNames.indexOf(classOf(entries[i].path)));
+    } catch (e) {
+      nFailed++;
+      console.warn(`⚠️ Не удалось прочитать ${entries[i].path}:`, e);
+    }
+  }
+  if (images.length === 0) {
+    throw new Error('Не удалось прочитать ни одного изображения');
+  }
+
+  // Файлы идут по папкам, поэтому перед разбиением на разделы образцы перемешиваются
+  const order = random.shuffle(images.map((_, i) => i));
+  console.log(`✅ Импортировано ${images.length} изображений, классов: ${classNames.length}${nFailed > 0 ? `, пропущено: ${nFailed}` : ''}`);
+  return createDataset(
+    { images: order.map(i => images[i]), labels: order.map(i => labels[i]) },
+    shape,
+    {
+      kind: 'custom',
+      description: `свои изображения (${images.length}, классов: ${classNames.length})`,
+      classNames: classNames.map(name => name || 'без папки')
+    }
+  );
+}
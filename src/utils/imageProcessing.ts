@@ -0,0 +1,257 @@
+import type { ImageShape } from '../types';
+
+// Доля стороны кадра, которую занимает символ после масштабирования (как в MNIST: 20 из 28)
+const CONTENT_FRACTION = 20 / 28;
+
+// Пиксели ярче порога считаются частью символа при поиске его границ
+const INK_THRESHOLD = 0.1;
+
+/**
+ * Переводит RGBA-пиксели в оттенки серого (яркость по Rec. 601),
+ * прозрачные области считаются белым фоном
+ * @param rgba - байты RGBA (как в ImageData)
+ * @returns яркости в [0, 1]
+ */
+export function toGrayscale(rgba: Uint8ClampedArray): Float32Array {
+  const gray = new Float32Array(rgba.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    const alpha = rgba[i * 4 + 3] / 255;
+    const luminance = (0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2]) / 255;
+    gray[i] = luminance * alpha + (1 - alpha);
+  }
+  return gray;
+}
+
+/**
+ * Приводит изображение к виду MNIST — светлый символ на тёмном фоне:
+ * если светлая рамка (фон), изображение инвертируется
+ * @param pixels - яркости в [0, 1]
+ * @param width - ширина
+ * @param height - высота
+ * @returns яркости символа в [0, 1]
+ */
+export function toInkOnBlack(pixels: Float32Array, width: number, height: number): Float32Array {
+  let border = 0;
+  let count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (y === 0 || y === height - 1 || x === 0 || x === width - 1) {
+        border += pixels[y * width + x];
+        count++;
+      }
+    }
+  }
+  return border / count > 0.5 ? pixels.map(value => 1 - value) : pixels.slice();
+}
+
+/**
+ * Наименьший прямоугольник, содержащий все пиксели ярче INK_THRESHOLD
+ * @param pixels - яркости символа
+ * @param width - ширина
+ * @param height - высота
+ * @returns границы (включительно) или null для пустого изображения
+ */
+export function inkBoundingBox(
+  pixels: Float32Array,
+  width: number,
+  height: number
+): { left: number; top: number; right: number; bottom: number } | null {
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[y * width + x] > INK_THRESHOLD) {
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+      }
+    }
+  }
+  return right < 0 ? null : { left, top, right, bottom };
+}
+
+/**
+ * Масштабирует изображение усреднением по площади: каждый новый пиксель —
+ * среднее исходных пикселей, взвешенное по доле перекрытия
+ * @param pixels - исходные яркости
+ * @param width - исходная ширина
+ * @param height - исходная высота
+ * @param newWidth - новая ширина
+ * @param newHeight - новая высота
+ * @returns масштабированное изображение
+ */
+export function resizeImage(
+  pixels: Float32Array,
+  width: number,
+  height: number,
+  newWidth: number,
+  newHeight: number
+): Float32Array {
+  const result = new Float32Array(newWidth * newHeight);
+  const scaleX = width / newWidth;
+  const scaleY = height / newHeight;
+
+  for (let y = 0; y < newHeight; y++) {
+    const y0 = y * scaleY;
+    const y1 = Math.max(y0 + 1e-6, (y + 1) * scaleY);
+    for (let x = 0; x < newWidth; x++) {
+      const x0 = x * scaleX;
+      const x1 = Math.max(x0 + 1e-6, (x + 1) * scaleX);
+      let sum = 0;
+      let area = 0;
+      // При увеличении окно меньше пикселя — берётся пиксель, в который оно попало
+      for (let sy = Math.floor(y0); sy < Math.min(height, Math.ceil(y1)); sy++) {
+        const wy = Math.min(y1, sy + 1) - Math.max(y0, sy);
+        for (let sx = Math.floor(x0); sx < Math.min(width, Math.ceil(x1)); sx++) {
+          const wx = Math.min(x1, sx + 1) - Math.max(x0, sx);
+          sum += pixels[sy * width + sx] * wx * wy;
+          area += wx * wy;
+        }
+      }
+      result[y * newWidth + x] = area > 0 ? sum / area : 0;
+    }
+  }
+  return result;
+}
+
+/**
+ * Центр масс яркости изображения
+ * @param pixels - яркости
+ * @param width - ширина
+ * @param height - высота
+ * @returns координаты центра масс (центр кадра для пустого изображения)
+ */
+export function centerOfMass(pixels: Float32Array, width: number, height: number): { x: number; y: number } {
+  let mass = 0;
+  let sumX = 0;
+  let sumY = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = pixels[y * width + x];
+      mass += value;
+      sumX += value * x;
+      sumY += value * y;
+    }
+  }
+  return mass > 0
+    ? { x: sumX / mass, y: sumY / mass }
+    : { x: (width - 1) / 2, y: (height - 1) / 2 };
+}
+
+/**
+ * Сдвигает изображение на целое число пикселей, заполняя освободившееся нулями
+ * @param pixels - яркости
+ * @param width - ширина
+ * @param height - высота
+ * @param dx - сдвиг вправо
+ * @param dy - сдвиг вниз
+ * @returns сдвинутое изображение
+ */
+export function shiftImage(pixels: Float32Array, width: number, height: number, dx: number, dy: number): Float32Array {
+  const result = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sy = y - dy;
+    if (sy < 0 || sy >= height) continue;
+    for (let x = 0; x < width; x++) {
+      const sx = x - dx;
+      if (sx >= 0 && sx < width) {
+        result[y * width + x] = pixels[sy * width + sx];
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Нормализация в духе MNIST: символ обрезается по границам, вписывается
+ * с сохранением пропорций в CONTENT_FRACTION кадра и ставится так,
+ * чтобы центр масс совпал с центром кадра
+ * @param pixels - яркости символа (светлый на тёмном)
+ * @param width - ширина исходного изображения
+ * @param height - высота исходного изображения
+ * @param shape - форма результата
+ * @returns изображение формы shape
+ */
+export function fitToShape(pixels: Float32Array, width: number, height: number, shape: ImageShape): Float32Array {
+  const box = inkBoundingBox(pixels, width, height);
+  const frame = new Float32Array(shape.width * shape.height);
+  if (!box) return frame;
+
+  const boxWidth = box.right - box.left + 1;
+  const boxHeight = box.bottom - box.top + 1;
+  const cropped = new Float32Array(boxWidth * boxHeight);
+  for (let y = 0; y < boxHeight; y++) {
+    cropped.set(pixels.subarray((box.top + y) * width + box.left, (box.top + y) * width + box.right + 1), y * boxWidth);
+  }
+
+  const scale = Math.min(shape.width, shape.height) * CONTENT_FRACTION / Math.max(boxWidth, boxHeight);
+  const contentWidth = Math.max(1, Math.round(boxWidth * scale));
+  const contentHeight = Math.max(1, Math.round(boxHeight * scale));
+  const content = resizeImage(cropped, boxWidth, boxHeight, contentWidth, contentHeight);
+
+  const offsetX = Math.floor((shape.width - contentWidth) / 2);
+  const offsetY = Math.floor((shape.height - contentHeight) / 2);
+  for (let y = 0; y < contentHeight; y++) {
+    frame.set(content.subarray(y * contentWidth, (y + 1) * contentWidth), (offsetY + y) * shape.width + offsetX);
+  }
+
+  return centerByMass(frame, shape.width, shape.height);
+}
+
+/**
+ * Устраняет наклон символа: по вторым моментам яркости находится наклон
+ * x = x̄ + skew·(y − ȳ), и каждая строка сдвигается обратно (линейная интерполяция)
+ * @param pixels - яркости символа
+ * @param width - ширина
+ * @param height - высота
+ * @returns выпрямленное изображение
+ */
+export function deskewImage(pixels: Float32Array, width: number, height: number): Float32Array {
+  const center = centerOfMass(pixels, width, height);
+  let covXY = 0;
+  let varY = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = pixels[y * width + x];
+      covXY += value * (x - center.x) * (y - center.y);
+      varY += value * (y - center.y) * (y - center.y);
+    }
+  }
+  if (varY === 0) return pixels.slice();
+
+  const skew = covXY / varY;
+  const result = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const offset = skew * (y - center.y);
+    for (let x = 0; x < width; x++) {
+      const sx = x + offset;
+      const x0 = Math.floor(sx);
+      const t = sx - x0;
+      const left = x0 >= 0 && x0 < width ? pixels[y * width + x0] : 0;
+      const right = x0 + 1 >= 0 && x0 + 1 < width ? pixels[y * width + x0 + 1] : 0;
+      result[y * width + x] = left * (1 - t) + right * t;
+    }
+  }
+  return result;
+}
+
+/**
+ * Сдвигает изображение так, чтобы центр масс оказался в центре кадра
+ * @param pixels - яркости символа
+ * @param width - ширина
+ * @param height - высота
+ * @returns отцентрированное изображение
+ */
+export function centerByMass(pixels: Float32Array, width: number, height: number): Float32Array {
+  const center = centerOfMass(pixels, width, height);
+  return shiftImage(
+    pixels,
+    width,
+    height,
+    Math.round((width - 1) / 2 - center.x),
+    Math.round((height - 1) / 2 - center.y)
+  );
+}
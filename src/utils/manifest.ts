@@ -0,0 +1,93 @@
+import type { BernoulliRBM } from '../ml/BernoulliRBM';
+import type { RunManifest } from '../types';
+
+/**
+ * Номер потока случайных чисел генератора данных (см. Random.deriveSeed);
+ * поток 0 — seed запуска без изменений — принадлежит модели
+ */
+export const DATA_RANDOM_STREAM = 1;
+
+/**
+ * Номер потока случайных чисел стохастической бинаризации в конвейере предобработки
+ */
+export const PREPROCESSING_RANDOM_STREAM = 2;
+
+/**
+ * Хеш содержимого массивов (cyrb53 по 32-битным словам): два массива с
+ * одинаковыми битами дают одинаковый хеш, любое различие — почти наверняка разный
+ * @param arrays - массивы в фиксированном порядке (образцы набора данных, параметры модели)
+ * @returns 16 шестнадцатеричных символов
+ */
+export function hashFloat32Arrays(arrays: Float32Array[]): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (const array of arrays) {
+    // Длина входит в хеш, чтобы разбиение на массивы тоже учитывалось
+    h1 = Math.imul(h1 ^ array.length, 2654435761);
+    h2 = Math.imul(h2 ^ array.length, 1597334677);
+
+    const words = new Uint32Array(array.buffer, array.byteOffset, array.length);
+    for (let i = 0; i < words.length; i++) {
+      h1 = Math.imul(h1 ^ words[i], 2654435761);
+      h2 = Math.imul(h2 ^ words[i], 1597334677);
+    }
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Хеш обученных параметров модели (веса и смещения)
+ * @param rbm - модель
+ * @returns хеш для сравнения результатов двух запусков
+ */
+export function hashModelWeights(rbm: BernoulliRBM): string {
+  return hashFloat32Arrays([rbm.getWeights(), rbm.getHiddenBias(), rbm.getVisibleBias()]);
+}
+
+/**
+ * Разбирает и проверяет манифест запуска из JSON
+ * @param json - содержимое файла манифеста
+ * @returns манифест
+ * @throws Error, если файл не является манифестом запуска
+ */
+export function parseRunManifest(json: string): RunManifest {
+  const manifest = JSON.parse(json) as Partial<RunManifest>;
+
+  if (manifest.version !== 1) {
+    throw new Error('Неподдерживаемая версия манифеста запуска');
+  }
+  if (
+    typeof manifest.seed !== 'number' ||
+    typeof manifest.epochs !== 'number' ||
+    typeof manifest.selectedDigit !== 'number' ||
+    typeof manifest.datasetHash !== 'string' ||
+    typeof manifest.params?.nVisible !== 'number' ||
+    typeof manifest.params?.nHidden !== 'number' ||
+    !manifest.trainingMethod ||
+    !manifest.dataSource ||
+    !['generated', 'mnist', 'idx', 'custom'].includes(manifest.dataSource)
+  ) {
+    throw new Error('Манифест запуска неполон или повреждён');
+  }
+
+  return manifest as RunManifest;
+}
+
+/**
+ * Сохраняет манифест запуска в JSON-файл через загрузку браузера
+ * @param manifest - манифест запуска
+ */
+export function downloadRunManifest(manifest: RunManifest): void {
+  const blob = new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `rbm-run-${manifest.trainingMethod}-${manifest.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
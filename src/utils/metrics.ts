@@ -24,7 +24,7 @@ export function calculateErrorMetrics(
   return {
     mse: mse.toFixed(6),
     errorPercent: errorPercent + '%',
-    pixelsDiff: `${pixelsDifferent}/784 (${pixelsDiffPercent}%)`
+    pixelsDiff: `${pixelsDifferent}/${original.length} (${pixelsDiffPercent}%)`
   };
 }
 
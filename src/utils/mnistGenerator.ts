@@ -1,205 +1,309 @@
-function drawLine(
-  canvas: Float32Array,
-  x1: number,
-  y1: number,
-  x2: number,
-  y2: number,
-  intensity: number,
-  thickness: number,
-  angle: number,
-  offsetX: number,
-  offsetY: number
-): void {
-  const steps = Math.max(Math.abs(x2 - x1), Math.abs(y2 - y1)) * 2;
-  for (let i = 0; i <= steps; i++) {
-    const t = i / steps;
-    const x = x1 + (x2 - x1) * t;
-    const y = y1 + (y2 - y1) * t;
-
-    const xRot = (x - 14) * Math.cos(angle) - (y - 14) * Math.sin(angle) + 14 + offsetX;
-    const yRot = (x - 14) * Math.sin(angle) + (y - 14) * Math.cos(angle) + 14 + offsetY;
-
-    for (let dy = -2; dy <= 2; dy++) {
-      for (let dx = -2; dx <= 2; dx++) {
-        const px = Math.round(xRot + dx);
-        const py = Math.round(yRot + dy);
-        if (px >= 0 && px < 28 && py >= 0 && py < 28) {
-          const dist = Math.sqrt(dx * dx + dy * dy);
-          const value = Math.exp(-dist * dist / (thickness * thickness)) * intensity;
-          canvas[py * 28 + px] = Math.min(1, canvas[py * 28 + px] + value);
+import { Random } from './random';
+import type { Dataset, GeneratorSettings, LabeledData } from '../types';
+import { createDataset } from './dataset';
+import { DEFAULT_GENERATOR_SETTINGS, DIGIT_CLASSES, DIGIT_CLASS_NAMES, MNIST_SHAPE } from '../constants';
+
+// Штрих — ломаная в координатах кадра 28 × 28, шаблон цифры — набор штрихов
+type Stroke = [number, number][];
+
+const SIZE = 28;
+const CENTER = 14;
+const PI = Math.PI;
+
+// Разброс толщины штриха вокруг заданной: ±25%
+const STROKE_WIDTH_JITTER = 0.25;
+
+// Ширина гауссова сглаживания поля смещений упругой деформации (Simard et al., 2003)
+const ELASTIC_SIGMA = 4;
+
+/**
+ * Дуга эллипса ломаной: угол 0 — вправо, π/2 — вниз (ось y направлена вниз)
+ * @param cx - центр по x
+ * @param cy - центр по y
+ * @param rx - полуось по x
+ * @param ry - полуось по y
+ * @param from - начальный угол
+ * @param to - конечный угол
+ * @returns точки дуги
+ */
+function arc(cx: number, cy: number, rx: number, ry: number, from = 0, to = Math.PI * 2): Stroke {
+  const nPoints = Math.max(8, Math.ceil(Math.abs(to - from) / (Math.PI / 12)));
+  return Array.from({ length: nPoints + 1 }, (_, i) => {
+    const angle = from + (to - from) * i / nPoints;
+    return [cx + rx * Math.cos(angle), cy + ry * Math.sin(angle)];
+  });
+}
+
+// Несколько начертаний каждой цифры: образец берёт одно из них случайно
+const DIGIT_TEMPLATES: Stroke[][][] = [
+  // 0
+  [
+    [arc(14, 14, 5, 7)],
+    [arc(14, 14, 4, 7.5)],
+    [arc(14, 14, 5.5, 7, -0.6 * PI, 1.45 * PI)]
+  ],
+  // 1
+  [
+    [[[14, 6], [14, 22]], [[14, 6], [11, 9]]],
+    [[[14, 6], [14, 22]]],
+    [[[11, 9], [14, 6], [14, 22]], [[11, 22], [17, 22]]]
+  ],
+  // 2
+  [
+    [[[9, 10], [13, 6], [17, 8], [14, 14], [9, 22], [19, 22]]],
+    [[...arc(14, 10, 4.5, 4, PI, 2.2 * PI), [9, 22], [19, 22]]],
+    [[[9, 9], [12, 6], [17, 7], [17, 11], [9, 22], [19, 22]]]
+  ],
+  // 3
+  [
+    [[[9, 8], [17, 8], [13, 14], [17, 14], [17, 18], [13, 22], [9, 20]]],
+    [arc(13.5, 10.5, 4, 3.5, 1.2 * PI, 2.5 * PI), arc(13.5, 18, 4.5, 4, 1.5 * PI, 2.85 * PI)],
+    [[[9, 7], [18, 7], [13, 13]], arc(13.5, 17.5, 4.5, 4.5, 1.45 * PI, 2.85 * PI)]
+  ],
+  // 4
+  [
+    [[[16, 6], [10, 16], [20, 16]], [[16, 6], [16, 22]]],
+    [[[11, 6], [10, 15], [19, 15]], [[16, 9], [16, 22]]],
+    [[[15, 6], [9, 17], [20, 17]], [[17, 11], [17, 22]]]
+  ],
+  // 5
+  [
+    [[[18, 7], [10, 7], [10, 12], [16, 13], [18, 15], [18, 19], [14, 22], [9, 20]]],
+    [[[18, 7], [10, 7], [10, 13]], arc(13.5, 17, 4.5, 4.5, -0.75 * PI, 0.8 * PI)]
+  ],
+  // 6
+  [
+    [[[16, 8], [12, 8], [10, 14], [10, 18], [14, 22], [18, 18], [18, 15], [14, 14], [10, 15]]],
+    [[[17, 6], [13, 9], [10, 14], [10, 18]], arc(14, 18, 4, 4)]
+  ],
+  // 7
+  [
+    [[[9, 8], [19, 8], [14, 22]], [[12, 14], [16, 14]]],
+    [[[9, 8], [19, 8], [14, 22]]],
+    [[[9, 10], [9, 8], [19, 8], [13, 22]]]
+  ],
+  // 8
+  [
+    [arc(14, 10, 4, 4), arc(14, 18, 4.5, 4)],
+    [arc(14, 9.5, 3.5, 3.5), arc(14, 18, 5, 4.5)]
+  ],
+  // 9
+  [
+    [arc(14, 11, 4, 4), [[18, 11], [18, 16], [16, 20], [12, 21]]],
+    [arc(14, 11, 4, 4), [[18, 11], [18, 22]]],
+    [arc(13, 10, 4, 4), [[17, 11], [14, 22]]]
+  ]
+];
+
+/**
+ * Случайное значение из [−range, range]
+ * @param range - размах
+ * @param random - генератор случайных чисел
+ * @returns значение
+ */
+function jitter(range: number, random: Random): number {
+  return (random.next() * 2 - 1) * range;
+}
+
+/**
+ * Расстояние от точки (px, py) до отрезка (x1, y1) – (x2, y2)
+ * @returns евклидово расстояние
+ */
+function distanceToSegment(px: number, py: number, x1: number, y1: number, x2: number, y2: number): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSquared)) : 0;
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+}
+
+/**
+ * Рисует штрихи заданной толщины со сглаженными краями
+ * @param strokes - ломаные в координатах кадра
+ * @param width - толщина штриха в пикселях
+ * @returns изображение 28 × 28
+ */
+function renderStrokes(strokes: Stroke[], width: number): Float32Array {
+  const image = new Float32Array(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      let distance = Infinity;
+      for (const stroke of strokes) {
+        for (let i = 1; i < stroke.length; i++) {
+          distance = Math.min(distance, distanceToSegment(x, y, stroke[i - 1][0], stroke[i - 1][1], stroke[i][0], stroke[i][1]));
         }
       }
+      image[y * SIZE + x] = Math.max(0, Math.min(1, width / 2 + 0.5 - distance));
     }
   }
+  return image;
 }
 
-function drawEllipse(
-  canvas: Float32Array,
-  cx: number,
-  cy: number,
-  rx: number,
-  ry: number,
-  intensity: number,
-  filled: boolean,
-  thickness: number,
-  angle: number,
-  offsetX: number,
-  offsetY: number
-): void {
-  for (let a = 0; a < Math.PI * 2; a += 0.05) {
-    const x = cx + rx * Math.cos(a);
-    const y = cy + ry * Math.sin(a);
-    const nextX = cx + rx * Math.cos(a + 0.05);
-    const nextY = cy + ry * Math.sin(a + 0.05);
-    drawLine(canvas, x, y, nextX, nextY, intensity, thickness, angle, offsetX, offsetY);
-  }
+/**
+ * Случайное гладкое поле: равномерный шум, сглаженный гауссовым ядром по строкам и столбцам
+ * @param random - генератор случайных чисел
+ * @returns поле 28 × 28
+ */
+function smoothRandomField(random: Random): Float32Array {
+  const radius = Math.ceil(ELASTIC_SIGMA * 2);
+  const kernel = Array.from({ length: radius * 2 + 1 }, (_, i) => Math.exp(-((i - radius) ** 2) / (2 * ELASTIC_SIGMA ** 2)));
+  const field = Float32Array.from({ length: SIZE * SIZE }, () => random.next() * 2 - 1);
 
-  if (filled) {
-    for (let y = cy - ry; y <= cy + ry; y += 0.5) {
-      for (let x = cx - rx; x <= cx + rx; x += 0.5) {
-        if ((x - cx) * (x - cx) / (rx * rx) + (y - cy) * (y - cy) / (ry * ry) <= 1) {
-          const px = Math.round(x);
-          const py = Math.round(y);
-          if (px >= 0 && px < 28 && py >= 0 && py < 28) {
-            canvas[py * 28 + px] = Math.min(1, canvas[py * 28 + px] + intensity * 0.3);
+  const blur = (source: Float32Array, horizontal: boolean): Float32Array => {
+    const result = new Float32Array(SIZE * SIZE);
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = horizontal ? x + k : x;
+          const sy = horizontal ? y : y + k;
+          if (sx >= 0 && sx < SIZE && sy >= 0 && sy < SIZE) {
+            sum += source[sy * SIZE + sx] * kernel[k + radius];
           }
         }
+        result[y * SIZE + x] = sum;
       }
     }
-  }
+    return result;
+  };
+
+  return blur(blur(field, true), false);
+}
+
+/**
+ * Значение изображения в дробной точке (билинейная интерполяция, за кадром — 0)
+ * @param image - изображение 28 × 28
+ * @param x - координата по горизонтали
+ * @param y - координата по вертикали
+ * @returns яркость
+ */
+function sampleBilinear(image: Float32Array, x: number, y: number): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const tx = x - x0;
+  const ty = y - y0;
+  const at = (px: number, py: number) => (px >= 0 && px < SIZE && py >= 0 && py < SIZE ? image[py * SIZE + px] : 0);
+  return (at(x0, y0) * (1 - tx) + at(x0 + 1, y0) * tx) * (1 - ty)
+    + (at(x0, y0 + 1) * (1 - tx) + at(x0 + 1, y0 + 1) * tx) * ty;
 }
 
-export function generateDigit(digit: number, variation = 0): Float32Array {
-  const canvas = new Float32Array(784);
-
-  const angle = (variation * 0.5 - 0.5) * 0.2;
-  const thickness = 1.5 + variation * 0.2;
-  const offsetX = (variation * 0.6 - 0.1) * 4;
-  const offsetY = (variation * 0.5 - 0.1) * 4;
-
-  const draw = (x1: number, y1: number, x2: number, y2: number, intensity = 0.9) =>
-    drawLine(canvas, x1, y1, x2, y2, intensity, thickness, angle, offsetX, offsetY);
-
-  const ellipse = (cx: number, cy: number, rx: number, ry: number, intensity = 0.9, filled = false) =>
-    drawEllipse(canvas, cx, cy, rx, ry, intensity, filled, thickness, angle, offsetX, offsetY);
-
-  switch (digit) {
-    case 0:
-      ellipse(14, 14, 5, 7, 0.9);
-      break;
-    case 1:
-      draw(14, 6, 14, 22, 0.9);
-      draw(14, 6, 11, 9, 0.7);
-      break;
-    case 2:
-      draw(9, 10, 13, 6, 0.8);
-      draw(13, 6, 17, 8, 0.8);
-      draw(17, 8, 14, 14, 0.8);
-      draw(14, 14, 9, 22, 0.8);
-      draw(9, 22, 19, 22, 0.8);
-      break;
-    case 3:
-      draw(9, 8, 17, 8, 0.8);
-      draw(17, 8, 13, 14, 0.8);
-      draw(13, 14, 17, 14, 0.7);
-      draw(17, 14, 17, 18, 0.8);
-      draw(17, 18, 13, 22, 0.8);
-      draw(13, 22, 9, 20, 0.8);
-      break;
-    case 4:
-      draw(16, 6, 10, 16, 0.8);
-      draw(10, 16, 20, 16, 0.8);
-      draw(16, 6, 16, 22, 0.9);
-      break;
-    case 5:
-      draw(18, 7, 10, 7, 0.8);  // Верхняя горизонтальная линия
-      draw(10, 7, 10, 12, 0.8);  // Левая вертикальная линия
-      draw(10, 12, 16, 13, 0.8); // Средняя горизонтальная линия (сдвинута ниже)
-      draw(16, 13, 18, 15, 0.8); // Правый верхний угол нижней части
-      draw(18, 15, 18, 19, 0.8); // Правая вертикальная линия
-      draw(18, 19, 14, 22, 0.8); // Правый нижний угол
-      draw(14, 22, 9, 20, 0.8);  // Левый нижний угол
-      break;
-    case 6:
-      draw(16, 8, 12, 8, 0.8);
-      draw(12, 8, 10, 14, 0.8);
-      draw(10, 14, 10, 18, 0.8);
-      draw(10, 18, 14, 22, 0.8);
-      draw(14, 22, 18, 18, 0.8);
-      draw(18, 18, 18, 15, 0.8);
-      draw(18, 15, 14, 14, 0.8);
-      draw(14, 14, 10, 15, 0.8);
-      break;
-    case 7:
-      draw(9, 8, 19, 8, 0.9);
-      draw(19, 8, 14, 22, 0.9);
-      draw(12, 14, 16, 14, 0.5);
-      break;
-    case 8:
-      ellipse(14, 10, 4, 4, 0.8);
-      ellipse(14, 18, 4.5, 4, 0.8);
-      break;
-    case 9:
-      ellipse(14, 11, 4, 4, 0.8);
-      draw(18, 11, 18, 16, 0.8);
-      draw(18, 16, 16, 20, 0.8);
-      draw(16, 20, 12, 21, 0.8);
-      break;
+/**
+ * Упругая деформация: каждый пиксель берётся из точки, смещённой гладким
+ * случайным полем; наибольшее смещение равно amplitude пикселей
+ * @param image - изображение 28 × 28
+ * @param amplitude - наибольшее смещение в пикселях
+ * @param random - генератор случайных чисел
+ * @returns деформированное изображение
+ */
+function elasticDistortion(image: Float32Array, amplitude: number, random: Random): Float32Array {
+  const fieldX = smoothRandomField(random);
+  const fieldY = smoothRandomField(random);
+  let maxShift = 1e-8;
+  for (let i = 0; i < fieldX.length; i++) {
+    maxShift = Math.max(maxShift, Math.hypot(fieldX[i], fieldY[i]));
   }
 
-  const blurred = new Float32Array(784);
-  for (let y = 0; y < 28; y++) {
-    for (let x = 0; x < 28; x++) {
-      let sum = 0;
-      let count = 0;
-      for (let dy = -1; dy <= 1; dy++) {
-        for (let dx = -1; dx <= 1; dx++) {
-          const ny = y + dy;
-          const nx = x + dx;
-          if (ny >= 0 && ny < 28 && nx >= 0 && nx < 28) {
-            const weight = (dx === 0 && dy === 0) ? 4 : 1;
-            sum += canvas[ny * 28 + nx] * weight;
-            count += weight;
-          }
-        }
-      }
-      blurred[y * 28 + x] = sum / count;
-      blurred[y * 28 + x] += (Math.random() - 0.5) * 0.1;
-      blurred[y * 28 + x] = Math.max(0, Math.min(1, blurred[y * 28 + x]));
+  const scale = amplitude / maxShift;
+  const result = new Float32Array(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const i = y * SIZE + x;
+      result[i] = sampleBilinear(image, x + fieldX[i] * scale, y + fieldY[i] * scale);
     }
   }
-
-  return blurred;
+  return result;
 }
 
-export async function loadMNIST(nSamples = 2000, onlyDigits: number[] = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]): Promise<Float32Array[]> {
-  const data: Float32Array[] = [];
-
-  for (let i = 0; i < nSamples; i++) {
-    const digit = onlyDigits[Math.floor(i / 200)];
-    const variation = (i % 200) / 200;
-    console.log(`variation= ${variation}`);
-    const randomVariation = variation + Math.random() * 1.3;
-    console.log(`randomVariation= ${randomVariation}`);
-    const sample = generateDigit(digit, randomVariation);
-    data.push(sample);
-  }
+/**
+ * Рисует синтетическую цифру 28 × 28: случайное начертание из шаблонов,
+ * затем наклон, масштаб и поворот вокруг центра кадра, толщина штриха,
+ * упругая деформация и шум — каждое искажение со своим размахом
+ * @param digit - цифра от 0 до 9
+ * @param settings - размахи искажений (classCounts не используется)
+ * @param random - генератор случайных чисел (по умолчанию со случайным seed)
+ * @returns изображение, построчно в одном массиве
+ */
+export function generateDigit(
+  digit: number,
+  settings: GeneratorSettings = DEFAULT_GENERATOR_SETTINGS,
+  random: Random = new Random()
+): Float32Array {
+  const templates = DIGIT_TEMPLATES[digit];
+  const template = templates[random.nextInt(templates.length)];
+
+  const angle = jitter(settings.rotation, random) * Math.PI / 180;
+  const scale = 1 + jitter(settings.scale, random);
+  const shear = jitter(settings.shear, random);
+  const width = settings.strokeWidth * (1 + jitter(STROKE_WIDTH_JITTER, random));
+
+  // Наклон, масштаб и поворот вокруг центра кадра
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const strokes = template.map(stroke => stroke.map(([x, y]): [number, number] => {
+    const sx = ((x - CENTER) + shear * (y - CENTER)) * scale;
+    const sy = (y - CENTER) * scale;
+    return [sx * cos - sy * sin + CENTER, sx * sin + sy * cos + CENTER];
+  }));
 
-  for (let i = data.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [data[i], data[j]] = [data[j], data[i]];
+  let image = renderStrokes(strokes, width);
+  if (settings.elastic > 0) {
+    image = elasticDistortion(image, settings.elastic, random);
   }
+  if (settings.noise > 0) {
+    image = image.map(value => Math.max(0, Math.min(1, value + (random.next() - 0.5) * settings.noise)));
+  }
+  return image;
+}
+
+/**
+ * Делит образцы между цифрами поровну (остаток — первым цифрам списка)
+ * @param nSamples - общее количество образцов
+ * @param digits - цифры
+ * @returns количество образцов каждой цифры (для отсутствующих — 0)
+ */
+export function evenClassCounts(nSamples: number, digits: number[]): number[] {
+  const counts = Array(DIGIT_CLASSES).fill(0);
+  digits.forEach((digit, i) => {
+    counts[digit] += Math.floor(nSamples / digits.length) + (i < nSamples % digits.length ? 1 : 0);
+  });
+  return counts;
+}
 
-  // Отладочная информация
-  if (data.length > 0) {
-    const firstSample = data[0];
-    const nonZeroPixels = Array.from(firstSample).filter(p => p > 0).length;
-    const maxValue = Math.max(...Array.from(firstSample));
-    const minValue = Math.min(...Array.from(firstSample));
+/**
+ * Генерирует перемешанный набор синтетических цифр вместе с метками
+ * @param settings - искажения и количество образцов каждой цифры
+ * @param random - генератор случайных чисел: при одном seed набор совпадает бит в бит
+ * @returns набор данных: образцы и их цифры в одном и том же случайном порядке, с разделами
+ */
+export async function loadGeneratedDataset(
+  settings: GeneratorSettings = DEFAULT_GENERATOR_SETTINGS,
+  random: Random = new Random()
+): Promise<Dataset> {
+  const images: Float32Array[] = [];
+  const digits: number[] = [];
 
-    console.log(`✅ Сгенерировано ${data.length} синтетических образцов MNIST`);
-    console.log(`📊 Первый образец: ${nonZeroPixels}/784 ненулевых пикселей, диапазон [${minValue.toFixed(3)}, ${maxValue.toFixed(3)}]`);
+  settings.classCounts.forEach((count, digit) => {
+    for (let i = 0; i < count; i++) {
+      images.push(generateDigit(digit, settings, random));
+      digits.push(digit);
+    }
+  });
+  if (images.length === 0) {
+    throw new Error('Генератору не задано ни одного образца');
   }
 
-  return data;
-}
\ No newline at end of file
+  // Перемешивается порядок индексов, чтобы изображения и метки остались парами
+  const order = random.shuffle(Array.from({ length: images.length }, (_, i) => i));
+  const data: LabeledData = {
+    images: order.map(i => images[i]),
+    labels: order.map(i => digits[i])
+  };
+
+  console.log(`✅ Сгенерировано ${data.images.length} синтетических образцов: поворот ±${settings.rotation}°, масштаб ±${settings.scale}, наклон ±${settings.shear}, штрих ${settings.strokeWidth}, упругость ${settings.elastic}, шум ${settings.noise}`);
+
+  return createDataset(data, MNIST_SHAPE, {
+    kind: 'generated',
+    description: `сгенерированные цифры (${data.images.length} образцов)`,
+    classNames: DIGIT_CLASS_NAMES
+  });
+}
@@ -1,6 +1,15 @@
-import type { MNISTSample } from '../types';
+import type { Dataset, MNISTSample } from '../types';
+import type { Random } from './random';
+import { createDataset } from './dataset';
+import { DIGIT_CLASS_NAMES, MNIST_SHAPE } from '../constants';
 
-export async function loadRealMNIST(): Promise<Float32Array[]> {
+/**
+ * Загружает реальные образцы MNIST вместе с метками цифр в случайном порядке
+ * (в файле образцы идут подряд, а разделы назначаются по позиции)
+ * @param random - генератор случайных чисел для перемешивания
+ * @returns набор данных: изображения (пиксели в [0, 1]), их цифры и разделы
+ */
+export async function loadMNISTDataset(random: Random): Promise<Dataset> {
   try {
     const response = await fetch('/data/mnist_2000.json');
     if (!response.ok) {
@@ -23,19 +32,15 @@ export async function loadRealMNIST(): Promise<Float32Array[]> {
       console.log(`📊 Первый образец: ${nonZeroPixels}/784 ненулевых пикселей, диапазон [${minValue.toFixed(3)}, ${maxValue.toFixed(3)}]`);
     }
     
-    return processedData;
+    // Перемешивается порядок индексов, чтобы изображения и метки остались парами
+    const order = random.shuffle(Array.from({ length: processedData.length }, (_, i) => i));
+    return createDataset(
+      { images: order.map(i => processedData[i]), labels: order.map(i => mnistData[i].label) },
+      MNIST_SHAPE,
+      { kind: 'mnist', description: `реальный MNIST (${processedData.length} образцов)`, classNames: DIGIT_CLASS_NAMES }
+    );
   } catch (error) {
     console.error('❌ Ошибка загрузки MNIST данных:', error);
     throw new Error('Не удалось загрузить реальные данные MNIST. Используются сгенерированные данные.');
   }
 }
-
-export function getMNISTLabels(): Promise<number[]> {
-  return fetch('/data/mnist_2000.json')
-    .then(response => response.json())
-    .then((data: MNISTSample[]) => data.map(sample => sample.label))
-    .catch(() => {
-      console.warn('Не удалось загрузить метки MNIST');
-      return [];
-    });
-}
\ No newline at end of file
@@ -0,0 +1,98 @@
+/**
+ * Воспроизводимый генератор псевдослучайных чисел (mulberry32).
+ * Вся случайность модели и генератора данных идёт через него: при одинаковом seed
+ * два запуска дают одинаковую последовательность чисел и, значит, одинаковые веса.
+ * Состояние — одно 32-битное число, поэтому его легко сохранить вместе с моделью
+ * и продолжить ту же последовательность (например, в воркере или после загрузки)
+ */
+export class Random {
+  private state: number;
+
+  /**
+   * Создает генератор
+   * @param seed - начальное значение (по умолчанию случайное)
+   */
+  constructor(seed: number = Random.randomSeed()) {
+    this.state = seed | 0;
+  }
+
+  /**
+   * Выбирает случайный seed для запуска, в котором seed не задан явно
+   * @returns целое число от 0 до 2³² − 1
+   */
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Выводит из seed запуска независимый seed для отдельного потока случайных чисел
+   * (модель и генератор данных не должны делить одну последовательность)
+   * @param seed - seed запуска
+   * @param stream - номер потока
+   * @returns производный seed
+   */
+  static deriveSeed(seed: number, stream: number): number {
+    const mixer = new Random((seed ^ Math.imul(stream + 1, 0x9e3779b9)) | 0);
+    return Math.floor(mixer.next() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Следующее случайное число
+   * @returns равномерно распределённое число из [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Случайное целое число
+   * @param max - верхняя граница (не включается)
+   * @returns целое число от 0 до max − 1
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Стандартное нормальное число (преобразование Бокса — Мюллера).
+   * Второе число пары не запоминается, чтобы состояние генератора оставалось одним числом
+   * @returns сэмпл N(0, 1)
+   */
+  gaussian(): number {
+    const u = 1 - this.next();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * this.next());
+  }
+
+  /**
+   * Перемешивает массив на месте (тасование Фишера — Йетса)
+   * @param items - массив для перемешивания
+   * @returns тот же массив
+   */
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  /**
+   * Возвращает текущее состояние генератора
+   * @returns 32-битное беззнаковое число
+   */
+  getState(): number {
+    return this.state >>> 0;
+  }
+
+  /**
+   * Восстанавливает состояние, полученное из getState()
+   * @param state - сохранённое состояние
+   */
+  setState(state: number): void {
+    this.state = state | 0;
+  }
+}
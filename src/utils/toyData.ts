@@ -0,0 +1,25 @@
+/**
+ * Набор «полосы» (bars and stripes): все изображения size × size, в которых
+ * закрашены целые столбцы либо целые строки. Пустое и полностью закрашенное
+ * изображения входят один раз
+ * @param size - сторона изображения
+ * @returns 2^(size + 1) − 2 различных изображения
+ */
+export function barsAndStripes(size: number): Float32Array[] {
+  const patterns: Float32Array[] = [];
+  for (let mask = 0; mask < 2 ** size; mask++) {
+    const bars = new Float32Array(size * size);
+    const stripes = new Float32Array(size * size);
+    for (let r = 0; r < size; r++) {
+      for (let c = 0; c < size; c++) {
+        bars[r * size + c] = (mask >> c) & 1;
+        stripes[r * size + c] = (mask >> r) & 1;
+      }
+    }
+    patterns.push(bars);
+    if (mask !== 0 && mask !== 2 ** size - 1) {
+      patterns.push(stripes);
+    }
+  }
+  return patterns;
+}
@@ -0,0 +1,90 @@
+import { rbmFromTransferable } from '../ml/rbmFactory';
+import { PauseController } from '../ml/PauseController';
+import type { TrainerRequest, TrainerResponse } from '../types';
+
+/**
+ * Обучающий воркер: получает модель и упакованные данные, обучает модель вне
+ * основного потока и сообщает о прогрессе после каждой эпохи.
+ * Пауза и остановка вступают в силу перед следующим батчем
+ */
+
+const abortController = new AbortController();
+const pauseController = new PauseController();
+
+function post(message: TrainerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+async function train({
+  model,
+  data,
+  nSamples,
+  validation,
+  nValidation,
+  epochs,
+  snapshotInterval,
+  resampleBinarized
+}: Extract<TrainerRequest, { type: 'start' }>): Promise<void> {
+  try {
+    const rbm = rbmFromTransferable(model);
+
+    // Образцы — представления строк общей матрицы, без копирования
+    // (у классификационной RBM строка — пиксели вместе с one-hot меткой)
+    const { nVisible, nClasses = 0 } = model.params;
+    const sampleLength = nVisible + nClasses;
+    const rows = (matrix: Float32Array, count: number) =>
+      Array.from({ length: count }, (_, s) => matrix.subarray(s * sampleLength, (s + 1) * sampleLength));
+    const samples = rows(data, nSamples);
+
+    await rbm.fit(
+      samples,
+      epochs,
+      (epoch, totalEpochs, stats) => post({ type: 'progress', epoch, totalEpochs, stats }),
+      abortController.signal,
+      pauseController,
+      {
+        validationData: rows(validation, nValidation),
+        snapshotInterval,
+        resampleBinarized,
+        // Снимок — собственная копия весов, её буфер передаётся без копирования
+        onSnapshot: snapshotInterval > 0
+          ? snapshot => post({ type: 'snapshot', snapshot }, [snapshot.weights.buffer as ArrayBuffer])
+          : undefined
+      }
+    );
+
+    const result = rbm.toTransferable();
+    const transfer = [result.weights.buffer, result.hiddenBias.buffer, result.visibleBias.buffer] as ArrayBuffer[];
+    if (abortController.signal.aborted) {
+      post({ type: 'cancelled', model: result }, transfer);
+    } else {
+      post({ type: 'done', model: result }, transfer);
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+self.onmessage = (event: MessageEvent<TrainerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'start':
+      void train(request);
+      break;
+    case 'pause':
+      pauseController.pause();
+      post({ type: 'paused' });
+      break;
+    case 'resume':
+      pauseController.resume();
+      post({ type: 'resumed' });
+      break;
+    case 'cancel':
+      abortController.abort();
+      break;
+  }
+};
+
+// Сообщает основному потоку, что скрипт воркера загрузился и можно передавать данные
+post({ type: 'ready' });